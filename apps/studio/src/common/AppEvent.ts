@@ -14,7 +14,14 @@ export enum AppEvent {
   openExternally = 'oe',
   toggleSidebar = 'ts',
   beginExport = 'be',
+  beginImport = 'bi',
   createTable = 'new_table',
+  openSchemaCompare = 'openSchemaCompare',
+  openDataCompare = 'openDataCompare',
+  openErd = 'openErd',
+  openActivity = 'openActivity',
+  openLocks = 'openLocks',
+  openRoles = 'openRoles',
   openTableProperties = 'loadTableProperties',
   loadTable = 'loadTable',
   quickSearch = 'quickSearch',
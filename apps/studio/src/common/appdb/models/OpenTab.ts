@@ -5,7 +5,7 @@ import { ApplicationEntity } from "./application_entity";
 import _ from 'lodash'
 
 
-type TabType = 'query' | 'table' | 'table-properties' | 'settings' | 'table-builder'
+type TabType = 'query' | 'table' | 'table-properties' | 'settings' | 'table-builder' | 'schema-compare' | 'data-compare' | 'erd' | 'activity' | 'locks' | 'roles'
 
 
 const pickable = ['title', 'tabType', 'unsavedChanges', 'unsavedQueryText', 'tableName', 'schemaName']
@@ -131,6 +131,11 @@ export class OpenTab extends ApplicationEntity {
         //   _.isEqual(this.filters, other.filters)
       case 'query':
         return this.queryId === other.queryId
+      case 'activity':
+      case 'locks':
+      case 'roles':
+        // one of each per connection is plenty
+        return this.tabType === other.tabType
       default:
         return false
     }
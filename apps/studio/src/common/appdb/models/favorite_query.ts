@@ -2,6 +2,8 @@ import ISavedQuery from '@/common/interfaces/ISavedQuery'
 import { Entity, Column, Index, BeforeInsert, BeforeUpdate } from 'typeorm'
 import { ApplicationEntity  } from './application_entity'
 import { QueryLike } from './base'
+import { QueryParamInput } from '@/lib/db/params'
+import { ChartSettings } from '@/lib/chart/layout'
 
 @Entity({ name: 'favorite_query' })
 export class FavoriteQuery extends ApplicationEntity implements QueryLike, ISavedQuery {
@@ -19,6 +21,14 @@ export class FavoriteQuery extends ApplicationEntity implements QueryLike, ISave
   @Column({type: "varchar", nullable: false})
   connectionHash!: string
 
+  // the last values used for each placeholder, eg { ':id': { type: 'number', value: '5' } }
+  @Column({ type: 'simple-json', nullable: false })
+  parameters: Record<string, QueryParamInput> = {}
+
+  // how to chart the results, null until the chart has been changed
+  @Column({ type: 'simple-json', nullable: true })
+  chartSettings: ChartSettings | null = null
+
   @BeforeInsert()
   @BeforeUpdate()
   setDefaultDatabase(): void {
@@ -8,7 +8,7 @@ import { ConnectionString } from 'connection-string'
 import log from 'electron-log'
 import { IDbClients } from '@/lib/db/client'
 import { EncryptTransformer } from '../transformers/Transformers'
-import { IConnection, SshMode } from '@/common/interfaces/IConnection'
+import { DangerousQueryPolicy, IConnection, SshJumpHost, SshMode } from '@/common/interfaces/IConnection'
 
 
 const encrypt = new EncryptTransformer(loadEncryptionKey())
@@ -24,6 +24,13 @@ export const ConnectionTypes = [
   { name: 'Oracle', value: 'other' },
   { name: 'Cassandra', value: 'other' },
   { name: 'BigQuery', value: 'bigquery' },
+  { name: 'DuckDB', value: 'duckdb' },
+]
+
+export const DangerousQueryPolicies: { name: string, value: DangerousQueryPolicy }[] = [
+  { name: "Off", value: "off" },
+  { name: "Warn", value: "warn" },
+  { name: "Block", value: "block" },
 ]
 
 export const keymapTypes = [
@@ -168,6 +175,12 @@ export class DbConnectionBase extends ApplicationEntity {
   @Column({ type: 'varchar', nullable: true })
   sshBastionHost: Nullable<string> = null
 
+  @Column({ type: 'simple-json', nullable: false })
+  sshJumpHosts: SshJumpHost[] = []
+
+  @Column({ type: 'varchar', nullable: true })
+  sshConfigHost: Nullable<string> = null
+
   @Column({ type: 'int', nullable: true })
   sshKeepaliveInterval: Nullable<number> = 60
 
@@ -230,6 +243,14 @@ export class SavedConnection extends DbConnectionBase implements IConnection {
   @Column({ type: 'varchar', nullable: true, transformer: [encrypt] })
   sshPassword: Nullable<string> = null
 
+  // what to do before running DELETE/UPDATE without WHERE, DROP, TRUNCATE or ALTER
+  @Column({ type: 'varchar', nullable: false, default: 'warn' })
+  dangerousQueryPolicy: DangerousQueryPolicy = 'warn'
+
+  // enforced by the client, see DBConnection
+  @Column({ type: 'boolean', nullable: false, default: false })
+  readOnlyMode = false
+
   _sshMode: SshMode = "agent"
 
   @Column({ name: "sshMode", type: "varchar", length: "8", nullable: false, default: "agent" })
@@ -272,6 +293,10 @@ export class SavedConnection extends DbConnectionBase implements IConnection {
           this.connectionType = 'sqlite'
           this.defaultDatabase = url
           return true
+        } else if (url.endsWith('.duckdb')) {
+          this.connectionType = 'duckdb'
+          this.defaultDatabase = url
+          return true
         } else {
           // do nothing, continue url parsing
         }
@@ -316,6 +341,14 @@ export class SavedConnection extends DbConnectionBase implements IConnection {
     }
   }
 
+  @BeforeInsert()
+  @BeforeUpdate()
+  checkDuckDB(): void {
+    if (this.connectionType === 'duckdb' && !this.defaultDatabase) {
+      throw new Error("database path must be set for DuckDB databases")
+    }
+  }
+
   @BeforeInsert()
   @BeforeUpdate()
   maybeClearPasswords(): void {
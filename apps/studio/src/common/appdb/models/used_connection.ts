@@ -18,6 +18,8 @@ export class UsedConnection extends DbConnectionBase implements ISimpleConnectio
       this.sshHost = other.sshHost
       this.sshPort = other.sshPort
       this.sshBastionHost = other.sshBastionHost
+      this.sshJumpHosts = other.sshJumpHosts
+      this.sshConfigHost = other.sshConfigHost
       this.sshKeepaliveInterval = other.sshKeepaliveInterval
       this.ssl = other.ssl
       this.sslCaFile = other.sslCaFile
@@ -1,8 +1,17 @@
 import { RedshiftOptions } from "../appdb/models/saved_connection"
 import { BigQueryOptions } from "../appdb/models/saved_connection"
 
-export type ConnectionType = 'sqlite' | 'sqlserver' | 'redshift' | 'cockroachdb' | 'mysql' | 'postgresql' | 'mariadb' | 'cassandra' | 'bigquery'
+export type ConnectionType = 'sqlite' | 'sqlserver' | 'redshift' | 'cockroachdb' | 'mysql' | 'postgresql' | 'mariadb' | 'cassandra' | 'bigquery' | 'duckdb'
 export type SshMode = null | 'agent' | 'userpass' | 'keyfile'
+export type DangerousQueryPolicy = 'off' | 'warn' | 'block'
+
+// a host to go through before the ssh host, a null user or keyfile is the same as the ssh host's
+export interface SshJumpHost {
+  host: string
+  port: Nullable<number>
+  user: Nullable<string>
+  keyfile: Nullable<string>
+}
 
 export interface ISimpleConnection {
   id: number | null
@@ -22,6 +31,9 @@ export interface ISimpleConnection {
   sshKeyfile: Nullable<string>
   sshUsername: Nullable<string>
   sshBastionHost: Nullable<string>
+  sshJumpHosts: SshJumpHost[]
+  // a Host from ~/.ssh/config, used instead of sshHost and sshPort
+  sshConfigHost: Nullable<string>
   sshKeepaliveInterval: Nullable<number>
   ssl: boolean
   sslCaFile: Nullable<string>
@@ -42,6 +54,8 @@ export interface IConnection extends ISimpleConnection {
   password: Nullable<string>
   sshPassword: Nullable<string>
   sshKeyfilePassword: Nullable<string>
+  dangerousQueryPolicy?: DangerousQueryPolicy
+  readOnlyMode?: boolean
 }
 
 export interface ICloudSavedConnection extends IConnection {
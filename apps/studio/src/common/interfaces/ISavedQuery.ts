@@ -1,4 +1,5 @@
-
+import { QueryParamInput } from '@/lib/db/params'
+import { ChartSettings } from '@/lib/chart/layout'
 
 export default interface ISavedQuery {
   id: number | null
@@ -6,6 +7,8 @@ export default interface ISavedQuery {
   // same as title, damn you title
   text: string
   database: string | null
+  parameters?: Record<string, QueryParamInput>
+  chartSettings?: ChartSettings | null
   // TODO (matthew)
   // queryFolderId: number | null
   // userId: number | null
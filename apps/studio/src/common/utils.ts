@@ -8,6 +8,7 @@ import { Error as CustomError } from '../lib/errors'
 import _ from 'lodash';
 import platformInfo from './platform_info';
 import { format } from 'sql-formatter';
+import humanizeDuration from 'humanize-duration';
 import { TableFilter } from '@/lib/db/models';
 
 export function having<T, U>(item: T | undefined | null, f: (T) => U, errorOnNone?: string): U | null {
@@ -155,3 +156,19 @@ export function joinFilters(filters: string[], ops: TableFilter[] = []): string
   if (filters.length === 0) return ''
   return filters.reduce((a, b, idx) => `${a} ${ops[idx]?.op || 'AND'} ${b}`)
 }
+
+const shortHumanizer = humanizeDuration.humanizer({
+  language: 'shortEn',
+  languages: {
+    shortEn: { y: () => 'y', mo: () => 'mo', w: () => 'w', d: () => 'd', h: () => 'h', m: () => 'm', s: () => 's', ms: () => 'ms' },
+  },
+  largest: 2,
+  round: true,
+  spacer: '',
+})
+
+/** eg `3m12s`, for session and query durations given in seconds */
+export function shortDuration(seconds: number | null | undefined): string | null {
+  if (seconds === null || seconds === undefined) return null
+  return shortHumanizer(seconds * 1000)
+}
@@ -2,5 +2,13 @@ import ExportFormCSV from './ExportFormCSV.vue'
 import ExportFormJSON from './ExportFormJSON.vue'
 import ExportFormSQL from './ExportFormSQL.vue'
 import ExportFormJsonLine from './ExportFormJSONLine.vue'
+import ExportFormDump from './ExportFormDump.vue'
+import ExportFormXLSX from './ExportFormXLSX.vue'
+import ExportFormMarkdown from './ExportFormMarkdown.vue'
+import ExportFormHTML from './ExportFormHTML.vue'
+import ExportFormXML from './ExportFormXML.vue'
 
-export { ExportFormCSV, ExportFormJSON, ExportFormSQL, ExportFormJsonLine }
\ No newline at end of file
+export {
+  ExportFormCSV, ExportFormJSON, ExportFormSQL, ExportFormJsonLine, ExportFormDump,
+  ExportFormXLSX, ExportFormMarkdown, ExportFormHTML, ExportFormXML
+}
@@ -0,0 +1,24 @@
+import { CsvImporter, Import, JsonImporter, JsonLineImporter, XlsxImporter } from '../../lib/import'
+import { ImportFormCSV } from './forms'
+
+export type ImporterKey = 'csv' | 'json' | 'jsonl' | 'xlsx'
+
+interface ImportFormat {
+  name: string
+  key: ImporterKey
+  klass: { new (...args: any[]): Import, extensions: string[] }
+  // the (optional) form for format specific input options
+  component: any
+}
+
+export const importFormats: ImportFormat[] = [
+  { name: "CSV", key: 'csv', klass: CsvImporter, component: ImportFormCSV },
+  { name: "JSON", key: 'json', klass: JsonImporter, component: null },
+  { name: "JSON Lines", key: 'jsonl', klass: JsonLineImporter, component: null },
+  { name: "Excel", key: 'xlsx', klass: XlsxImporter, component: null },
+]
+
+export function formatForFile(filePath: string): ImportFormat {
+  const extension = filePath.split('.').pop().toLowerCase()
+  return importFormats.find((f) => f.klass.extensions.includes(extension)) || importFormats[0]
+}
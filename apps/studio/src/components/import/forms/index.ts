@@ -0,0 +1,3 @@
+import ImportFormCSV from './ImportFormCSV.vue'
+
+export { ImportFormCSV }
@@ -1,7 +1,7 @@
 import { execSync } from 'child_process'
 import platformInfo from './common/platform_info'
 import { loadEncryptionKey } from './common/encryption_key'
-import { ConnectionTypes, keymapTypes } from './common/appdb/models/saved_connection'
+import { ConnectionTypes, DangerousQueryPolicies, keymapTypes } from './common/appdb/models/saved_connection'
 
 const userDirectory = platformInfo.userDirectory
 
@@ -29,7 +29,12 @@ export default {
 
   defaults: {
     connectionTypes: ConnectionTypes,
-    keymapTypes: keymapTypes
+    keymapTypes: keymapTypes,
+    dangerousQueryPolicies: DangerousQueryPolicies,
+    // where a streamed query result stops until you ask for more
+    maxResultsOptions: [1000, 10000, 50000, 100000]
   },
-  maxResults: 50000
+  maxResults: 50000,
+  // rows read at a time when streaming a query result
+  resultPageSize: 500
 }
@@ -0,0 +1,297 @@
+import _ from 'lodash'
+import { FieldDescriptor } from '@/lib/db/models'
+
+export type ChartType = 'line' | 'bar' | 'scatter' | 'pie'
+
+// saved with the query, so columns are by name to survive running it again
+export interface ChartSettings {
+  type: ChartType
+  x: string | null
+  y: string[]
+}
+
+export const ChartTypes: { name: string, value: ChartType }[] = [
+  { name: 'Line', value: 'line' },
+  { name: 'Bar', value: 'bar' },
+  { name: 'Scatter', value: 'scatter' },
+  { name: 'Pie', value: 'pie' },
+]
+
+export interface ChartTick {
+  position: number
+  label: string
+}
+
+export interface ChartPoint {
+  x: number
+  y: number
+  label: string
+}
+
+export interface ChartBar {
+  x: number
+  y: number
+  width: number
+  height: number
+  label: string
+}
+
+export interface ChartSeries {
+  name: string
+  color: string
+  // an svg path through the points, only for line charts
+  path: string | null
+  points: ChartPoint[]
+  bars: ChartBar[]
+}
+
+export interface ChartSlice {
+  // an svg path for the wedge
+  path: string
+  color: string
+  label: string
+  labelX: number
+  labelY: number
+}
+
+export interface ChartLayout {
+  width: number
+  height: number
+  // the area inside the axes
+  plot: { left: number, top: number, right: number, bottom: number }
+  xTicks: ChartTick[]
+  yTicks: ChartTick[]
+  series: ChartSeries[]
+  slices: ChartSlice[]
+}
+
+export const ChartSizes = {
+  width: 800,
+  height: 400,
+  top: 20,
+  right: 20,
+  bottom: 50,
+  left: 80,
+  // more than this and category labels overlap
+  maxCategoryLabels: 20,
+  pieLabelRadius: 0.7,
+}
+
+export const ChartColors = [
+  '#2c7be5', '#e5702c', '#27a567', '#d63939', '#8a55d6', '#c48a00', '#1fa5b5', '#d6559e',
+]
+
+// rows to look at when guessing which columns hold numbers
+const SampleSize = 100
+
+export function toNumber(value: any): number | null {
+  if (_.isNil(value) || value === '' || _.isBoolean(value)) return null
+  if (value instanceof Date) return value.getTime()
+  const result = Number(value)
+  return Number.isFinite(result) ? result : null
+}
+
+export function toTime(value: any): number | null {
+  if (value instanceof Date) return value.getTime()
+  if (!_.isString(value) || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null
+  const result = Date.parse(value)
+  return Number.isNaN(result) ? null : result
+}
+
+function sample(rows: any[], field: FieldDescriptor): any[] {
+  return _.take(rows, SampleSize).map((row) => row[field.id]).filter((v) => !_.isNil(v))
+}
+
+/** Names of the columns where every value (in the first rows) is a number */
+export function numericColumns(fields: FieldDescriptor[], rows: any[]): string[] {
+  return fields.filter((field) => {
+    const values = sample(rows, field)
+    return values.length > 0 && values.every((v) => !(v instanceof Date) && toNumber(v) !== null)
+  }).map((field) => field.name)
+}
+
+/** A label column for x and the first number column for y, if there are any */
+export function defaultChartSettings(fields: FieldDescriptor[], rows: any[]): ChartSettings {
+  const numeric = numericColumns(fields, rows)
+  const x = fields.find((f) => !numeric.includes(f.name)) || fields[0]
+  const y = numeric.find((name) => name !== x?.name)
+  return { type: 'bar', x: x?.name || null, y: y ? [y] : [] }
+}
+
+/** Round numbers covering min to max, about count of them */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    min -= 1
+    max += 1
+  }
+  const rough = (max - min) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough)
+  const result = []
+  for (let tick = Math.floor(min / step) * step; tick <= max + step / 2; tick += step) {
+    // avoid 0.30000000000000004
+    result.push(Number(tick.toPrecision(12)))
+  }
+  if (_.last(result) < max) result.push(_.last(result) + step)
+  return result
+}
+
+export function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function formatTime(value: number, span: number): string {
+  const iso = new Date(value).toISOString()
+  // show the time only when the whole chart covers less than a couple of days
+  return span < 2 * 24 * 60 * 60 * 1000 ? iso.slice(0, 16).replace('T', ' ') : iso.slice(0, 10)
+}
+
+function scale(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) {
+  const ratio = domainMax === domainMin ? 0 : (rangeMax - rangeMin) / (domainMax - domainMin)
+  return (value: number) => rangeMin + (value - domainMin) * ratio
+}
+
+function emptyLayout(sizes: typeof ChartSizes): ChartLayout {
+  return {
+    width: sizes.width,
+    height: sizes.height,
+    plot: {
+      left: sizes.left,
+      top: sizes.top,
+      right: sizes.width - sizes.right,
+      bottom: sizes.height - sizes.bottom,
+    },
+    xTicks: [],
+    yTicks: [],
+    series: [],
+    slices: [],
+  }
+}
+
+function layoutPie(layout: ChartLayout, labels: any[], values: number[], sizes: typeof ChartSizes): ChartLayout {
+  const { plot } = layout
+  const cx = (plot.left + plot.right) / 2
+  const cy = (plot.top + plot.bottom) / 2
+  const radius = Math.min(plot.right - plot.left, plot.bottom - plot.top) / 2
+  const total = _.sum(values)
+  const point = (angle: number, r: number) => [cx + r * Math.sin(angle), cy - r * Math.cos(angle)]
+
+  let angle = 0
+  layout.slices = values.map((value, idx) => {
+    const sweep = (value / total) * Math.PI * 2
+    const [x1, y1] = point(angle, radius)
+    const [mx, my] = point(angle + sweep / 2, radius)
+    const [x2, y2] = point(angle + sweep, radius)
+    const [labelX, labelY] = point(angle + sweep / 2, radius * sizes.pieLabelRadius)
+    angle += sweep
+    // an arc can't start and end at the same point, so go via the middle
+    const path = `M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 0 1 ${mx} ${my} A ${radius} ${radius} 0 0 1 ${x2} ${y2} Z`
+    return {
+      path,
+      color: ChartColors[idx % ChartColors.length],
+      label: `${labels[idx]}: ${formatNumber(value)}`,
+      labelX,
+      labelY,
+    }
+  })
+  return layout
+}
+
+/**
+ * Work out where everything goes. Bars get one slot per row, lines and
+ * scatters use a number or time axis when every x value is one.
+ */
+export function layoutChart(settings: ChartSettings, fields: FieldDescriptor[], rows: any[], sizes = ChartSizes): ChartLayout {
+  const layout = emptyLayout(sizes)
+  const xField = fields.find((f) => f.name === settings.x)
+  const yFields = settings.y.map((name) => fields.find((f) => f.name === name)).filter((f) => f)
+  if (!xField || !yFields.length || !rows.length) return layout
+
+  const xRaw = rows.map((row) => row[xField.id])
+
+  if (settings.type === 'pie') {
+    const values = rows.map((row) => toNumber(row[yFields[0].id]))
+    const keep = values.map((v) => v !== null && v > 0)
+    return layoutPie(layout, xRaw.filter((_v, i) => keep[i]), values.filter((_v, i) => keep[i]), sizes)
+  }
+
+  const { plot } = layout
+  const numbers = xRaw.map(toNumber)
+  const times = xRaw.map(toTime)
+  const present = (values: number[]) => xRaw.every((v, i) => _.isNil(v) || values[i] !== null)
+  const xMode = settings.type === 'bar' ? 'category' :
+    present(times) && times.some((t) => t !== null) ? 'time' :
+    present(numbers) && numbers.some((n) => n !== null) ? 'number' : 'category'
+
+  const yValues = yFields.map((field) => rows.map((row) => toNumber(row[field.id])))
+  const allY = _.flatten(yValues).filter((v) => v !== null)
+  // bars grow from zero, so it has to be on the axis
+  const yTicks = niceTicks(
+    settings.type === 'bar' ? Math.min(0, _.min(allY) ?? 0) : _.min(allY) ?? 0,
+    settings.type === 'bar' ? Math.max(0, _.max(allY) ?? 0) : _.max(allY) ?? 0,
+  )
+  const scaleY = scale(_.first(yTicks), _.last(yTicks), plot.bottom, plot.top)
+  layout.yTicks = yTicks.map((tick) => ({ position: scaleY(tick), label: formatNumber(tick) }))
+
+  let positionX: (idx: number) => number | null
+  let band = 0
+  if (xMode === 'category') {
+    band = (plot.right - plot.left) / rows.length
+    positionX = (idx) => plot.left + band * (idx + 0.5)
+    const every = Math.ceil(rows.length / sizes.maxCategoryLabels)
+    layout.xTicks = xRaw
+      .map((value, idx) => ({ position: positionX(idx), label: _.isNil(value) ? '' : String(value) }))
+      .filter((_tick, idx) => idx % every === 0)
+  } else {
+    const xs = (xMode === 'time' ? times : numbers)
+    const known = xs.filter((v) => v !== null)
+    const ticks = xMode === 'time' ? [_.min(known), _.max(known)] : niceTicks(_.min(known), _.max(known))
+    const scaleX = scale(_.first(ticks), _.last(ticks), plot.left, plot.right)
+    positionX = (idx) => xs[idx] === null ? null : scaleX(xs[idx])
+    const span = _.last(ticks) - _.first(ticks)
+    const tickValues = xMode === 'time' ? _.range(0, 5).map((i) => ticks[0] + (span * i) / 4) : ticks
+    layout.xTicks = tickValues.map((tick) => ({
+      position: scaleX(tick),
+      label: xMode === 'time' ? formatTime(tick, span) : formatNumber(tick),
+    }))
+  }
+
+  const barWidth = (band * 0.8) / yFields.length
+  layout.series = yFields.map((field, seriesIdx) => {
+    const points = rows.map((_row, idx) => {
+      const x = positionX(idx)
+      const y = yValues[seriesIdx][idx]
+      if (x === null || y === null) return null
+      return { x, y: scaleY(y), label: `${_.isNil(xRaw[idx]) ? '' : xRaw[idx]}, ${formatNumber(y)}` }
+    }).filter((p) => p)
+
+    const series: ChartSeries = {
+      name: field.name,
+      color: ChartColors[seriesIdx % ChartColors.length],
+      path: null,
+      points: settings.type === 'bar' ? [] : points,
+      bars: [],
+    }
+    if (settings.type === 'line') {
+      const sorted = xMode === 'category' ? points : _.sortBy(points, 'x')
+      series.path = sorted.map((p, idx) => `${idx ? 'L' : 'M'} ${p.x} ${p.y}`).join(' ')
+    }
+    if (settings.type === 'bar') {
+      const zero = scaleY(0)
+      series.bars = rows.map((_row, idx) => {
+        const value = yValues[seriesIdx][idx]
+        if (value === null) return null
+        const y = scaleY(value)
+        return {
+          x: plot.left + band * idx + band * 0.1 + barWidth * seriesIdx,
+          y: Math.min(y, zero),
+          width: barWidth,
+          height: Math.abs(zero - y),
+          label: `${_.isNil(xRaw[idx]) ? '' : xRaw[idx]}, ${formatNumber(value)}`,
+        }
+      }).filter((b) => b)
+    }
+    return series
+  })
+  return layout
+}
@@ -0,0 +1,289 @@
+import _ from 'lodash'
+import rawlog from 'electron-log'
+import { DBConnection } from '../db/client'
+import { BeeCursor, PKSelector, TableChanges, TableOrView } from '../db/models'
+import {
+  ColumnChange, DataCompareOptions, DataCompareProgress, DataCompareProgressCallback,
+  DataCompareStatus, DataDiff
+} from './models'
+
+const log = rawlog.scope('compare/data')
+
+// the same value can come back as a number from one driver and a string from another
+function normalizeValue(value: any): string | null {
+  if (_.isNil(value)) return null
+  if (Buffer.isBuffer(value)) return `0x${value.toString('hex')}`
+  if (_.isDate(value)) return value.toISOString()
+  if (_.isBoolean(value)) return value ? '1' : '0'
+  if (_.isObject(value)) return JSON.stringify(value)
+  return String(value)
+}
+
+export function valuesEqual(a: any, b: any): boolean {
+  const left = normalizeValue(a)
+  const right = normalizeValue(b)
+  if (left === right) return true
+  if (left === null || right === null) return false
+  const numbers = [Number(left), Number(right)]
+  return left.trim() !== '' && right.trim() !== '' && numbers.every((n) => isFinite(n)) && numbers[0] === numbers[1]
+}
+
+interface Side {
+  connection: DBConnection
+  table: TableOrView
+  cursor?: BeeCursor
+  columns: string[]
+  total: number
+  count: number
+  done: boolean
+  // rows read from this side that the other side hasn't produced yet, by key
+  pending: Map<string, Record<string, any>>
+}
+
+/**
+ * Compares the rows of two tables, possibly on different connections.
+ *
+ * Both tables are streamed ordered by primary key and matched up as they arrive,
+ * so only rows that haven't been matched yet are held in memory. Rows don't need to
+ * come back in exactly the same order from both sides (eg different collations), that
+ * just means more of them are held until their match turns up.
+ */
+export class DataCompare {
+  // don't make stuff public you don't want observed in vue
+  error: Error | null = null
+  result: DataDiff | null = null
+
+  private _status: DataCompareStatus = DataCompareStatus.Idle
+  private source: Side
+  private target: Side
+  private primaryKeys: string[] = []
+  private callbacks = {
+    progress: Array<DataCompareProgressCallback>()
+  }
+
+  constructor(
+    sourceConnection: DBConnection,
+    sourceTable: TableOrView,
+    targetConnection: DBConnection,
+    targetTable: TableOrView,
+    public options: DataCompareOptions
+  ) {
+    const side = (connection: DBConnection, table: TableOrView): Side => ({
+      connection, table, columns: [], total: 0, count: 0, done: false, pending: new Map()
+    })
+    this.source = side(sourceConnection, sourceTable)
+    this.target = side(targetConnection, targetTable)
+  }
+
+  set status(status: DataCompareStatus) {
+    this._status = status
+    this.notify()
+  }
+
+  get status() {
+    return this._status
+  }
+
+  get countDifferences(): number {
+    if (!this.result) return 0
+    return this.result.inserted.length + this.result.deleted.length + this.result.changed.length
+  }
+
+  get percentComplete(): number {
+    if ([DataCompareStatus.Completed, DataCompareStatus.Aborted, DataCompareStatus.Error].includes(this.status)) {
+      return 100
+    }
+    const total = this.source.total + this.target.total
+    if (!total) return 0
+    return Math.min(100, Math.round(((this.source.count + this.target.count) / total) * 100))
+  }
+
+  notify() {
+    const payload: DataCompareProgress = {
+      status: this.status,
+      countSource: this.source.count,
+      countTarget: this.target.count,
+      countDifferences: this.countDifferences,
+      percentComplete: this.percentComplete,
+    }
+    this.callbacks.progress.forEach(c => c(payload))
+  }
+
+  private rowKey(row: Record<string, any>): string {
+    return JSON.stringify(this.primaryKeys.map((pk) => normalizeValue(row[pk])))
+  }
+
+  private primaryKeySelectors(row: Record<string, any>): PKSelector[] {
+    return this.primaryKeys.map((column) => ({ column, value: row[column] }))
+  }
+
+  private async loadPrimaryKeys(): Promise<string[]> {
+    const { connection, table } = this.source
+    const keys = await connection.getPrimaryKeys(table.name, table.schema)
+    if (!keys.length) {
+      throw new Error(`${table.name} needs a primary key to compare its rows`)
+    }
+    return _.sortBy(keys, 'position').map((k) => k.columnName)
+  }
+
+  private async open(side: Side): Promise<void> {
+    const orderBy = this.primaryKeys.map((field) => ({ field, dir: 'ASC' as const }))
+    const results = await side.connection.selectTopStream(
+      side.table.name, orderBy, [], this.options.chunkSize, side.table.schema
+    )
+    side.cursor = results.cursor
+    side.columns = results.columns.map((c) => c.columnName)
+    side.total = results.totalRows
+    await side.cursor.start()
+  }
+
+  private async read(side: Side): Promise<Record<string, any>[]> {
+    if (side.done) return []
+    const rows = await side.cursor.read()
+    if (!rows.length) {
+      side.done = true
+      return []
+    }
+    side.count += rows.length
+    return rows.map((row) => _.zipObject(side.columns, row))
+  }
+
+  private compareRows(source: Record<string, any>, target: Record<string, any>): ColumnChange[] {
+    return this.result.columns
+      .filter((column) => !valuesEqual(source[column], target[column]))
+      .map((column) => ({ column, source: source[column], target: target[column] }))
+  }
+
+  // match each row against what the other side has produced so far
+  private match(rows: Record<string, any>[], side: Side, other: Side): void {
+    rows.forEach((row) => {
+      const key = this.rowKey(row)
+      const match = other.pending.get(key)
+      if (!match) {
+        side.pending.set(key, row)
+        return
+      }
+      other.pending.delete(key)
+      const [sourceRow, targetRow] = side === this.source ? [row, match] : [match, row]
+      const changes = this.compareRows(sourceRow, targetRow)
+      if (changes.length) {
+        this.result.changed.push({ primaryKeys: this.primaryKeySelectors(targetRow), changes })
+      } else {
+        this.result.countSame += 1
+      }
+    })
+  }
+
+  private get limitReached(): boolean {
+    const max = this.options.maxDifferences
+    if (!max) return false
+    // unmatched rows will probably end up as inserts or deletes too
+    return this.countDifferences + this.source.pending.size + this.target.pending.size > max
+  }
+
+  async compare(): Promise<DataDiff | null> {
+    try {
+      this.status = DataCompareStatus.Comparing
+      this.primaryKeys = await this.loadPrimaryKeys()
+      await Promise.all([this.open(this.source), this.open(this.target)])
+
+      const missing = this.primaryKeys.filter((pk) => !this.target.columns.includes(pk))
+      if (missing.length) {
+        throw new Error(`${this.target.table.name} is missing the primary key column(s) ${missing.join(', ')}`)
+      }
+
+      this.result = {
+        primaryKeys: this.primaryKeys,
+        columns: this.source.columns.filter((c) => this.target.columns.includes(c)),
+        sourceOnlyColumns: _.difference(this.source.columns, this.target.columns),
+        targetOnlyColumns: _.difference(this.target.columns, this.source.columns),
+        inserted: [],
+        deleted: [],
+        changed: [],
+        countSource: 0,
+        countTarget: 0,
+        countSame: 0,
+        truncated: false,
+      }
+
+      while (!(this.source.done && this.target.done)) {
+        if (this.status !== DataCompareStatus.Comparing) break
+        if (this.limitReached) {
+          this.result.truncated = true
+          break
+        }
+        const [sourceRows, targetRows] = await Promise.all([this.read(this.source), this.read(this.target)])
+        this.match(sourceRows, this.source, this.target)
+        this.match(targetRows, this.target, this.source)
+        this.notify()
+      }
+
+      this.result.inserted = [...this.source.pending.values()]
+      this.result.deleted = [...this.target.pending.values()]
+      this.result.countSource = this.source.count
+      this.result.countTarget = this.target.count
+      if (this.status === DataCompareStatus.Comparing) {
+        this.status = DataCompareStatus.Completed
+      }
+    } catch (error) {
+      log.error(error)
+      this.error = error
+      this.status = DataCompareStatus.Error
+    } finally {
+      await Promise.all([this.source, this.target].map((side) => {
+        return side.cursor?.close().catch((e) => log.warn("unable to close cursor", e))
+      }))
+    }
+    return this.result
+  }
+
+  /**
+   * The changes that make the target table match the source, built
+   * by the target connection's applyChangesSql.
+   */
+  syncChanges(): TableChanges {
+    if (!this.result) return { inserts: [], updates: [], deletes: [] }
+    const { name: table, schema } = this.target.table
+    const inserts = this.result.inserted.length ? [{
+      table,
+      schema,
+      data: this.result.inserted.map((row) => _.pick(row, this.result.columns))
+    }] : []
+    const updates = _.flatMap(this.result.changed, (row) => row.changes.map((change) => ({
+      table,
+      schema,
+      column: change.column,
+      primaryKeys: row.primaryKeys,
+      value: change.source,
+    })))
+    const deletes = this.result.deleted.map((row) => ({
+      table,
+      schema,
+      primaryKeys: this.primaryKeySelectors(row),
+    }))
+    return { inserts, updates, deletes }
+  }
+
+  syncSql(): string {
+    if (this.status !== DataCompareStatus.Completed || this.result?.truncated) {
+      // unmatched rows of a partial compare might still exist further down the other table
+      throw new Error("The comparison has to run to the end before it can be synced")
+    }
+    const changes = this.syncChanges()
+    if (!changes.inserts.length && !changes.updates.length && !changes.deletes.length) return ''
+    return this.target.connection.applyChangesSql(changes)
+  }
+
+  onProgress(func: DataCompareProgressCallback): void {
+    this.callbacks.progress.push(func)
+  }
+
+  offProgress(func: DataCompareProgressCallback): void {
+    this.callbacks.progress = this.callbacks.progress.filter(f => f !== func)
+  }
+
+  abort(): void {
+    if (this.status !== DataCompareStatus.Comparing) return
+    this.status = DataCompareStatus.Aborted
+  }
+}
@@ -0,0 +1,95 @@
+import { SchemaItemChange, TableKey } from '@shared/lib/dialects/models'
+import { ExtendedTableColumn, PKSelector, TableIndex, TableTrigger } from '../db/models'
+
+// relative to the target, 'added' exists only in the source and will be created
+export type DiffKind = 'added' | 'removed' | 'changed'
+
+export interface TableDefinition {
+  name: string
+  schema?: string
+  columns: ExtendedTableColumn[]
+  indexes: TableIndex[]
+  relations: TableKey[]
+  triggers: TableTrigger[]
+}
+
+export interface ItemDiff<T> {
+  kind: DiffKind
+  name: string
+  source?: T
+  target?: T
+}
+
+export interface ColumnDiff extends ItemDiff<ExtendedTableColumn> {
+  // what has to change on the target column to match the source
+  changes: SchemaItemChange[]
+}
+
+export interface TableDiff {
+  kind: DiffKind
+  name: string
+  source?: TableDefinition
+  target?: TableDefinition
+  columns: ColumnDiff[]
+  indexes: ItemDiff<TableIndex>[]
+  // one entry per constraint, with a key for each of its columns
+  relations: ItemDiff<TableKey[]>[]
+  triggers: ItemDiff<TableTrigger>[]
+}
+
+export interface SchemaDiff {
+  sourceSchema?: string
+  targetSchema?: string
+  tables: TableDiff[]
+}
+
+export enum DataCompareStatus {
+  Idle = 'idle',
+  Comparing = 'comparing',
+  Aborted = 'aborted',
+  Completed = 'completed',
+  Error = 'error'
+}
+
+export interface DataCompareOptions {
+  chunkSize: number
+  // stop once this many differing rows are found, 0 for no limit
+  maxDifferences: number
+}
+
+export interface ColumnChange {
+  column: string
+  source: any
+  target: any
+}
+
+export interface RowChange {
+  primaryKeys: PKSelector[]
+  changes: ColumnChange[]
+}
+
+export interface DataDiff {
+  primaryKeys: string[]
+  // columns on both sides, the only ones we compare
+  columns: string[]
+  sourceOnlyColumns: string[]
+  targetOnlyColumns: string[]
+  // relative to the target, like SchemaDiff. inserted rows are missing from the target
+  inserted: Record<string, any>[]
+  deleted: Record<string, any>[]
+  changed: RowChange[]
+  countSource: number
+  countTarget: number
+  countSame: number
+  // true when maxDifferences was hit before the end of either table
+  truncated: boolean
+}
+
+export interface DataCompareProgress {
+  status: DataCompareStatus
+  countSource: number
+  countTarget: number
+  countDifferences: number
+  percentComplete: number
+}
+export type DataCompareProgressCallback = (p: DataCompareProgress) => void
@@ -0,0 +1,296 @@
+import _ from 'lodash'
+import rawlog from 'electron-log'
+import { getDialectData } from '@shared/lib/dialects'
+import { CreateIndexSpec, dialectFor, SchemaItem, SchemaItemChange, TableKey } from '@shared/lib/dialects/models'
+import { SqlGenerator } from '@shared/lib/sql/SqlGenerator'
+import { DBConnection } from '../db/client'
+import { groupRelations, relationName, relationSpec, triggerCreateScripts } from '../db/sql_tools'
+import { ExtendedTableColumn, TableIndex, TableTrigger } from '../db/models'
+import { ColumnDiff, ItemDiff, SchemaDiff, TableDefinition, TableDiff } from './models'
+
+const log = rawlog.scope('compare/schema')
+
+/**
+ * Reads everything we compare about the tables in one schema (or the whole
+ * database for clients without schemas). Views are left out.
+ */
+export async function loadDefinitions(connection: DBConnection, schema?: string): Promise<TableDefinition[]> {
+  const tables = (await connection.listTables({ schema }))
+    .filter((t) => t.entityType === 'table')
+  const result: TableDefinition[] = []
+  // one table at a time, comparing a big schema shouldn't swamp the server
+  for (const table of tables) {
+    log.debug("loading", table.schema, table.name)
+    const [columns, indexes, relations, triggers, primaryKeys] = await Promise.all([
+      connection.listTableColumns(table.name, table.schema),
+      connection.listTableIndexes(table.name, table.schema),
+      connection.getTableKeys(table.name, table.schema),
+      connection.listTableTriggers(table.name, table.schema),
+      connection.getPrimaryKeys(table.name, table.schema),
+    ])
+    const pks = primaryKeys.map((pk) => pk.columnName)
+    result.push({
+      name: table.name,
+      schema: table.schema,
+      columns: columns.map((c) => ({ ...c, primaryKey: c.primaryKey || pks.includes(c.columnName) })),
+      indexes,
+      relations,
+      triggers,
+    })
+  }
+  return result
+}
+
+function normalizeType(dataType?: string): string {
+  return (dataType || '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function normalizeValue(value: any): string | null {
+  return _.isNil(value) || value === '' ? null : String(value)
+}
+
+function columnChanges(source: ExtendedTableColumn, target: ExtendedTableColumn): SchemaItemChange[] {
+  const columnName = target.columnName
+  const changes: SchemaItemChange[] = []
+  if (normalizeType(source.dataType) !== normalizeType(target.dataType)) {
+    changes.push({ columnName, changeType: 'dataType', newValue: source.dataType })
+  }
+  if (!!source.nullable !== !!target.nullable) {
+    changes.push({ columnName, changeType: 'nullable', newValue: !!source.nullable })
+  }
+  if (normalizeValue(source.defaultValue) !== normalizeValue(target.defaultValue)) {
+    changes.push({ columnName, changeType: 'defaultValue', newValue: normalizeValue(source.defaultValue) })
+  }
+  if (normalizeValue(source.comment) !== normalizeValue(target.comment)) {
+    changes.push({ columnName, changeType: 'comment', newValue: source.comment || '' })
+  }
+  return changes
+}
+
+// pairs up items by name, 'changed' only when isEqual says they differ
+function diffItems<T>(source: T[], target: T[], name: (item: T) => string, isEqual: (a: T, b: T) => boolean): ItemDiff<T>[] {
+  const targets = new Map(target.map((t) => [name(t), t]))
+  const sources = new Map(source.map((s) => [name(s), s]))
+  const result: ItemDiff<T>[] = []
+  sources.forEach((s, key) => {
+    const t = targets.get(key)
+    if (!t) {
+      result.push({ kind: 'added', name: key, source: s })
+    } else if (!isEqual(s, t)) {
+      result.push({ kind: 'changed', name: key, source: s, target: t })
+    }
+  })
+  targets.forEach((t, key) => {
+    if (!sources.has(key)) result.push({ kind: 'removed', name: key, target: t })
+  })
+  return result
+}
+
+function diffColumns(source: ExtendedTableColumn[], target: ExtendedTableColumn[]): ColumnDiff[] {
+  return diffItems(source, target, (c) => c.columnName, (a, b) => !columnChanges(a, b).length)
+    .map((d) => ({ ...d, changes: d.kind === 'changed' ? columnChanges(d.source, d.target) : [] }))
+}
+
+function indexSignature(index: TableIndex) {
+  return { unique: !!index.unique, columns: index.columns.map((c) => `${c.name} ${c.order || 'ASC'}`) }
+}
+
+function relationSignature(keys: TableKey[]) {
+  return keys.map((k) => _.pick(k, ['fromColumn', 'toTable', 'toColumn', 'onUpdate', 'onDelete']))
+}
+
+function triggerSignature(trigger: TableTrigger) {
+  // sqlite only gives us the definition
+  if (!trigger.timing) return { definition: (trigger.definition || '').replace(/\s+/g, ' ').trim() }
+  return _.pick(trigger, ['timing', 'manipulation', 'action', 'condition'])
+}
+
+function diffTable(source: TableDefinition, target: TableDefinition): TableDiff {
+  return {
+    kind: 'changed',
+    name: source.name,
+    source,
+    target,
+    columns: diffColumns(source.columns, target.columns),
+    indexes: diffItems(
+      source.indexes.filter((i) => !i.primary),
+      target.indexes.filter((i) => !i.primary),
+      (i) => i.name,
+      (a, b) => _.isEqual(indexSignature(a), indexSignature(b))
+    ),
+    relations: diffItems(
+      groupRelations(source.relations),
+      groupRelations(target.relations),
+      (keys) => relationName(keys[0]),
+      (a, b) => _.isEqual(relationSignature(a), relationSignature(b))
+    ),
+    triggers: diffItems(source.triggers, target.triggers, (t) => t.name, (a, b) => _.isEqual(triggerSignature(a), triggerSignature(b))),
+  }
+}
+
+function hasChanges(diff: TableDiff): boolean {
+  return !!(diff.columns.length || diff.indexes.length || diff.relations.length || diff.triggers.length)
+}
+
+/**
+ * Compares two sets of tables by name. The source is the shape we want,
+ * so 'added' tables and columns are the ones the target is missing.
+ * Tables that are the same on both sides are left out.
+ */
+export function diffSchemas(source: TableDefinition[], target: TableDefinition[]): TableDiff[] {
+  const empty = { columns: [], indexes: [], relations: [], triggers: [] }
+  return diffItems(source, target, (t) => t.name, () => false)
+    .map((d): TableDiff => {
+      if (d.kind === 'added') return { ...empty, kind: 'added', name: d.name, source: d.source }
+      if (d.kind === 'removed') return { ...empty, kind: 'removed', name: d.name, target: d.target }
+      return diffTable(d.source, d.target)
+    })
+    .filter((d) => d.kind !== 'changed' || hasChanges(d))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function compareSchemas(
+  source: DBConnection,
+  target: DBConnection,
+  sourceSchema?: string,
+  targetSchema?: string
+): Promise<SchemaDiff> {
+  const [sourceTables, targetTables] = await Promise.all([
+    loadDefinitions(source, sourceSchema),
+    loadDefinitions(target, targetSchema),
+  ])
+  return { sourceSchema, targetSchema, tables: diffSchemas(sourceTables, targetTables) }
+}
+
+function toIndexSpec(index: TableIndex): CreateIndexSpec {
+  return { name: index.name, unique: index.unique, columns: index.columns }
+}
+
+function toSchemaItem(column: ExtendedTableColumn): SchemaItem {
+  return _.pick(column, ['columnName', 'dataType', 'nullable', 'defaultValue', 'comment', 'primaryKey', 'unsigned']) as SchemaItem
+}
+
+function statement(sql: string | null): string | null {
+  if (!sql || !sql.trim()) return null
+  const trimmed = sql.trim()
+  return trimmed.endsWith(';') ? trimmed : `${trimmed};`
+}
+
+/**
+ * Builds the script that makes the target look like the source, using the
+ * target connection's own ALTER builders. Foreign keys are dropped first and
+ * added last so table order doesn't matter, and changed indexes are dropped
+ * before they're created again.
+ */
+export async function schemaDiffSql(diff: SchemaDiff, target: DBConnection): Promise<string> {
+  const dialect = dialectFor(target.connectionType)
+  if (!dialect) throw new Error(`Unable to build a script for ${target.connectionType}`)
+  const { wrapIdentifier } = getDialectData(dialect)
+  const schema = diff.targetSchema
+  const tableName = (name: string) => schema ? `${wrapIdentifier(schema)}.${wrapIdentifier(name)}` : wrapIdentifier(name)
+  const base = { schema }
+  const retarget = (definition: string) => retargetDefinition(definition, diff.sourceSchema, schema, wrapIdentifier)
+
+  const dropRelations: string[] = []
+  const dropIndexes: string[] = []
+  const dropTables: string[] = []
+  const creates: string[] = []
+  const alters: string[] = []
+  const indexes: string[] = []
+  const addRelations: string[] = []
+  const triggers: string[] = []
+
+  for (const table of diff.tables) {
+    const spec = { ...base, table: table.name }
+    if (table.kind === 'removed') {
+      dropTables.push(`DROP TABLE ${tableName(table.name)}`)
+      continue
+    }
+
+    if (table.kind === 'added') {
+      creates.push(new SqlGenerator(dialect).buildSql({ ...base, name: table.name, columns: table.source.columns.map(toSchemaItem) }))
+      const additions = table.source.indexes.filter((i) => !i.primary).map(toIndexSpec)
+      if (additions.length) indexes.push(target.alterIndexSql({ ...spec, additions, drops: [] }))
+      const relations = groupRelations(table.source.relations).map((keys) => relationSpec(keys, schema))
+      if (relations.length) addRelations.push(target.alterRelationSql({ ...spec, additions: relations, drops: [] }))
+      triggers.push(...triggerCreateScripts(table.source.triggers).map(retarget))
+      continue
+    }
+
+    const outdated = <T>(items: ItemDiff<T>[]) => items.filter((i) => i.kind !== 'added').map((i) => i.target)
+    const wanted = <T>(items: ItemDiff<T>[]) => items.filter((i) => i.kind !== 'removed').map((i) => i.source)
+
+    const relationDrops = outdated(table.relations).map((keys) => keys[0].constraintName).filter((n) => !!n)
+    if (relationDrops.length) dropRelations.push(target.alterRelationSql({ ...spec, additions: [], drops: relationDrops }))
+
+    const adds = table.columns.filter((c) => c.kind === 'added').map((c) => toSchemaItem(c.source))
+    const drops = table.columns.filter((c) => c.kind === 'removed').map((c) => c.name)
+    const alterations = _.flatMap(table.columns, (c) => c.changes)
+    if (adds.length || drops.length || alterations.length) {
+      alters.push(await target.alterTableSql({ ...spec, adds, drops, alterations }))
+    }
+
+    const indexDrops = outdated(table.indexes).map((i) => ({ name: i.name }))
+    if (indexDrops.length) dropIndexes.push(target.alterIndexSql({ ...spec, additions: [], drops: indexDrops }))
+    const indexAdditions = wanted(table.indexes).map(toIndexSpec)
+    if (indexAdditions.length) indexes.push(target.alterIndexSql({ ...spec, additions: indexAdditions, drops: [] }))
+
+    const relationAdditions = wanted(table.relations).map((keys) => relationSpec(keys, schema))
+    if (relationAdditions.length) addRelations.push(target.alterRelationSql({ ...spec, additions: relationAdditions, drops: [] }))
+
+    outdated(table.triggers).forEach((t) => {
+      // postgres trigger names are per table, everyone else's are per schema
+      triggers.push(dialect === 'postgresql'
+        ? `DROP TRIGGER ${wrapIdentifier(t.name)} ON ${tableName(table.name)}`
+        : `DROP TRIGGER ${tableName(t.name)}`)
+    })
+    triggers.push(...triggerCreateScripts(wanted(table.triggers)).map(retarget))
+  }
+
+  return [...dropRelations, ...dropIndexes, ...dropTables, ...creates, ...alters, ...indexes, ...addRelations, ...triggers]
+    .map(statement)
+    .filter((s) => !!s)
+    .join('\n')
+}
+
+/**
+ * Trigger definitions come from the source, so they name the source schema.
+ * Points every reference qualified with it at the target schema instead.
+ */
+function retargetDefinition(definition: string, sourceSchema: string | undefined, targetSchema: string | undefined, wrapIdentifier: (value: string) => string): string {
+  if (!sourceSchema || !targetSchema || sourceSchema === targetSchema) return definition
+  const name = _.escapeRegExp(sourceSchema)
+  const qualifier = new RegExp(`(^|[^\\w$."\\]\`])("${name}"|\\[${name}\\]|\`${name}\`|${name})(?=\\s*\\.)`, 'g')
+  return definition.replace(qualifier, (_match, before) => `${before}${wrapIdentifier(targetSchema)}`)
+}
+
+/**
+ * A plain text outline of a table, used to show both sides next to each other.
+ */
+export function describeTable(table?: TableDefinition): string {
+  if (!table) return ''
+  const lines = [`TABLE ${table.schema ? `${table.schema}.` : ''}${table.name}`]
+  table.columns.forEach((c) => {
+    const parts = [`  ${c.columnName} ${c.dataType}`]
+    if (c.primaryKey) parts.push('PRIMARY KEY')
+    if (!c.nullable) parts.push('NOT NULL')
+    if (!_.isNil(c.defaultValue) && c.defaultValue !== '') parts.push(`DEFAULT ${c.defaultValue}`)
+    if (c.comment) parts.push(`-- ${c.comment}`)
+    lines.push(parts.join(' '))
+  })
+  _.sortBy(table.indexes.filter((i) => !i.primary), 'name').forEach((i) => {
+    const columns = i.columns.map((c) => `${c.name} ${c.order || 'ASC'}`).join(', ')
+    lines.push(`${i.unique ? 'UNIQUE INDEX' : 'INDEX'} ${i.name} (${columns})`)
+  })
+  _.sortBy(groupRelations(table.relations), (keys) => relationName(keys[0])).forEach((keys) => {
+    const [r] = keys
+    const from = keys.map((k) => k.fromColumn).join(', ')
+    const to = keys.map((k) => k.toColumn).join(', ')
+    const actions = [r.onUpdate ? `ON UPDATE ${r.onUpdate}` : null, r.onDelete ? `ON DELETE ${r.onDelete}` : null].filter((a) => !!a)
+    lines.push(`FOREIGN KEY ${r.constraintName || ''} (${from}) REFERENCES ${r.toTable} (${to}) ${actions.join(' ')}`.trim())
+  })
+  _.sortBy(table.triggers, 'name').forEach((t) => {
+    lines.push(`TRIGGER ${t.name} ${t.timing} ${t.manipulation}`)
+  })
+  return lines.join('\n')
+}
@@ -14,6 +14,8 @@ export default {
       privateKey: config.sshKeyfile,
       passphrase: config.sshKeyfilePassword,
       bastionHost: config.sshBastionHost,
+      jumpHosts: config.sshJumpHosts || [],
+      configHost: config.sshConfigHost,
       useAgent: config.sshMode == 'agent',
       keepaliveInterval: config.sshKeepaliveInterval,
     } : null
@@ -38,6 +40,7 @@ export default {
       options: config.options,
       redshiftOptions: config.redshiftOptions,
       bigQueryOptions: config.bigQueryOptions,
+      readOnlyMode: !!config.readOnlyMode,
     }
   },
 
@@ -1,11 +1,17 @@
 // Copyright (c) 2015 The SQLECTRON Team, 2020 Beekeeper Studio team
+import _ from 'lodash';
 import connectTunnel from './tunnel';
 import clients from './clients';
 import createLogger from '../logger';
 import { SSHConnection } from '@/vendor/node-ssh-forward/index';
-import { SupportedFeatures, FilterOptions, TableOrView, Routine, TableColumn, SchemaFilterOptions, DatabaseFilterOptions, TableChanges, TableUpdateResult, OrderBy, TableFilter, TableResult, StreamResults, CancelableQuery, ExtendedTableColumn, PrimaryKeyColumn, TableProperties, TableIndex, TableTrigger, TableInsert, TablePartition } from './models';
-import { AlterPartitionsSpec, AlterTableSpec, IndexAlterations, RelationAlterations } from '@shared/lib/dialects/models';
+import { SupportedFeatures, FilterOptions, TableOrView, Routine, TableColumn, SchemaFilterOptions, DatabaseFilterOptions, TableChanges, TableUpdateResult, OrderBy, TableFilter, TableResult, StreamResults, CancelableQuery, ExtendedTableColumn, PrimaryKeyColumn, TableProperties, TableIndex, TableTrigger, TableInsert, TablePartition, ServerSession, BlockingSession, DatabaseRole, RoleGrant } from './models';
+import { AlterPartitionsSpec, AlterRoleSpec, AlterTableSpec, GrantSpec, IndexAlterations, RelationAlterations, RoleSpec, TableKey } from '@shared/lib/dialects/models';
 import type { RedshiftOptions, BigQueryOptions } from '@/common/appdb/models/saved_connection';
+import type { SshJumpHost } from '@/common/interfaces/IConnection';
+import type { QueryParams } from './params';
+import type { QueryPlan } from '../explain/models';
+import { isReadOnlyQuery } from './sql_tools';
+import { HealthCheckInterval, HealthCheckTimeout, MaxReconnectAttempts, healthCheckQuery, isConnectionLost, reconnectDelay, withTimeout } from './reconnect';
 
 const logger = createLogger('db');
 
@@ -24,6 +30,20 @@ export class ClientError extends Error {
   }
 }
 
+export class ReadOnlyError extends Error {
+  constructor(action: string) {
+    super(`Can't ${action}, this connection is read-only`)
+  }
+}
+
+// these can't start a read only session, so in read only mode their queries
+// are checked before they run, in the dialect of sql-query-identifier
+const readOnlyQueryDialects = {
+  sqlserver: 'mssql',
+  redshift: 'psql',
+  bigquery: 'generic',
+}
+
 export interface DatabaseClient {
   supportedFeatures: () => SupportedFeatures,
   versionString: () => string,
@@ -39,9 +59,33 @@ export interface DatabaseClient {
   listSchemas: (db: string, filter?: SchemaFilterOptions) => Promise<string[]>,
   listTablePartitions: (table: string, schema?: string) => Promise<TablePartition[]>
   getTableReferences: (table: string, schema?: string) => void,
-  getTableKeys: (db: string, table: string, schema?: string) => void,
-  query: (queryText: string) => CancelableQuery,
-  executeQuery: (queryText: string) => void,
+  getTableKeys: (db: string, table: string, schema?: string) => Promise<TableKey[]>,
+  query: (queryText: string, params?: QueryParams, tabId?: number) => CancelableQuery,
+  executeQuery: (queryText: string, params?: QueryParams) => void,
+  explainQuery?: (queryText: string, analyze?: boolean) => Promise<QueryPlan>,
+
+  // manual transactions, queries for the tab run on its own connection until it ends
+  startTransaction?: (tabId: number) => Promise<void>,
+  commitTransaction?: (tabId: number) => Promise<void>,
+  rollbackTransaction?: (tabId: number) => Promise<void>,
+
+  // activity monitor, see SupportedFeatures.activity
+  listSessions?: () => Promise<ServerSession[]>,
+  cancelSession?: (id: string | number) => Promise<void>,
+  terminateSession?: (id: string | number) => Promise<void>,
+  listBlockingSessions?: () => Promise<BlockingSession[]>,
+
+  // roles and grants, see SupportedFeatures.roles
+  listRoles?: () => Promise<DatabaseRole[]>,
+  listGrants?: (role: string, host?: string) => Promise<RoleGrant[]>,
+  createRoleSql?: (spec: RoleSpec) => string,
+  createRole?: (spec: RoleSpec) => Promise<void>,
+  alterRoleSql?: (spec: AlterRoleSpec) => string | null,
+  alterRole?: (spec: AlterRoleSpec) => Promise<void>,
+  grantSql?: (grants: GrantSpec[]) => string | null,
+  grant?: (grants: GrantSpec[]) => Promise<void>,
+  revokeSql?: (grants: GrantSpec[]) => string | null,
+  revoke?: (grants: GrantSpec[]) => Promise<void>,
 
   // create database
   listCharsets: () => Promise<string[]>,
@@ -83,7 +127,7 @@ export interface DatabaseClient {
   selectTopSql(table: string, offset: number, limit: number, orderBy: OrderBy[], filters: TableFilter[] | string, schema?: string, selects?: string[]): Promise<string>,
 
   // for export
-  queryStream(db: string, query: string, chunkSize: number ): Promise<StreamResults>,
+  queryStream(db: string, query: string, chunkSize: number, params?: QueryParams): Promise<StreamResults>,
 
   wrapIdentifier: (value: string) => string
   setTableDescription: (table: string, description: string, schema?: string) => Promise<string>
@@ -107,6 +151,8 @@ export interface IDbConnectionServerSSHConfig {
   privateKey: Nullable<string>
   passphrase: Nullable<string>
   bastionHost: Nullable<string>
+  jumpHosts: SshJumpHost[]
+  configHost: Nullable<string>
   keepaliveInterval: number
   useAgent: boolean
 }
@@ -133,6 +179,7 @@ export interface IDbConnectionServerConfig {
   options?: any
   redshiftOptions?: RedshiftOptions
   bigQueryOptions?: BigQueryOptions
+  readOnlyMode?: boolean
 }
 
 export interface IDbSshTunnel {
@@ -150,10 +197,20 @@ export interface IDbConnectionServer {
   config: IDbConnectionServerConfig,
 }
 
+export type ReconnectStatus = 'reconnecting' | 'reconnected' | 'failed'
+
 export interface IDbConnectionDatabase {
   database: string,
   connection: Nullable<DatabaseClient>,
   connecting: boolean,
+  // set while a lost connection is being opened again
+  reconnecting?: Nullable<Promise<void>>,
+  healthCheck?: Nullable<ReturnType<typeof setInterval>>,
+  reconnectListener?: Nullable<(status: ReconnectStatus) => void>,
+  closed?: boolean,
+  // tabs with a manual transaction open, and those whose transaction went with a lost connection
+  transactionTabs?: Set<number>,
+  lostTransactionTabs?: Set<number>,
 }
 
 export class DBConnection {
@@ -164,34 +221,58 @@ export class DBConnection {
   connect = connect.bind(null, this.server, this.database)
   disconnect = disconnect.bind(null, this.server, this.database)
   end = disconnect.bind(null, this.server, this.database)
-  listTables = listTables.bind(null, this.server, this.database)
-  listViews = listViews.bind(null, this.server, this.database)
-  listMaterializedViews = listMaterializedViews.bind(null, this.server, this.database)
-  listRoutines = listRoutines.bind(null, this.server, this.database)
-  listTableColumns = listTableColumns.bind(null, this.server, this.database)
-  listMaterializedViewColumns = listMaterializedViewColumns.bind(null, this.server, this.database)
-  listTableTriggers = listTableTriggers.bind(null, this.server, this.database)
-  listTableIndexes = listTableIndexes.bind(null, this.server, this.database)
-  listSchemas = listSchemas.bind(null, this.server, this.database)
-  listTablePartitions = bindAsync.bind(null, 'listTablePartitions', this.server, this.database)
-  getTableReferences = getTableReferences.bind(null, this.server, this.database)
-  getPrimaryKey = getPrimaryKey.bind(null, this.server, this.database)
-  getPrimaryKeys = getPrimaryKeys.bind(null, this.server, this.database)
-  getTableKeys = getTableKeys.bind(null, this.server, this.database)
-  getTableProperties = getTableProperties.bind(null, this.server, this.database)
+  reconnect = reconnect.bind(null, this.server, this.database)
+  onReconnect = onReconnect.bind(null, this.server, this.database)
+
+  // metadata only reads, so these are retried once after a reconnect
+  listTables = retryable(listTables, this.server, this.database)
+  listViews = retryable(listViews, this.server, this.database)
+  listMaterializedViews = retryable(listMaterializedViews, this.server, this.database)
+  listRoutines = retryable(listRoutines, this.server, this.database)
+  listTableColumns = retryable(listTableColumns, this.server, this.database)
+  listMaterializedViewColumns = retryable(listMaterializedViewColumns, this.server, this.database)
+  listTableTriggers = retryable(listTableTriggers, this.server, this.database)
+  listTableIndexes = retryable(listTableIndexes, this.server, this.database)
+  listSchemas = retryable(listSchemas, this.server, this.database)
+  listTablePartitions = retryableAsync('listTablePartitions', this.server, this.database)
+  getTableReferences = retryable(getTableReferences, this.server, this.database)
+  getPrimaryKey = retryable(getPrimaryKey, this.server, this.database)
+  getPrimaryKeys = retryable(getPrimaryKeys, this.server, this.database)
+  getTableKeys = retryable(getTableKeys, this.server, this.database)
+  getTableProperties = retryable(getTableProperties, this.server, this.database)
   query = query.bind(null, this.server, this.database)
   executeQuery = executeQuery.bind(null, this.server, this.database)
-  listDatabases = listDatabases.bind(null, this.server, this.database)
+  explainQuery = explainQuery.bind(null, this.server, this.database)
+  startTransaction = startTransaction.bind(null, this.server, this.database)
+  commitTransaction = endTransaction.bind(null, 'commitTransaction', this.server, this.database)
+  rollbackTransaction = endTransaction.bind(null, 'rollbackTransaction', this.server, this.database)
+  listSessions = retryableAsync('listSessions', this.server, this.database)
+  cancelSession = bindWrite.bind(null, 'cancelSession', this.server, this.database)
+  terminateSession = bindWrite.bind(null, 'terminateSession', this.server, this.database)
+  listBlockingSessions = retryableAsync('listBlockingSessions', this.server, this.database)
+
+  // roles
+  listRoles = retryableAsync('listRoles', this.server, this.database)
+  listGrants = retryableAsync('listGrants', this.server, this.database)
+  createRoleSql = bind.bind(null, 'createRoleSql', this.server, this.database)
+  createRole = bindWrite.bind(null, 'createRole', this.server, this.database)
+  alterRoleSql = bind.bind(null, 'alterRoleSql', this.server, this.database)
+  alterRole = bindWrite.bind(null, 'alterRole', this.server, this.database)
+  grantSql = bind.bind(null, 'grantSql', this.server, this.database)
+  grant = bindWrite.bind(null, 'grant', this.server, this.database)
+  revokeSql = bind.bind(null, 'revokeSql', this.server, this.database)
+  revoke = bindWrite.bind(null, 'revoke', this.server, this.database)
+  listDatabases = retryable(listDatabases, this.server, this.database)
 
 
   // db creation
   listCharsets = bindAsync.bind(null, 'listCharsets', this.server, this.database)
   getDefaultCharset = bindAsync.bind(null, 'getDefaultCharset', this.server, this.database)
   listCollations = bindAsync.bind(null, 'listCollations', this.server, this.database)
-  createDatabase = bindAsync.bind(null, 'createDatabase', this.server, this.database)
+  createDatabase = bindWrite.bind(null, 'createDatabase', this.server, this.database)
 
   // tabletable
-  getTableLength = bindAsync.bind(null, 'getTableLength', this.server, this.database)
+  getTableLength = retryableAsync('getTableLength', this.server, this.database)
   selectTop = selectTop.bind(null, this.server, this.database)
   selectTopStream = selectTopStream.bind(null, this.server, this.database)
   selectTopSql = selectTopSql.bind(null, this.server, this.database)
@@ -203,17 +284,17 @@ export class DBConnection {
 
   // alter table
   alterTableSql = bind.bind(null, 'alterTableSql', this.server, this.database)
-  alterTable = bindAsync.bind(null, 'alterTable', this.server, this.database)
+  alterTable = bindWrite.bind(null, 'alterTable', this.server, this.database)
 
   // indexes
   alterIndexSql = bind.bind(null, 'alterIndexSql', this.server, this.database)
-  alterIndex = bindAsync.bind(null, 'alterIndex', this.server, this.database)
+  alterIndex = bindWrite.bind(null, 'alterIndex', this.server, this.database)
 
   alterRelationSql = bind.bind(null, 'alterRelationSql', this.server, this.database)
-  alterRelation = bindAsync.bind(null, 'alterRelation', this.server, this.database)
+  alterRelation = bindWrite.bind(null, 'alterRelation', this.server, this.database)
 
   alterPartitionSql = bind.bind(null, 'alterPartitionSql', this.server, this.database)
-  alterPartition = bindAsync.bind(null, 'alterPartition', this.server, this.database)
+  alterPartition = bindWrite.bind(null, 'alterPartition', this.server, this.database)
 
   getInsertQuery = getInsertQuery.bind(null, this.server, this.database)
   getQuerySelectTop = getQuerySelectTop.bind(null, this.server, this.database)
@@ -229,11 +310,11 @@ export class DBConnection {
   setTableDescription = setTableDescription.bind(null, this.server, this.database)
 
   // delete stuff
-  dropElement = bindAsync.bind(null, 'dropElement', this.server, this.database)
-  truncateElement = bindAsync.bind(null, 'truncateElement', this.server, this.database)
+  dropElement = bindWrite.bind(null, 'dropElement', this.server, this.database)
+  truncateElement = bindWrite.bind(null, 'truncateElement', this.server, this.database)
 
   // duplicateTAble
-  duplicateTable = bindAsync.bind(null, 'duplicateTable', this.server, this.database)
+  duplicateTable = bindWrite.bind(null, 'duplicateTable', this.server, this.database)
   duplicateTableSql = bind.bind(null, 'duplicateTableSql', this.server, this.database)
 
   async currentDatabase() {
@@ -258,27 +339,8 @@ async function connect(server: IDbConnectionServer, database: IDbConnectionDatab
 
   try {
     database.connecting = true;
-
-    // terminate any previous lost connection for this DB
-    if (database.connection) {
-      database.connection.disconnect();
-    }
-
-    // reuse existing tunnel
-    if (server.config.ssh && !server.sshTunnel) {
-      logger().debug('creating ssh tunnel');
-      server.sshTunnel = await connectTunnel(server.config);
-
-      server.config.localHost = server.sshTunnel.localHost
-      server.config.localPort = server.sshTunnel.localPort
-    }
-
-    if (server.config.client) {
-      const driver = clients[server.config.client];
-
-      const connection = await driver(server, database)
-      database.connection = connection;
-    }
+    database.closed = false;
+    await openConnection(server, database)
   } catch (err) {
     logger().error('Connection error %j', err);
     disconnect(server, database);
@@ -286,11 +348,37 @@ async function connect(server: IDbConnectionServer, database: IDbConnectionDatab
   } finally {
     database.connecting = false;
   }
+  startHealthCheck(server, database)
+}
+
+async function openConnection(server: IDbConnectionServer, database: IDbConnectionDatabase) {
+  // terminate any previous lost connection for this DB
+  if (database.connection) {
+    database.connection.disconnect();
+  }
+
+  // reuse existing tunnel
+  if (server.config.ssh && !server.sshTunnel) {
+    logger().debug('creating ssh tunnel');
+    server.sshTunnel = await connectTunnel(server.config);
+
+    server.config.localHost = server.sshTunnel.localHost
+    server.config.localPort = server.sshTunnel.localPort
+  }
+
+  if (server.config.client) {
+    const driver = clients[server.config.client];
+
+    const connection = await driver(server, database)
+    database.connection = connection;
+  }
 }
 
 
 function disconnect(server: IDbConnectionServer, database: IDbConnectionDatabase): void {
   database.connecting = false;
+  database.closed = true;
+  stopHealthCheck(database)
 
   if (database.connection) {
     database.connection.disconnect();
@@ -306,6 +394,128 @@ function disconnect(server: IDbConnectionServer, database: IDbConnectionDatabase
   }
 }
 
+function onReconnect(_server: IDbConnectionServer, database: IDbConnectionDatabase, listener: (status: ReconnectStatus) => void) {
+  database.reconnectListener = listener
+}
+
+/**
+ * Opens a lost connection again, with the tunnel if there is one. Tries a few
+ * times, waiting longer each time, as the network is often the thing that's
+ * still coming back.
+ */
+function reconnect(server: IDbConnectionServer, database: IDbConnectionDatabase): Promise<void> {
+  if (!database.reconnecting) {
+    database.reconnecting = reconnectWithBackoff(server, database)
+      .finally(() => database.reconnecting = null)
+  }
+  return database.reconnecting
+}
+
+async function reconnectWithBackoff(server: IDbConnectionServer, database: IDbConnectionDatabase) {
+  logger().info('connection lost, reconnecting')
+  database.reconnectListener?.('reconnecting')
+  for (let attempt = 0; !database.closed; attempt++) {
+    closeLostConnection(server, database)
+    try {
+      await openConnection(server, database)
+      if (database.closed) {
+        // disconnected by the user while we were at it
+        database.connection?.disconnect()
+        database.connection = null
+        return
+      }
+      logger().info('reconnected')
+      database.reconnectListener?.('reconnected')
+      return
+    } catch (err) {
+      if (attempt + 1 >= MaxReconnectAttempts) {
+        logger().error('giving up reconnecting', err)
+        database.reconnectListener?.('failed')
+        throw err
+      }
+      logger().warn(`reconnect attempt ${attempt + 1} failed`, err)
+      await new Promise((resolve) => setTimeout(resolve, reconnectDelay(attempt)))
+    }
+  }
+}
+
+function closeLostConnection(server: IDbConnectionServer, database: IDbConnectionDatabase) {
+  // the server rolled these back, their tabs mustn't carry on in autocommit
+  database.transactionTabs?.forEach((tabId) => lostTransactionTabs(database).add(tabId))
+  database.transactionTabs?.clear()
+  try {
+    database.connection?.disconnect()
+  } catch (ex) {
+    // it's already gone, which is why we're here
+    logger().debug('error closing lost connection', ex)
+  }
+  database.connection = null
+
+  // the tunnel usually drops with the connection, so it's always opened again
+  if (server.sshTunnel) {
+    server.sshTunnel.connection.shutdown().catch((ex) => logger().debug('error closing lost tunnel', ex))
+    server.sshTunnel = null
+  }
+}
+
+/**
+ * Wraps a call that only reads metadata, so it's safe to run twice. Waits for
+ * a reconnect in progress, and if the connection turns out to be lost,
+ * reconnects and tries once more.
+ */
+function retryable<A extends any[], T>(
+  fn: (server: IDbConnectionServer, database: IDbConnectionDatabase, ...args: A) => T | Promise<T>,
+  server: IDbConnectionServer,
+  database: IDbConnectionDatabase
+): (...args: A) => Promise<T> {
+  return async (...args: A) => {
+    if (database.reconnecting) await database.reconnecting
+    try {
+      return await fn(server, database, ...args)
+    } catch (err) {
+      if (!isConnectionLost(err) || database.closed) throw err
+      await reconnect(server, database)
+      return await fn(server, database, ...args)
+    }
+  }
+}
+
+/**
+ * Any other call that finds the connection gone starts a reconnect, but still
+ * fails, as it may not be safe to run again.
+ */
+function reconnectOnLoss<T>(server: IDbConnectionServer, database: IDbConnectionDatabase, promise: Promise<T>): Promise<T> {
+  return promise.catch((err) => {
+    if (isConnectionLost(err) && !database.closed) {
+      reconnect(server, database).catch(() => { /* the listener hears about it */ })
+    }
+    throw err
+  })
+}
+
+// a laptop waking up doesn't always tell the socket it's dead, so we ask
+function startHealthCheck(server: IDbConnectionServer, database: IDbConnectionDatabase) {
+  const query = healthCheckQuery(server.config.client)
+  if (!query) return
+  stopHealthCheck(database)
+  database.healthCheck = setInterval(async () => {
+    if (database.reconnecting || database.connecting || !database.connection) return
+    try {
+      await withTimeout(Promise.resolve(database.connection.executeQuery(query)), HealthCheckTimeout, 'Connection terminated: health check timed out')
+    } catch (err) {
+      if (!isConnectionLost(err) || database.closed) return
+      await reconnect(server, database).catch(() => { /* tried again next time */ })
+    }
+  }, HealthCheckInterval)
+}
+
+function stopHealthCheck(database: IDbConnectionDatabase) {
+  if (database.healthCheck) {
+    clearInterval(database.healthCheck)
+    database.healthCheck = null
+  }
+}
+
 function supportedFeatures(server: IDbConnectionServer, database: IDbConnectionDatabase) {
   checkIsConnected(server, database)
   return database.connection?.supportedFeatures()
@@ -361,10 +571,12 @@ function queryStream(
   database: IDbConnectionDatabase,
   query: string,
   chunkSize: number,
+  params?: QueryParams,
 ): Promise<StreamResults> {
   checkIsConnected(server, database)
+  checkQueryIsAllowed(server, query)
   if (!database.connection) throw "No database connection available"
-  return database.connection?.queryStream(database.database, query, chunkSize)
+  return database.connection?.queryStream(database.database, query, chunkSize, params)
 }
 
 function listSchemas(server: IDbConnectionServer, database: IDbConnectionDatabase, filter: SchemaFilterOptions) {
@@ -372,7 +584,7 @@ function listSchemas(server: IDbConnectionServer, database: IDbConnectionDatabas
   return database.connection?.listSchemas(database.database, filter);
 }
 
-async function listTables(server: IDbConnectionServer, database: IDbConnectionDatabase, filter: FilterOptions) {
+async function listTables(server: IDbConnectionServer, database: IDbConnectionDatabase, filter?: FilterOptions) {
   checkIsConnected(server , database);
   return await database.connection?.listTables(database.database, filter) || [];
 }
@@ -449,13 +661,51 @@ function getTableProperties(server: IDbConnectionServer, database: IDbConnection
   return database.connection?.getTableProperties(table, schema)
 }
 
-function query(server: IDbConnectionServer, database: IDbConnectionDatabase, queryText: string) {
+function lostTransactionTabs(database: IDbConnectionDatabase): Set<number> {
+  if (!database.lostTransactionTabs) database.lostTransactionTabs = new Set()
+  return database.lostTransactionTabs
+}
+
+function checkTransactionNotLost(database: IDbConnectionDatabase, tabId?: number) {
+  if (tabId !== undefined && database.lostTransactionTabs?.has(tabId)) {
+    throw new Error("The connection was lost and this tab's transaction was rolled back. Roll back to start again.")
+  }
+}
+
+async function startTransaction(server: IDbConnectionServer, database: IDbConnectionDatabase, tabId: number) {
+  checkIsConnected(server, database)
+  lostTransactionTabs(database).delete(tabId)
+  await database.connection.startTransaction(tabId)
+  if (!database.transactionTabs) database.transactionTabs = new Set()
+  database.transactionTabs.add(tabId)
+}
+
+async function endTransaction(functionName: 'commitTransaction' | 'rollbackTransaction', server: IDbConnectionServer, database: IDbConnectionDatabase, tabId: number) {
+  if (lostTransactionTabs(database).delete(tabId)) {
+    // nothing left to roll back, but the work can't be committed either
+    if (functionName === 'commitTransaction') {
+      throw new Error("The connection was lost and this tab's transaction was rolled back, nothing was committed.")
+    }
+    return
+  }
+  checkIsConnected(server, database)
+  database.transactionTabs?.delete(tabId)
+  await database.connection[functionName](tabId)
+}
+
+function query(server: IDbConnectionServer, database: IDbConnectionDatabase, queryText: string, params?: QueryParams, tabId?: number): CancelableQuery {
   checkIsConnected(server , database);
-  return database.connection?.query(queryText);
+  checkQueryIsAllowed(server, queryText)
+  checkTransactionNotLost(database, tabId)
+  const cancelable = database.connection?.query(queryText, params, tabId);
+  const execute = cancelable.execute.bind(cancelable)
+  cancelable.execute = () => reconnectOnLoss(server, database, execute())
+  return cancelable
 }
 
 function applyChanges(server: IDbConnectionServer, database: IDbConnectionDatabase, changes: TableChanges) {
   checkIsConnected(server, database)
+  checkIsWritable(server, 'apply changes')
   return database.connection?.applyChanges(changes)
 }
 
@@ -469,19 +719,45 @@ function bind(functionName: string, server: IDbConnectionServer, database: IDbCo
   return database.connection[functionName](...args)
 }
 
+type ClientMethod<K extends keyof DatabaseClient> = Required<DatabaseClient>[K] extends (...args: infer A) => Promise<infer T>
+  ? (...args: A) => Promise<T>
+  : never
+
+// retryable for the methods that go straight through to the client
+function retryableAsync<K extends keyof DatabaseClient>(
+  functionName: K,
+  server: IDbConnectionServer,
+  database: IDbConnectionDatabase
+): ClientMethod<K> {
+  return retryable((s, d, ...args: any[]) => bindAsync(functionName, s, d, ...args), server, database) as ClientMethod<K>
+}
+
 async function bindAsync(functionName: string, server: IDbConnectionServer, database: IDbConnectionDatabase, ...args ) {
   checkIsConnected(server, database)
   return await database.connection[functionName](...args)
 }
 
+async function bindWrite(functionName: string, server: IDbConnectionServer, database: IDbConnectionDatabase, ...args ) {
+  checkIsWritable(server, _.lowerCase(functionName))
+  return await bindAsync(functionName, server, database, ...args)
+}
+
 
-function executeQuery(server: IDbConnectionServer, database: IDbConnectionDatabase, queryText: string) {
+async function explainQuery(server: IDbConnectionServer, database: IDbConnectionDatabase, queryText: string, analyze?: boolean) {
+  checkIsConnected(server, database)
+  // a plain EXPLAIN doesn't run the statement, ANALYZE does
+  if (analyze) checkQueryIsAllowed(server, queryText)
+  return await database.connection.explainQuery(queryText, analyze)
+}
+
+function executeQuery(server: IDbConnectionServer, database: IDbConnectionDatabase, queryText: string, params?: QueryParams) {
   checkIsConnected(server , database);
-  return database.connection?.executeQuery(queryText);
+  checkQueryIsAllowed(server, queryText)
+  return reconnectOnLoss(server, database, Promise.resolve<any>(database.connection?.executeQuery(queryText, params)));
 }
 
 
-function listDatabases(server: IDbConnectionServer, database: IDbConnectionDatabase, filter: DatabaseFilterOptions) {
+function listDatabases(server: IDbConnectionServer, database: IDbConnectionDatabase, filter?: DatabaseFilterOptions) {
   checkIsConnected(server , database);
   return database.connection?.listDatabases(filter);
 }
@@ -560,11 +836,13 @@ function getRoutineCreateScript(server: IDbConnectionServer, database: IDbConnec
   return database.connection?.getRoutineCreateScript(routine, type, schema);
 }
 
-function truncateAllTables(_server: IDbConnectionServer, database: IDbConnectionDatabase, schema: string) {
+function truncateAllTables(server: IDbConnectionServer, database: IDbConnectionDatabase, schema: string) {
+  checkIsWritable(server, 'truncate tables')
   return database.connection?.truncateAllTables(database.database, schema);
 }
 
-function setTableDescription(_server: IDbConnectionServer, database: IDbConnectionDatabase, table: string, description: string, schema?: string) {
+function setTableDescription(server: IDbConnectionServer, database: IDbConnectionDatabase, table: string, description: string, schema?: string) {
+  checkIsWritable(server, 'set table description')
   return database.connection?.setTableDescription(table, description, schema)
 }
 
@@ -598,6 +876,19 @@ function checkIsConnected(_server: IDbConnectionServer, database: IDbConnectionD
   }
 }
 
+function checkIsWritable(server: IDbConnectionServer, action: string) {
+  if (server.config.readOnlyMode) {
+    throw new ReadOnlyError(action)
+  }
+}
+
+function checkQueryIsAllowed(server: IDbConnectionServer, queryText: string) {
+  const dialect = readOnlyQueryDialects[server.config.client]
+  if (server.config.readOnlyMode && dialect && !isReadOnlyQuery(queryText, dialect)) {
+    throw new ReadOnlyError('run a query that changes the database')
+  }
+}
+
 function versionString(_server: IDbConnectionServer, database: IDbConnectionDatabase): string {
   return database.connection?.versionString();
 }
@@ -9,6 +9,7 @@ import { createCancelablePromise } from '@/common/utils';
 import { BigQueryOptions } from '@/common/appdb/models/saved_connection';
 import { table, time } from 'console';
 import { data } from 'jquery';
+import { bindParams } from '../params';
 import { buildDeleteQueries, buildInsertQueries, buildUpdateQueries, buildInsertQuery, genericSelectTop, buildSelectTopQuery, escapeString, joinQueries, escapeLiteral, applyChangesSql } from './utils';
 const log = rawLog.scope('bigquery')
 const logger = () => log
@@ -28,7 +29,7 @@ export default async function (server, database) {
   logger().debug("bigquery client connected")
 
   return {
-    supportedFeatures: () => ({ customRoutines: false, comments: false, properties: true, partitions: false, editPartitions: false }),
+    supportedFeatures: () => ({ customRoutines: false, comments: false, properties: true, partitions: false, editPartitions: false, explain: false, explainAnalyze: false, transactions: false, streaming: false, activity: false, cancelActivity: false, locks: false, roles: false }),
     defaultSchema: () => null,
     disconnect: () => disconnect(client),
     listTables: (db) => listTables(client, db),
@@ -40,8 +41,8 @@ export default async function (server, database) {
     selectTop: (table, offset, limit, orderBy, filters, schema, selects) => selectTop(client, database.database, table, offset, limit, orderBy, filters, selects),
     getTableKeys: (db, table) => Promise.resolve([]),
     getPrimaryKeys: (db, table) => Promise.resolve([]),
-    query: (queryText) => query(client, queryText),
-    executeQuery: (queryText) => executeQuery(client, queryText),
+    query: (queryText, params) => query(client, queryText, params),
+    executeQuery: (queryText, params) => executeQuery(client, params ? bindParams(queryText, params, 'positional') : queryText),
     listDatabases: () => listDatasets(client),
     getTableProperties: (table) => getTableProperties(client, database.database, table),
     versionString: () => getVersionString(),
@@ -79,8 +80,9 @@ function configDatabase(server, database) {
 }
 
 
-function query(client, queryText) {
+function query(client, queryText, params) {
   logger().debug('bigQuery query: ' + queryText)
+  const queryOptions = params ? bindParams(queryText, params, 'positional') : { query: queryText }
   let job = null
   let canceling = false
   const cancelable = createCancelablePromise({
@@ -91,14 +93,14 @@ function query(client, queryText) {
   return {
     async execute() {
       // Get a query job first
-      [job] = await client.createQueryJob({ query: queryText })
+      [job] = await client.createQueryJob(queryOptions)
       logger().debug("created job: ", job.id)
 
       try {
         logger().debug("wait for executeQuery job.id: ", job.id)
         const data = await Promise.race([
           cancelable.wait(),
-          executeQuery(client, queryText, job),
+          executeQuery(client, queryOptions, job),
         ])
         return data
       } catch (err) {
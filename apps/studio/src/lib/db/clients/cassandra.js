@@ -6,6 +6,7 @@ import * as cassandra from 'cassandra-driver';
 import { identify } from 'sql-query-identifier';
 
 import createLogger from '../../logger';
+import { bindParams } from '../params';
 
 const logger = createLogger('db:clients:cassandra');
 
@@ -40,8 +41,8 @@ export default function (server, database) {
         listSchemas: () => listSchemas(client),
         getTableReferences: (table) => getTableReferences(client, table),
         getTableKeys: (db, table) => getTableKeys(client, db, table),
-        query: (queryText) => executeQuery(client, queryText),
-        executeQuery: (queryText) => executeQuery(client, queryText),
+        query: (queryText, params) => executeQuery(client, queryText, params),
+        executeQuery: (queryText, params) => executeQuery(client, queryText, params),
         listDatabases: () => listDatabases(client),
         getQuerySelectTop: (table, limit) => getQuerySelectTop(client, table, limit),
         getTableCreateScript: (table) => getTableCreateScript(client, table),
@@ -155,15 +156,20 @@ function query(conn, queryText) { // eslint-disable-line no-unused-vars
   throw new Error('"query" function is not implementd by cassandra client.');
 }
 
-export function executeQuery(client, queryText) {
+export function executeQuery(client, queryText, params = undefined) {
   const commands = identifyCommands(queryText).map((item) => item.type);
 
   return new Promise((resolve, reject) => {
-    client.execute(queryText, (err, data) => {
+    const callback = (err, data) => {
       if (err) return reject(err);
 
       resolve([parseRowQueryResult(data, commands[0])]);
-    });
+    };
+    if (!params) return client.execute(queryText, callback);
+
+    const bound = bindParams(queryText, params, 'positional');
+    // prepared so numbers are sent with the column's own type
+    client.execute(bound.query, bound.params, { prepare: true }, callback);
   });
 }
 
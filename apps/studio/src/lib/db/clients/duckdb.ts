@@ -0,0 +1,816 @@
+import _ from 'lodash'
+import { Connection, Database } from 'duckdb'
+import { identify, Result as IdentifyResult } from 'sql-query-identifier'
+import knexlib from 'knex'
+import rawLog from 'electron-log'
+
+import { DatabaseClient, DatabaseElement, IDbConnectionDatabase } from '../client'
+import {
+  CancelableQuery, ExtendedTableColumn, FilterOptions, NgQueryResult, OrderBy, PrimaryKeyColumn, Routine,
+  SchemaFilterOptions, StreamResults, TableChanges, TableDelete, TableFilter, TableIndex, TableInsert,
+  TableOrView, TableProperties, TableResult, TableUpdate, TableUpdateResult
+} from '../models'
+import { applyChangesSql, buildDeleteQueries, buildInsertQueries, buildInsertQuery, buildSelectQueriesFromUpdates, buildSchemaFilter, buildUpdateQueries } from './utils'
+import { createCancelablePromise, joinFilters } from '@/common/utils'
+import { errors } from '@/lib/errors'
+import { DuckDBCursor } from './duckdb/DuckDBCursor'
+import { DuckDBChangeBuilder } from '@shared/lib/sql/change_builder/DuckDBChangeBuilder'
+import { DuckDBData } from '@shared/lib/dialects/duckdb'
+import { bindParams, bindStatements, QueryParams } from '../params'
+import { AlterTableSpec, IndexAlterations, RelationAlterations, TableKey } from '@shared/lib/dialects/models'
+
+const log = rawLog.scope('duckdb')
+const logger = () => log
+
+// DuckDB speaks (mostly) the postgres dialect, so we borrow the pg query builder
+const knex = knexlib({ client: 'pg' })
+
+const D = DuckDBData
+const defaultSchema = 'main'
+
+interface HasConnection {
+  connection: Connection
+}
+
+interface DuckDBConn extends HasConnection {
+  database: Database
+  path: string
+  // the driver can't close connections, so we keep two for the life of the
+  // client: the one above for queries, this one for our own transactions
+  transaction: HasConnection & { queue: Promise<unknown> }
+  // and hand the ones cursors are done with to the next cursor
+  idleStreams: Connection[]
+}
+
+type Conn = DuckDBConn | HasConnection
+
+function isDuckDBConn(x: Conn): x is DuckDBConn {
+  return (x as DuckDBConn).database !== undefined
+}
+
+interface DuckDBQueryArgs {
+  query: string
+  params?: any[]
+  multiple?: boolean
+}
+
+interface DuckDBResult {
+  rows: Record<string, any>[]
+  columns: { name: string }[]
+  statement?: any
+}
+
+export default async function (server: any, database: IDbConnectionDatabase): Promise<DatabaseClient> {
+  const path = database.database || ':memory:'
+  logger().debug('create driver client for duckdb with file %s', path)
+
+  // in-memory databases can't be opened read only
+  const db = await openDatabase(path, !!server.config?.readOnlyMode && path !== ':memory:')
+  const conn: DuckDBConn = {
+    database: db,
+    path,
+    connection: db.connect(),
+    transaction: { connection: db.connect(), queue: Promise.resolve() },
+    idleStreams: []
+  }
+
+  // light solution to test connection with with the server
+  const version = await getVersion(conn)
+
+  return {
+    supportedFeatures: () => ({ customRoutines: true, comments: false, properties: true, partitions: false, editPartitions: false, explain: false, explainAnalyze: false, transactions: false, streaming: true, activity: false, cancelActivity: false, locks: false, roles: false }),
+    versionString: () => version,
+    wrapIdentifier,
+    defaultSchema: () => defaultSchema,
+    disconnect: () => disconnect(conn),
+    listTables: (_db: string, filter?: FilterOptions) => listTables(conn, filter),
+    listViews: (filter?: FilterOptions) => listViews(conn, filter),
+    listMaterializedViews: () => Promise.resolve([]),
+    listRoutines: (filter?: FilterOptions) => listRoutines(conn, filter),
+    listTableColumns: (_db, table, schema = defaultSchema) => listTableColumns(conn, table, schema),
+    listMaterializedViewColumns: () => Promise.resolve([]),
+    listTableTriggers: () => Promise.resolve([]),
+    listTableIndexes: (_db, table, schema = defaultSchema) => listTableIndexes(conn, table, schema),
+    listSchemas: (_db, filter?: SchemaFilterOptions) => listSchemas(conn, filter),
+    listTablePartitions: () => Promise.resolve([]),
+    getTableReferences: (table, schema = defaultSchema) => getTableReferences(conn, table, schema),
+    getTableKeys: (_db, table, schema = defaultSchema) => getTableKeys(conn, table, schema),
+    getPrimaryKey: (_db, table, schema = defaultSchema) => getPrimaryKey(conn, table, schema),
+    getPrimaryKeys: (_db, table, schema = defaultSchema) => getPrimaryKeys(conn, table, schema),
+    applyChanges: (changes) => applyChanges(conn, changes),
+    query: (queryText, params) => query(conn, queryText, params),
+    executeQuery: (queryText, params) => executeQuery(conn, queryText, params),
+    listDatabases: () => listDatabases(conn),
+    getTableLength: (table: string, schema: string = defaultSchema) => getTableLength(conn, table, schema),
+    selectTop: (table, offset, limit, orderBy, filters, schema = defaultSchema, selects = ['*']) => selectTop(conn, table, offset, limit, orderBy, filters, schema, selects),
+    selectTopStream: (_db, table, orderBy, filters, chunkSize, schema = defaultSchema) => selectTopStream(conn, table, orderBy, filters, chunkSize, schema),
+    selectTopSql: (table, offset, limit, orderBy, filters, schema = defaultSchema, selects = ['*']) => selectTopSql(table, offset, limit, orderBy, filters, schema, selects),
+    queryStream: (_db, query, chunkSize, params) => queryStream(conn, query, chunkSize, params),
+    applyChangesSql: (changes: TableChanges): string => applyChangesSql(changes, knex),
+    getInsertQuery: (tableInsert: TableInsert) => getInsertQuery(conn, tableInsert),
+    getQuerySelectTop: (table, limit, schema = defaultSchema) => getQuerySelectTop(table, limit, schema),
+    getTableCreateScript: (table, schema = defaultSchema) => getTableCreateScript(conn, table, schema),
+    getViewCreateScript: (view, schema = defaultSchema) => getViewCreateScript(conn, view, schema),
+    getMaterializedViewCreateScript: () => Promise.resolve([]),
+    getRoutineCreateScript: (routine, _type, schema = defaultSchema) => getRoutineCreateScript(conn, routine, schema),
+    truncateAllTables: (_db, schema = defaultSchema) => truncateAllTables(conn, schema),
+    getTableProperties: (table, schema = defaultSchema) => getTableProperties(conn, table, schema),
+
+    // db creation
+    listCharsets: async () => [],
+    getDefaultCharset: async () => null,
+    listCollations: async () => [],
+    createDatabase: (databaseName) => createDatabase(conn, databaseName),
+
+    // alter tables
+    alterTableSql: async (change: AlterTableSpec) => alterTableSql(change),
+    alterTable: (change: AlterTableSpec) => alterTable(conn, change),
+
+    // alter indexes
+    alterIndexSql: (payload) => alterIndexSql(payload),
+    alterIndex: (payload) => alterIndex(conn, payload),
+
+    // relations
+    alterRelationSql: (payload) => alterRelationSql(payload),
+    alterRelation: (payload) => alterRelation(conn, payload),
+
+    // partitions
+    alterPartitionSql: () => null,
+    alterPartition: () => Promise.resolve(),
+
+    setTableDescription: () => Promise.resolve(''),
+
+    // delete stuff
+    dropElement: (elementName: string, typeOfElement: DatabaseElement, schema = defaultSchema) => dropElement(conn, elementName, typeOfElement, schema),
+    truncateElement: (elementName: string, _typeOfElement: DatabaseElement, schema = defaultSchema) => truncateElement(conn, elementName, schema),
+
+    // duplicate table
+    duplicateTable: (tableName: string, duplicateTableName: string, schema = defaultSchema) => duplicateTable(conn, tableName, duplicateTableName, schema),
+    duplicateTableSql: (tableName: string, duplicateTableName: string, schema = defaultSchema) => duplicateTableSql(tableName, duplicateTableName, schema),
+  }
+}
+
+function openDatabase(path: string, readOnly = false): Promise<Database> {
+  return new Promise((resolve, reject) => {
+    const config = readOnly ? { access_mode: 'READ_ONLY' } : {}
+    const database = new Database(path, config, (err) => {
+      if (err) return reject(err)
+      resolve(database)
+    })
+  })
+}
+
+export function disconnect(conn: DuckDBConn): Promise<void> {
+  return closeDatabase(conn.database)
+}
+
+function closeDatabase(database: Database): Promise<void> {
+  return new Promise((resolve) => {
+    database.close((err) => {
+      if (err) log.warn('error closing duckdb database', err)
+      resolve()
+    })
+  })
+}
+
+export function wrapIdentifier(value: string): string {
+  if (value === '*') return value;
+  const matched = value.match(/(.*?)(\[[0-9]\])/); // eslint-disable-line no-useless-escape
+  if (matched) return wrapIdentifier(matched[1]) + matched[2];
+  return `"${value.replaceAll(/"/g, '""')}"`;
+}
+
+function tableName(table: string, schema?: string): string {
+  return schema ? `${wrapIdentifier(schema)}.${wrapIdentifier(table)}` : wrapIdentifier(table)
+}
+
+async function getVersion(conn: Conn): Promise<string> {
+  const { rows } = await driverExecuteSingle(conn, { query: 'SELECT version() AS version' })
+  return `DuckDB ${rows[0]?.version || ''}`.trim()
+}
+
+export async function listTables(conn: Conn, filter?: FilterOptions): Promise<TableOrView[]> {
+  const schemaFilter = buildSchemaFilter(filter, 'schema_name')
+  const sql = `
+    SELECT schema_name AS schema, table_name AS name
+    FROM duckdb_tables()
+    WHERE NOT internal
+    ${schemaFilter ? `AND ${schemaFilter}` : ''}
+    ORDER BY schema_name, table_name
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql })
+  return rows.map((row) => ({ schema: row.schema, name: row.name, entityType: 'table' }))
+}
+
+export async function listViews(conn: Conn, filter?: FilterOptions): Promise<TableOrView[]> {
+  const schemaFilter = buildSchemaFilter(filter, 'schema_name')
+  const sql = `
+    SELECT schema_name AS schema, view_name AS name
+    FROM duckdb_views()
+    WHERE NOT internal
+    ${schemaFilter ? `AND ${schemaFilter}` : ''}
+    ORDER BY schema_name, view_name
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql })
+  return rows.map((row) => ({ schema: row.schema, name: row.name, entityType: 'view' }))
+}
+
+// DuckDB has no stored procedures, macros are the closest thing.
+export async function listRoutines(conn: Conn, filter?: FilterOptions): Promise<Routine[]> {
+  const schemaFilter = buildSchemaFilter(filter, 'schema_name')
+  const sql = `
+    SELECT schema_name, function_name, parameters, parameter_types, return_type
+    FROM duckdb_functions()
+    WHERE NOT internal
+    AND function_type IN ('macro', 'table_macro')
+    ${schemaFilter ? `AND ${schemaFilter}` : ''}
+    ORDER BY schema_name, function_name
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql })
+  return rows.map((row) => ({
+    id: `${row.schema_name}.${row.function_name}`,
+    schema: row.schema_name,
+    name: row.function_name,
+    type: 'function',
+    returnType: row.return_type,
+    entityType: 'routine',
+    routineParams: (row.parameters || []).map((name: string, idx: number) => ({
+      name,
+      type: row.parameter_types?.[idx] || 'ANY'
+    }))
+  }))
+}
+
+export async function listTableColumns(conn: Conn, table?: string, schema?: string): Promise<ExtendedTableColumn[]> {
+  const clause = table ? 'AND table_schema = ? AND table_name = ?' : ''
+  const params = table ? [schema, table] : []
+  const sql = `
+    SELECT table_schema, table_name, column_name, data_type, is_nullable, column_default, ordinal_position
+    FROM information_schema.columns
+    WHERE table_catalog = current_database()
+    ${clause}
+    ORDER BY table_schema, table_name, ordinal_position
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params })
+  return rows.map((row) => ({
+    schemaName: row.table_schema,
+    tableName: row.table_name,
+    columnName: row.column_name,
+    dataType: row.data_type,
+    nullable: row.is_nullable === 'YES',
+    defaultValue: row.column_default,
+    ordinalPosition: Number(row.ordinal_position),
+  }))
+}
+
+// duckdb_indexes() renders the indexed columns as a string, eg '[a, "b c"]'
+function parseIndexExpressions(expressions: string): string[] {
+  if (!expressions) return []
+  return expressions.replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((e) => D.unwrapIdentifier(e.trim()))
+    .filter((e) => !!e)
+}
+
+export async function listTableIndexes(conn: Conn, table: string, schema: string): Promise<TableIndex[]> {
+  const sql = `
+    SELECT index_oid, index_name, is_unique, is_primary, expressions
+    FROM duckdb_indexes()
+    WHERE schema_name = ? AND table_name = ?
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params: [schema, table] })
+  return rows.map((row) => ({
+    id: String(row.index_oid),
+    name: row.index_name,
+    table,
+    schema,
+    unique: !!row.is_unique,
+    primary: !!row.is_primary,
+    columns: parseIndexExpressions(row.expressions).map((name) => ({ name, order: 'ASC' }))
+  }))
+}
+
+export async function listSchemas(conn: Conn, filter?: SchemaFilterOptions): Promise<string[]> {
+  const schemaFilter = buildSchemaFilter(filter)
+  const sql = `
+    SELECT schema_name
+    FROM information_schema.schemata
+    WHERE catalog_name = current_database()
+    ${schemaFilter ? `AND ${schemaFilter}` : ''}
+    ORDER BY schema_name
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql })
+  return rows.map((row) => row.schema_name)
+}
+
+export async function listDatabases(conn: Conn): Promise<string[]> {
+  const sql = `SELECT path FROM duckdb_databases() WHERE NOT internal`
+  const { rows } = await driverExecuteSingle(conn, { query: sql })
+  return rows.map((row) => row.path || ':memory:')
+}
+
+export async function getTableReferences(conn: Conn, table: string, schema: string): Promise<string[]> {
+  const keys = await getTableKeys(conn, table, schema)
+  return _.uniq(keys.map((k) => k.toTable))
+}
+
+const referencesRegex = /REFERENCES\s+((?:"[^"]+"|[^\s(]+)(?:\.(?:"[^"]+"|[^\s(]+))?)\s*\(([^)]+)\)/i
+
+function constraintAction(text: string, event: 'UPDATE' | 'DELETE'): string {
+  const matched = text.match(new RegExp(`ON ${event} (SET NULL|SET DEFAULT|NO ACTION|RESTRICT|CASCADE)`, 'i'))
+  return matched ? matched[1].toUpperCase() : 'NO ACTION'
+}
+
+// DuckDB doesn't keep the names of foreign keys, so they don't get one here
+function parseForeignKey(row: Record<string, any>, table: string, schema: string): TableKey[] {
+  const text: string = row.constraint_text || ''
+  const matched = text.match(referencesRegex)
+  if (!matched) return []
+  const target = matched[1].split('.').map((p: string) => D.unwrapIdentifier(p))
+  const toTable = target[target.length - 1]
+  const toSchema = target.length > 1 ? target[0] : schema
+  const toColumns = matched[2].split(',').map((c: string) => D.unwrapIdentifier(c.trim()))
+  const fromColumns: string[] = row.constraint_column_names || []
+  return fromColumns.map((fromColumn, idx) => ({
+    fromTable: table,
+    fromSchema: schema,
+    fromColumn,
+    toTable,
+    toSchema,
+    toColumn: toColumns[idx],
+    onUpdate: constraintAction(text, 'UPDATE'),
+    onDelete: constraintAction(text, 'DELETE')
+  }))
+}
+
+export async function getTableKeys(conn: Conn, table: string, schema: string): Promise<TableKey[]> {
+  const sql = `
+    SELECT constraint_text, constraint_column_names
+    FROM duckdb_constraints()
+    WHERE constraint_type = 'FOREIGN KEY'
+    AND schema_name = ? AND table_name = ?
+    ORDER BY constraint_index
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params: [schema, table] })
+  return _.flatMap(rows, (row) => parseForeignKey(row, table, schema))
+}
+
+export async function getPrimaryKeys(conn: Conn, table: string, schema: string): Promise<PrimaryKeyColumn[]> {
+  const sql = `
+    SELECT constraint_column_names
+    FROM duckdb_constraints()
+    WHERE constraint_type = 'PRIMARY KEY'
+    AND schema_name = ? AND table_name = ?
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params: [schema, table] })
+  const columns: string[] = rows[0]?.constraint_column_names || []
+  return columns.map((columnName, idx) => ({ columnName, position: idx + 1 }))
+}
+
+export async function getPrimaryKey(conn: Conn, table: string, schema: string): Promise<string | null> {
+  const keys = await getPrimaryKeys(conn, table, schema)
+  return keys.length === 1 ? keys[0].columnName : null
+}
+
+interface SelectTopQueries {
+  query: string
+  countQuery: string
+  params: any[]
+}
+
+export function buildSelectTopQueries(
+  table: string,
+  offset: number,
+  limit: number,
+  orderBy: OrderBy[],
+  filters: TableFilter[] | string,
+  schema: string,
+  selects: string[] = ['*'],
+): SelectTopQueries {
+  let orderByString = ''
+  let filterString = ''
+  let params: any[] = []
+
+  if (orderBy && orderBy.length > 0) {
+    orderByString = 'ORDER BY ' + orderBy.map((item) => {
+      if (_.isObject(item)) {
+        return `${wrapIdentifier(item.field)} ${item.dir.toUpperCase()}`
+      } else {
+        return wrapIdentifier(item)
+      }
+    }).join(',')
+  }
+
+  if (_.isString(filters)) {
+    filterString = `WHERE ${filters}`
+  } else if (filters && filters.length > 0) {
+    const allFilters = filters.map((item) => {
+      if (item.type === 'in' && _.isArray(item.value)) {
+        return `${wrapIdentifier(item.field)} IN (${item.value.map(() => '?').join(',')})`
+      }
+      return `${wrapIdentifier(item.field)} ${item.type.toUpperCase()} ?`
+    })
+    filterString = 'WHERE ' + joinFilters(allFilters, filters)
+    params = filters.flatMap((item) => _.isArray(item.value) ? item.value : [item.value])
+  }
+
+  const baseSQL = `
+    FROM ${tableName(table, schema)}
+    ${filterString}
+  `
+  const query = `
+    SELECT ${selects.join(', ')} ${baseSQL}
+    ${orderByString}
+    ${_.isNumber(limit) ? `LIMIT ${limit}` : ''}
+    ${_.isNumber(offset) ? `OFFSET ${offset}` : ''}
+  `
+  return {
+    query,
+    countQuery: `SELECT count(*) AS total ${baseSQL}`,
+    params
+  }
+}
+
+export async function getTableLength(conn: Conn, table: string, schema: string, filters?: TableFilter[] | string): Promise<number> {
+  const { countQuery, params } = buildSelectTopQueries(table, null, null, null, filters, schema)
+  const { rows } = await driverExecuteSingle(conn, { query: countQuery, params })
+  return Number(rows[0]?.total || 0)
+}
+
+export async function selectTop(
+  conn: Conn,
+  table: string,
+  offset: number,
+  limit: number,
+  orderBy: OrderBy[],
+  filters: TableFilter[] | string,
+  schema: string,
+  selects: string[],
+): Promise<TableResult> {
+  const { query, params } = buildSelectTopQueries(table, offset, limit, orderBy, filters, schema, selects)
+  const result = await driverExecuteSingle(conn, { query, params })
+  return {
+    result: result.rows,
+    fields: result.columns.map((c) => c.name)
+  }
+}
+
+export async function selectTopSql(
+  table: string,
+  offset: number,
+  limit: number,
+  orderBy: OrderBy[],
+  filters: TableFilter[] | string,
+  schema: string,
+  selects: string[],
+): Promise<string> {
+  const { query, params } = buildSelectTopQueries(table, offset, limit, orderBy, filters, schema, selects)
+  return knex.raw(query, params).toQuery()
+}
+
+export async function selectTopStream(
+  conn: DuckDBConn,
+  table: string,
+  orderBy: OrderBy[],
+  filters: TableFilter[] | string,
+  chunkSize: number,
+  schema: string
+): Promise<StreamResults> {
+  const { query, params } = buildSelectTopQueries(table, null, null, orderBy, filters, schema)
+  const columns = await listTableColumns(conn, table, schema)
+  const totalRows = await getTableLength(conn, table, schema, filters)
+  return {
+    totalRows,
+    columns,
+    cursor: new DuckDBCursor({ database: conn.database, idle: conn.idleStreams, query, params, chunkSize })
+  }
+}
+
+export async function queryStream(conn: DuckDBConn, queryText: string, chunkSize: number, params?: QueryParams): Promise<StreamResults> {
+  const { query, params: values } = params ? bindParams(queryText, params, 'positional') : { query: queryText, params: [] }
+  return {
+    totalRows: undefined,
+    columns: undefined,
+    cursor: new DuckDBCursor({ database: conn.database, idle: conn.idleStreams, query, params: values, chunkSize })
+  }
+}
+
+export function query(conn: DuckDBConn, queryText: string, params?: QueryParams): CancelableQuery {
+  let running = false
+  const cancelable = createCancelablePromise(errors.CANCELED_BY_USER)
+
+  return {
+    async execute(): Promise<NgQueryResult[]> {
+      running = true
+      try {
+        const data = await Promise.race([
+          cancelable.wait(),
+          executeQuery(conn, queryText, params),
+        ])
+        return data || []
+      } finally {
+        running = false
+        cancelable.discard()
+      }
+    },
+
+    async cancel(): Promise<void> {
+      if (!running) {
+        throw new Error('Query not ready to be canceled')
+      }
+      conn.database.interrupt()
+      cancelable.cancel()
+    }
+  }
+}
+
+export async function executeQuery(conn: Conn, queryText: string, params?: QueryParams): Promise<NgQueryResult[]> {
+  if (!params) {
+    const results = await driverExecuteQuery(conn, { query: queryText, multiple: true })
+    return results.map(parseRowQueryResult)
+  }
+  // statements with parameters have to be run one at a time
+  const statements = identifyCommands(queryText)
+  const bound = bindStatements(statements.map((s) => s.text), params, 'positional')
+  const results = []
+  for (let idx = 0; idx < bound.length; idx++) {
+    const result = await driverExecuteSingle(conn, bound[idx])
+    results.push(parseRowQueryResult({ ...result, statement: statements[idx] }))
+  }
+  return results
+}
+
+function parseRowQueryResult(result: DuckDBResult): NgQueryResult {
+  const command = result.statement?.type || 'UNKNOWN'
+  const isSelect = !result.statement?.executionType || result.statement.executionType === 'LISTING'
+  // DuckDB reports affected rows as a single 'Count' column
+  const affected = !isSelect && result.columns.length === 1 && result.columns[0].name === 'Count'
+  return {
+    command,
+    rows: affected ? [] : result.rows,
+    fields: affected ? [] : result.columns.map((c) => ({ name: c.name, id: c.name })),
+    rowCount: affected ? 0 : result.rows.length,
+    affectedRows: affected ? Number(result.rows[0]?.Count || 0) : undefined
+  }
+}
+
+export async function getInsertQuery(conn: Conn, tableInsert: TableInsert): Promise<string> {
+  const columns = await listTableColumns(conn, tableInsert.table, tableInsert.schema || defaultSchema)
+  return buildInsertQuery(knex, tableInsert, columns)
+}
+
+export function getQuerySelectTop(table: string, limit: number, schema: string): string {
+  return `SELECT * FROM ${tableName(table, schema)} LIMIT ${limit}`
+}
+
+export async function getTableCreateScript(conn: Conn, table: string, schema: string): Promise<string> {
+  const sql = `SELECT sql FROM duckdb_tables() WHERE schema_name = ? AND table_name = ?`
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params: [schema, table] })
+  return rows[0]?.sql
+}
+
+export async function getViewCreateScript(conn: Conn, view: string, schema: string): Promise<string[]> {
+  const sql = `SELECT sql FROM duckdb_views() WHERE schema_name = ? AND view_name = ?`
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params: [schema, view] })
+  return rows.map((row) => row.sql)
+}
+
+export async function getRoutineCreateScript(conn: Conn, routine: string, schema: string): Promise<string[]> {
+  const sql = `
+    SELECT function_name, parameters, macro_definition
+    FROM duckdb_functions()
+    WHERE schema_name = ? AND function_name = ?
+    AND function_type IN ('macro', 'table_macro')
+  `
+  const { rows } = await driverExecuteSingle(conn, { query: sql, params: [schema, routine] })
+  return rows.map((row) => {
+    const params = (row.parameters || []).join(', ')
+    return `CREATE MACRO ${tableName(row.function_name, schema)}(${params}) AS ${row.macro_definition}`
+  })
+}
+
+export async function getTableProperties(conn: Conn, table: string, schema: string): Promise<TableProperties> {
+  const [length, indexes, relations] = await Promise.all([
+    getTableLength(conn, table, schema),
+    listTableIndexes(conn, table, schema),
+    getTableKeys(conn, table, schema),
+  ])
+  return {
+    length,
+    indexes,
+    relations,
+    triggers: []
+  } as TableProperties
+}
+
+export async function applyChanges(conn: DuckDBConn, changes: TableChanges): Promise<TableUpdateResult[]> {
+  let results: TableUpdateResult[] = []
+
+  await runInTransaction(conn, async (cli) => {
+    await driverExecuteQuery(cli, { query: 'BEGIN TRANSACTION' })
+
+    try {
+      if (changes.inserts) {
+        await insertRows(cli, changes.inserts)
+      }
+
+      if (changes.updates) {
+        results = await updateValues(cli, changes.updates)
+      }
+
+      if (changes.deletes) {
+        await deleteRows(cli, changes.deletes)
+      }
+
+      await driverExecuteQuery(cli, { query: 'COMMIT' })
+    } catch (ex) {
+      log.error("query exception: ", ex)
+      await driverExecuteQuery(cli, { query: 'ROLLBACK' })
+      throw ex
+    }
+  })
+
+  return results
+}
+
+async function insertRows(cli: HasConnection, inserts: TableInsert[]) {
+  for (const command of buildInsertQueries(knex, inserts)) {
+    await driverExecuteQuery(cli, { query: command })
+  }
+  return true
+}
+
+async function updateValues(cli: HasConnection, updates: TableUpdate[]): Promise<TableUpdateResult[]> {
+  for (const command of buildUpdateQueries(knex, updates)) {
+    await driverExecuteQuery(cli, { query: command })
+  }
+
+  const results = []
+  for (const command of buildSelectQueriesFromUpdates(knex, updates)) {
+    const { rows } = await driverExecuteSingle(cli, { query: command })
+    if (rows[0]) results.push(rows[0])
+  }
+  return results
+}
+
+async function deleteRows(cli: HasConnection, deletes: TableDelete[]) {
+  for (const command of buildDeleteQueries(knex, deletes)) {
+    await driverExecuteQuery(cli, { query: command })
+  }
+  return true
+}
+
+export function alterTableSql(change: AlterTableSpec): string {
+  const builder = new DuckDBChangeBuilder(change.table, change.schema)
+  return builder.alterTable(change)
+}
+
+export async function alterTable(conn: DuckDBConn, change: AlterTableSpec): Promise<void> {
+  const sql = alterTableSql(change)
+  await executeWithTransaction(conn, { query: sql })
+}
+
+export function alterIndexSql(payload: IndexAlterations): string | null {
+  const { table, schema, additions, drops } = payload
+  const changeBuilder = new DuckDBChangeBuilder(table, schema)
+  const newIndexes = changeBuilder.createIndexes(additions)
+  const droppers = changeBuilder.dropIndexes(drops)
+  return [newIndexes, droppers].filter((f) => !!f).join(";")
+}
+
+export async function alterIndex(conn: DuckDBConn, payload: IndexAlterations): Promise<void> {
+  const sql = alterIndexSql(payload)
+  await executeWithTransaction(conn, { query: sql })
+}
+
+export function alterRelationSql(payload: RelationAlterations): string | null {
+  const { table, schema } = payload
+  const builder = new DuckDBChangeBuilder(table, schema)
+  const creates = builder.createRelations(payload.additions)
+  const drops = builder.dropRelations(payload.drops)
+  return [creates, drops].filter((f) => !!f).join(";")
+}
+
+export async function alterRelation(conn: DuckDBConn, payload: RelationAlterations): Promise<void> {
+  const query = alterRelationSql(payload)
+  await executeWithTransaction(conn, { query })
+}
+
+export async function truncateAllTables(conn: DuckDBConn, schema: string): Promise<void> {
+  const tables = await listTables(conn, { schema })
+  const sql = tables.map((table) => `DELETE FROM ${tableName(table.name, schema)};`).join('')
+  if (!sql) return
+  await executeWithTransaction(conn, { query: sql })
+}
+
+export async function dropElement(conn: Conn, elementName: string, typeOfElement: DatabaseElement, schema: string): Promise<void> {
+  const sql = `DROP ${D.wrapLiteral(DatabaseElement[typeOfElement])} ${tableName(elementName, schema)}`
+  await driverExecuteQuery(conn, { query: sql })
+}
+
+export async function truncateElement(conn: Conn, elementName: string, schema: string): Promise<void> {
+  const sql = `TRUNCATE ${tableName(elementName, schema)}`
+  await driverExecuteQuery(conn, { query: sql })
+}
+
+export async function duplicateTable(conn: Conn, tableName: string, duplicateTableName: string, schema: string): Promise<void> {
+  const sql = duplicateTableSql(tableName, duplicateTableName, schema)
+  await driverExecuteQuery(conn, { query: sql })
+}
+
+export function duplicateTableSql(table: string, duplicateTableName: string, schema: string): string {
+  return `CREATE TABLE ${tableName(duplicateTableName, schema)} AS SELECT * FROM ${tableName(table, schema)}`
+}
+
+export async function createDatabase(conn: DuckDBConn, databaseName: string): Promise<void> {
+  // like SQLite, new databases are created as a file next to the current one.
+  const fileLocation = conn.path.split('/')
+  fileLocation.pop()
+
+  const created = await openDatabase(`${fileLocation.join('/')}/${databaseName}.duckdb`)
+  await closeDatabase(created)
+}
+
+function identifyCommands(queryText: string): IdentifyResult[] {
+  try {
+    return identify(queryText, { strict: false, dialect: 'psql' })
+  } catch (err) {
+    // run it as it is, so duckdb reports what's wrong with it
+    log.warn("Unable to identify query", err)
+    return [{ start: 0, end: queryText.length, text: queryText, type: 'UNKNOWN', executionType: 'UNKNOWN', parameters: [], tables: [], columns: [] }]
+  }
+}
+
+async function driverExecuteSingle(conn: Conn, queryArgs: DuckDBQueryArgs): Promise<DuckDBResult> {
+  return (await driverExecuteQuery(conn, queryArgs))[0]
+}
+
+function driverExecuteQuery(conn: Conn, queryArgs: DuckDBQueryArgs): Promise<DuckDBResult[]> {
+  const runQuery = (connection: Connection, text: string, params: any[]): Promise<DuckDBResult> => {
+    return new Promise((resolve, reject) => {
+      try {
+        const statement = connection.prepare(text)
+        statement.all(...params, (err, rows) => {
+          statement.finalize()
+          if (err) return reject(err)
+          // the 0.8 driver doesn't describe result columns, so like sqlite
+          // we only know them when there are rows
+          const columns = Object.keys(rows?.[0] || {}).map((name) => ({ name }))
+          resolve({ rows: rows || [], columns })
+        })
+      } catch (error) {
+        reject(error)
+      }
+    })
+  }
+
+  const identifyStatementsRunQuery = async (connection: Connection): Promise<DuckDBResult[]> => {
+    const params = queryArgs.params || []
+    // queries with bound parameters are always a single statement
+    if (!queryArgs.multiple || params.length) {
+      return [await runQuery(connection, queryArgs.query, params)]
+    }
+
+    const statements = identifyCommands(queryArgs.query)
+    const results = []
+    // we do it this way to ensure the queries are run IN ORDER
+    for (const statement of statements) {
+      const result = await runQuery(connection, statement.text, [])
+      results.push({ ...result, statement })
+    }
+    return results
+  }
+
+  return identifyStatementsRunQuery(conn.connection)
+}
+
+// transactions take turns on their own connection, so queries from other tabs
+// don't end up inside them
+function runInTransaction<T>(conn: Conn, run: (cli: HasConnection) => Promise<T>): Promise<T> {
+  if (!isDuckDBConn(conn)) return run(conn)
+  const { transaction } = conn
+  const result = transaction.queue.then(() => run(transaction))
+  transaction.queue = result.catch(() => undefined)
+  return result
+}
+
+async function executeWithTransaction(conn: Conn, queryArgs: DuckDBQueryArgs): Promise<void> {
+  await runInTransaction(conn, async (cli) => {
+    try {
+      await driverExecuteQuery(cli, { query: 'BEGIN TRANSACTION' })
+      await driverExecuteQuery(cli, { ...queryArgs, multiple: true })
+      await driverExecuteQuery(cli, { query: 'COMMIT' })
+    } catch (ex) {
+      log.error("executeWithTransaction", ex)
+      await driverExecuteQuery(cli, { query: 'ROLLBACK' })
+      throw ex
+    }
+  })
+}
+
+export const testOnly = {
+  alterTableSql,
+  buildSelectTopQueries,
+  parseIndexExpressions,
+  parseForeignKey
+}
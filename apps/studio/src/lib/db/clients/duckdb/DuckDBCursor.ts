@@ -0,0 +1,48 @@
+import { Connection, Database, QueryResult } from 'duckdb'
+import { BeeCursor } from "../../models";
+
+interface CursorOptions {
+  database: Database,
+  // connections earlier cursors are done with, duckdb can't close them
+  idle: Connection[],
+  query: string,
+  params: any[],
+  chunkSize: number
+}
+
+export class DuckDBCursor extends BeeCursor {
+
+  private readonly options: CursorOptions
+  private connection?: Connection
+  private iterator?: AsyncIterator<Record<string, any>>
+
+  constructor(options: CursorOptions) {
+    super(options.chunkSize)
+    this.options = options
+  }
+
+  async start(): Promise<void> {
+    this.connection = this.options.idle.pop() || this.options.database.connect()
+    const result: QueryResult = this.connection.stream(this.options.query, ...this.options.params)
+    this.iterator = result[Symbol.asyncIterator]()
+  }
+
+  async read(): Promise<any[][]> {
+    if (!this.iterator) throw new Error("You need to call start first")
+    const results = []
+    for (let index = 0; index < this.chunkSize; index++) {
+      const next = await this.iterator.next()
+      if (next.done) break;
+      if (!this.columnNames) this.columnNames = Object.keys(next.value)
+      results.push(Object.values(next.value))
+    }
+    return results
+  }
+
+  async cancel(): Promise<void> {
+    await this.iterator?.return?.()
+    this.iterator = undefined
+    if (this.connection) this.options.idle.push(this.connection)
+    this.connection = undefined
+  }
+}
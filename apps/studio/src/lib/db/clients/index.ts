@@ -6,6 +6,7 @@ import sqlserver from './sqlserver';
 import sqlite from './sqlite';
 import cassandra from './cassandra';
 import bigquery from './bigquery.js';
+import duckdb from './duckdb';
 
 
 export function findClient(key: string): Client | undefined {
@@ -140,6 +141,22 @@ export const CLIENTS: ClientConfig[] = [
       'scriptCreateTable',
     ],
   },
+  {
+    key: 'duckdb',
+    name: 'DuckDB',
+    defaultDatabase: ':memory:',
+    disabledFeatures: [
+      'server:ssl',
+      'server:host',
+      'server:port',
+      'server:socketPath',
+      'server:user',
+      'server:password',
+      'server:schema',
+      'server:domain',
+      'server:ssh',
+    ],
+  },
 ];
 
 
@@ -153,4 +170,5 @@ export default {
   mariadb: mysql,
   cockroachdb: postgresql,
   bigquery,
+  duckdb,
 };
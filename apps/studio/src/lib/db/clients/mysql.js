@@ -1,5 +1,6 @@
 // Copyright (c) 2015 The SQLECTRON Team
 import { MySqlChangeBuilder } from '@shared/lib/sql/change_builder/MysqlChangeBuilder';
+import { MysqlRoleBuilder } from '@shared/lib/sql/role_builder/MysqlRoleBuilder';
 import rawLog from 'electron-log';
 import { readFileSync } from 'fs';
 import knexlib from 'knex';
@@ -13,6 +14,9 @@ import { MysqlCursor } from './mysql/MySqlCursor';
 import { buildDeleteQueries, buildInsertQueries, buildUpdateQueries, buildInsertQuery, buildSelectTopQuery, escapeString, joinQueries, escapeLiteral, applyChangesSql } from './utils';
 import { MysqlData } from '@shared/lib/dialects/mysql'
 import { ClientError } from '../client';
+import { bindParams } from '../params';
+import { explainableQuery } from '../../explain/plan';
+import { parseMysqlPlan } from '../../explain/mysql';
 
 
 const log = rawLog.scope('mysql')
@@ -32,15 +36,23 @@ export default async function (server, database) {
   const conn = {
     pool: mysql.createPool(dbConfig),
   };
+  const transactions = new Map();
+
+  if (server.config.readOnlyMode) {
+    // runs before anything else on each new pooled connection
+    conn.pool.on('connection', (connection) => {
+      connection.query('SET SESSION TRANSACTION READ ONLY');
+    });
+  }
 
   const versionInfo = await getVersion(conn)
 
   return {
-    supportedFeatures: () => ({ customRoutines: true, comments: true, properties: true, partitions: false, editPartitions: false }),
+    supportedFeatures: () => ({ customRoutines: true, comments: true, properties: true, partitions: false, editPartitions: false, explain: true, explainAnalyze: false, transactions: true, streaming: true, activity: true, cancelActivity: true, locks: true, roles: true }),
     versionString: () => getVersionString(versionInfo),
     wrapIdentifier,
     defaultSchema: () => null,
-    disconnect: () => disconnect(conn),
+    disconnect: () => disconnect(conn, transactions),
     listTables: () => listTables(conn),
     listViews: () => listViews(conn),
     listMaterializedViews: () => Promise.resolve([]),
@@ -53,9 +65,27 @@ export default async function (server, database) {
     getPrimaryKey: (db, table) => getPrimaryKey(conn, db, table),
     getPrimaryKeys: (db, table) => getPrimaryKeys(conn, db, table),
     getTableKeys: (db, table) => getTableKeys(conn, db, table),
-    query: (queryText) => query(conn, queryText),
+    query: (queryText, params, tabId) => query(conn, queryText, params, transactions.get(tabId)),
     applyChanges: (changes) => applyChanges(conn, changes),
-    executeQuery: (queryText) => executeQuery(conn, queryText),
+    executeQuery: (queryText, params) => executeQuery(conn, queryText, false, params),
+    explainQuery: (queryText) => explainQuery(conn, queryText),
+    startTransaction: (tabId) => startTransaction(conn, transactions, tabId),
+    commitTransaction: (tabId) => endTransaction(transactions, tabId, 'COMMIT'),
+    rollbackTransaction: (tabId) => endTransaction(transactions, tabId, 'ROLLBACK'),
+    listSessions: () => listSessions(conn),
+    cancelSession: (id) => killSession(conn, id, true),
+    terminateSession: (id) => killSession(conn, id, false),
+    listBlockingSessions: () => listBlockingSessions(conn, versionInfo),
+    listRoles: () => listRoles(conn),
+    listGrants: (role, host) => listGrants(conn, role, host),
+    createRoleSql: (spec) => createRoleSql(spec),
+    createRole: (spec) => createRole(conn, spec),
+    alterRoleSql: (spec) => alterRoleSql(spec),
+    alterRole: (spec) => alterRole(conn, spec),
+    grantSql: (grants) => grantSql(grants),
+    grant: (grants) => grant(conn, grants),
+    revokeSql: (grants) => revokeSql(grants),
+    revoke: (grants) => revoke(conn, grants),
     listDatabases: (filter) => listDatabases(conn, filter),
 
     // db creation
@@ -105,7 +135,10 @@ export default async function (server, database) {
 }
 
 
-export function disconnect(conn) {
+export function disconnect(conn, transactions) {
+  // closing the connection rolls back anything left uncommitted
+  transactions?.forEach((connection) => connection.destroy());
+  transactions?.clear();
   conn.pool.end();
 }
 
@@ -127,7 +160,8 @@ async function getVersion(conn) {
     versionString: version,
     isMariaDb: version.toLowerCase().includes('mariadb'),
     isMySql: !version.toLowerCase().includes("mariadb"),
-    version: Number(stuff[0] || 0)
+    // eg 8 from 8.0.33, 5.7 from 5.7.44
+    version: parseFloat(stuff[0]) || 0
   }
 
 }
@@ -377,6 +411,7 @@ export async function listTableTriggers(conn, table) {
       event_manipulation as trigger_manipulation,
       action_statement as trigger_action,
       action_timing as trigger_timing,
+      action_orientation as trigger_orientation,
       action_condition as trigger_condition
     FROM information_schema.triggers
     WHERE event_object_schema = database()
@@ -397,6 +432,8 @@ export async function listTableTriggers(conn, table) {
     condition: row.trigger_condition,
     table: row.table_name,
     schema: null,
+    // SHOW CREATE TRIGGER without the definer, and without a query per trigger
+    definition: `CREATE TRIGGER ${wrapIdentifier(row.name)} ${row.trigger_timing} ${row.trigger_manipulation} ON ${wrapIdentifier(row.table_name)} FOR EACH ${row.trigger_orientation} ${row.trigger_action}`,
   }))
 }
 
@@ -509,17 +546,19 @@ export async function getTableKeys(conn, database, table) {
 }
 
 
-export function query(conn, queryText) {
+export function query(conn, queryText, params, transaction) {
   let pid = null;
   let canceling = false;
   const cancelable = createCancelablePromise({
     ...errors.CANCELED_BY_USER,
     sqlectronError: 'CANCELED_BY_USER',
   });
+  const messages = [];
 
   return {
+    messages,
     execute() {
-      return runWithConnection(conn, async (connection) => {
+      const run = async (connection) => {
         const connClient = { connection };
 
         const { data: dataPid } = await driverExecuteQuery(connClient, {
@@ -531,10 +570,11 @@ export function query(conn, queryText) {
         try {
           const data = await Promise.race([
             cancelable.wait(),
-            executeQuery(connClient, queryText, true),
+            executeQuery(connClient, queryText, true, params),
           ]);
 
           pid = null;
+          messages.push(...await getWarnings(connClient, data.length - 1));
           return data;
         } catch (err) {
           if (canceling && err.code === mysqlErrors.CONNECTION_LOST) {
@@ -551,7 +591,8 @@ export function query(conn, queryText) {
         } finally {
           cancelable.discard();
         }
-      });
+      };
+      return transaction ? run(transaction) : runWithConnection(conn, run);
     },
 
     async cancel() {
@@ -684,8 +725,10 @@ export async function deleteRows(cli, deletes) {
   return true
 }
 
-export async function executeQuery(conn, queryText, rowsAsArray = false) {
-  const { fields, data } = await driverExecuteQuery(conn, { query: queryText, params: {}, rowsAsArray });
+export async function executeQuery(conn, queryText, rowsAsArray = false, params = undefined) {
+  // mysql2 fills in ? for every statement in one go, so no need to split them
+  const bound = params ? bindParams(queryText, params, 'positional') : { query: queryText, params: {} }
+  const { fields, data } = await driverExecuteQuery(conn, { ...bound, rowsAsArray });
   if (!data) {
     return [];
   }
@@ -699,6 +742,170 @@ export async function executeQuery(conn, queryText, rowsAsArray = false) {
   return data.map((_, idx) => parseRowQueryResult(data[idx], fields[idx], commands[idx], rowsAsArray));
 }
 
+// mysql only keeps the warnings of the last statement
+async function getWarnings(conn, statement) {
+  const { data } = await driverExecuteQuery(conn, { query: 'SHOW WARNINGS' });
+  const time = new Date();
+  return (data || []).map((row) => ({
+    time,
+    level: row.Level,
+    message: `${row.Message} (${row.Code})`,
+    statement: Math.max(statement, 0),
+  }));
+}
+
+export async function explainQuery(conn, queryText) {
+  const { data } = await driverExecuteQuery(conn, { query: `EXPLAIN FORMAT=JSON ${explainableQuery(queryText)}` })
+  return parseMysqlPlan(Object.values(data[0] || {})[0])
+}
+
+
+export async function listSessions(conn) {
+  return await runWithConnection(conn, async (connection) => {
+    const { data } = await driverExecuteQuery({ connection }, { query: 'SHOW FULL PROCESSLIST' })
+    return data.map((row) => ({
+      id: row.Id,
+      user: row.User,
+      database: row.db,
+      client: row.Host,
+      application: null,
+      state: row.Command,
+      duration: row.Time,
+      query: row.Info,
+      // eg 'Waiting for table metadata lock'
+      waiting: row.State || null,
+      current: row.Id === connection.threadId,
+    }))
+  })
+}
+
+export async function listBlockingSessions(conn, version) {
+  // mysql 8 moved lock waits to performance_schema, mariadb never did
+  const waitsSql = version.isMySql && version.version >= 8 ? `
+    SELECT
+      r.PROCESSLIST_ID AS waiting_id, b.PROCESSLIST_ID AS blocking_id,
+      CONCAT(l.LOCK_MODE, ' on ', l.OBJECT_SCHEMA, '.', l.OBJECT_NAME) AS lock_name
+    FROM performance_schema.data_lock_waits w
+    JOIN performance_schema.threads r ON r.THREAD_ID = w.REQUESTING_THREAD_ID
+    JOIN performance_schema.threads b ON b.THREAD_ID = w.BLOCKING_THREAD_ID
+    JOIN performance_schema.data_locks l ON l.ENGINE_LOCK_ID = w.REQUESTING_ENGINE_LOCK_ID
+  ` : `
+    SELECT
+      r.trx_mysql_thread_id AS waiting_id, b.trx_mysql_thread_id AS blocking_id,
+      CONCAT(l.lock_mode, ' on ', l.lock_table) AS lock_name
+    FROM information_schema.innodb_lock_waits w
+    JOIN information_schema.innodb_trx r ON r.trx_id = w.requesting_trx_id
+    JOIN information_schema.innodb_trx b ON b.trx_id = w.blocking_trx_id
+    JOIN information_schema.innodb_locks l ON l.lock_id = w.requested_lock_id
+  `
+  const { data: waits } = await driverExecuteQuery(conn, { query: waitsSql })
+  if (!waits.length) return []
+
+  const { data: processes } = await driverExecuteQuery(conn, {
+    query: 'SELECT ID, USER, COMMAND, TIME, INFO FROM information_schema.PROCESSLIST'
+  })
+  const sessions = new Map()
+  waits.forEach((wait) => [wait.waiting_id, wait.blocking_id].forEach((id) => {
+    if (sessions.has(id)) return
+    const process = processes.find((p) => p.ID === id) || {}
+    sessions.set(id, {
+      id,
+      user: process.USER || null,
+      state: process.COMMAND || null,
+      duration: process.TIME ?? null,
+      query: process.INFO || null,
+      lock: null,
+      blockedBy: [],
+    })
+  }))
+  waits.forEach((wait) => {
+    const session = sessions.get(wait.waiting_id)
+    session.lock = session.lock || wait.lock_name
+    if (!session.blockedBy.includes(wait.blocking_id)) session.blockedBy.push(wait.blocking_id)
+  })
+  return Array.from(sessions.values())
+}
+
+export async function listRoles(conn) {
+  const sql = `
+    SELECT User, Host, Super_priv, Create_priv, Create_user_priv
+    FROM mysql.user
+    ORDER BY User, Host
+  `
+  const { data } = await driverExecuteQuery(conn, { query: sql })
+  return data.map((row) => ({
+    name: row.User,
+    host: row.Host,
+    // mysql users can always log in, unless their account is locked
+    login: true,
+    superuser: row.Super_priv === 'Y',
+    createDb: row.Create_priv === 'Y',
+    createRole: row.Create_user_priv === 'Y',
+  }))
+}
+
+export async function listGrants(conn, role, host) {
+  // the grantee is written 'user'@'host'
+  const grantee = new MysqlRoleBuilder().roleName({ name: role, host })
+  const sql = `
+    SELECT TABLE_SCHEMA AS schema_name, TABLE_NAME AS table_name, PRIVILEGE_TYPE, IS_GRANTABLE
+    FROM information_schema.TABLE_PRIVILEGES
+    WHERE GRANTEE = ?
+    UNION ALL
+    SELECT TABLE_SCHEMA, NULL, PRIVILEGE_TYPE, IS_GRANTABLE
+    FROM information_schema.SCHEMA_PRIVILEGES
+    WHERE GRANTEE = ?
+  `
+  const { data } = await driverExecuteQuery(conn, { query: sql, params: [grantee, grantee] })
+  return data.map((row) => ({
+    schema: row.schema_name,
+    table: row.table_name,
+    privilege: row.PRIVILEGE_TYPE,
+    grantable: row.IS_GRANTABLE === 'YES',
+  }))
+}
+
+export function createRoleSql(spec) {
+  return new MysqlRoleBuilder().createRole(spec)
+}
+
+export async function createRole(conn, spec) {
+  await driverExecuteQuery(conn, { query: createRoleSql(spec) })
+}
+
+export function alterRoleSql(spec) {
+  return new MysqlRoleBuilder().alterRole(spec)
+}
+
+// user changes commit straight away, a transaction wouldn't roll them back
+export async function alterRole(conn, spec) {
+  const query = alterRoleSql(spec)
+  if (query) await driverExecuteQuery(conn, { query })
+}
+
+export function grantSql(grants) {
+  return new MysqlRoleBuilder().grant(grants)
+}
+
+export async function grant(conn, grants) {
+  const query = grantSql(grants)
+  if (query) await driverExecuteQuery(conn, { query })
+}
+
+export function revokeSql(grants) {
+  return new MysqlRoleBuilder().revoke(grants)
+}
+
+export async function revoke(conn, grants) {
+  const query = revokeSql(grants)
+  if (query) await driverExecuteQuery(conn, { query })
+}
+
+export async function killSession(conn, id, queryOnly) {
+  const sql = `KILL ${queryOnly ? 'QUERY ' : ''}${Number(id)}`
+  await driverExecuteQuery(conn, { query: sql })
+}
+
 
 export async function listDatabases(conn, filter) {
   const sql = 'show databases';
@@ -1034,6 +1241,38 @@ function driverExecuteQuery(conn, queryArgs) {
     : runWithConnection(conn, runQuery);
 }
 
+// connections pinned to query tabs that have a manual transaction open
+export async function startTransaction(conn, transactions, tabId) {
+  if (transactions.has(tabId)) return;
+  const connection = await new Promise((resolve, reject) => {
+    conn.pool.getConnection((err, connection) => err ? reject(err) : resolve(connection));
+  });
+
+  connection.on('error', (error) => {
+    // it will be handled by the next query in the transaction
+    logger().error('Transaction connection fatal error %j', error);
+  });
+
+  try {
+    await driverExecuteQuery({ connection }, { query: 'START TRANSACTION' });
+  } catch (err) {
+    connection.release();
+    throw err;
+  }
+  transactions.set(tabId, connection);
+}
+
+export async function endTransaction(transactions, tabId, command) {
+  const connection = transactions.get(tabId);
+  if (!connection) throw new Error('There is no open transaction for this tab');
+  try {
+    await driverExecuteQuery({ connection }, { query: command });
+  } finally {
+    transactions.delete(tabId);
+    connection.release();
+  }
+}
+
 async function runWithConnection({ pool }, run) {
   let rejected = false;
   return new Promise((resolve, reject) => {
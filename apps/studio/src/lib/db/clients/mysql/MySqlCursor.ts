@@ -40,6 +40,7 @@ export class MysqlCursor extends BeeCursor {
         if (err) reject(err)
         connection.release
         const q = connection.query({ sql: this.query, values: this.params, rowsAsArray: true })
+        q.on('fields', this.handleFields.bind(this))
         q.on('result', this.handleRow.bind(this) )
         q.on('end', this.handleEnd.bind(this) )
         q.on('error', this.handleError.bind(this))
@@ -50,6 +51,10 @@ export class MysqlCursor extends BeeCursor {
     return promise
   }
 
+  private handleFields(fields: { name: string }[]) {
+    this.columnNames = fields.map((f) => f.name)
+  }
+
   private handleRow(row: any) {
     this.rowBuffer.push(row)
     if (this.rowBuffer.length >= this.chunkSize) {
@@ -11,7 +11,7 @@ import logRaw from 'electron-log'
 
 import { DatabaseClient, IDbConnectionServerConfig, DatabaseElement } from '../client'
 import { AWSCredentials, ClusterCredentialConfiguration, RedshiftCredentialResolver } from '../authentication/amazon-redshift';
-import { FilterOptions, OrderBy, TableFilter, TableUpdateResult, TableResult, Routine, TableChanges, TableInsert, TableUpdate, TableDelete, DatabaseFilterOptions, SchemaFilterOptions, NgQueryResult, StreamResults, ExtendedTableColumn, PrimaryKeyColumn, TableIndex, IndexedColumn, } from "../models";
+import { FilterOptions, OrderBy, TableFilter, TableUpdateResult, TableResult, Routine, TableChanges, TableInsert, TableUpdate, TableDelete, DatabaseFilterOptions, SchemaFilterOptions, NgQueryResult, QueryMessage, ServerSession, BlockingSession, DatabaseRole, RoleGrant, StreamResults, ExtendedTableColumn, PrimaryKeyColumn, TableIndex, IndexedColumn, } from "../models";
 import { buildDatabseFilter, buildDeleteQueries, buildInsertQuery, buildInsertQueries, buildSchemaFilter, buildSelectQueriesFromUpdates, buildUpdateQueries, escapeString, joinQueries, applyChangesSql } from './utils';
 import { createCancelablePromise, joinFilters } from '../../../common/utils';
 import { errors } from '../../errors';
@@ -19,9 +19,15 @@ import globals from '../../../common/globals';
 import { HasPool, VersionInfo, HasConnection, Conn } from './postgresql/types'
 import { PsqlCursor } from './postgresql/PsqlCursor';
 import { PostgresqlChangeBuilder } from '@shared/lib/sql/change_builder/PostgresqlChangeBuilder';
-import { AlterPartitionsSpec, AlterTableSpec, IndexAlterations, RelationAlterations, TableKey } from '@shared/lib/dialects/models';
+import { AlterPartitionsSpec, AlterRoleSpec, AlterTableSpec, GrantSpec, IndexAlterations, RelationAlterations, RoleSpec, TableKey } from '@shared/lib/dialects/models';
 import { RedshiftChangeBuilder } from '@shared/lib/sql/change_builder/RedshiftChangeBuilder';
+import { PostgresqlRoleBuilder } from '@shared/lib/sql/role_builder/PostgresqlRoleBuilder';
 import { PostgresData } from '@shared/lib/dialects/postgresql';
+import { bindStatements, QueryParams } from '../params';
+import { QueryPlan } from '../../explain/models';
+import { explainableQuery } from '../../explain/plan';
+import { parsePostgresPlan } from '../../explain/postgresql';
+import { parseCockroachPlan } from '../../explain/cockroach';
 
 
 const base64 = require('base64-url'); // eslint-disable-line
@@ -151,6 +157,7 @@ export default async function (server: any, database: any): Promise<DatabaseClie
   const conn: HasPool = {
     pool: new pg.Pool(dbConfig),
   };
+  const transactions: Transactions = new Map()
 
   logger().debug('connected');
   const defaultSchema: string = await getSchema(conn);
@@ -160,8 +167,8 @@ export default async function (server: any, database: any): Promise<DatabaseClie
   const version = await getVersion(conn)
 
   const features = version.isRedshift ?
-    { customRoutines: true, comments: false, properties: false, partitions: false, editPartitions: false } :
-    { customRoutines: true, comments: true, properties: true, partitions: version.hasPartitions, editPartitions: version.number >= 100000}
+    { customRoutines: true, comments: false, properties: false, partitions: false, editPartitions: false, explain: false, explainAnalyze: false, transactions: true, streaming: false, activity: true, cancelActivity: true, locks: false, roles: false } :
+    { customRoutines: true, comments: true, properties: true, partitions: version.hasPartitions, editPartitions: version.number >= 100000, explain: canExplain(version), explainAnalyze: canExplain(version), transactions: true, streaming: true, activity: true, cancelActivity: true, locks: version.isPostgres && version.number >= 90600, roles: version.isPostgres && version.number >= 90300 }
 
 
   return {
@@ -170,7 +177,7 @@ export default async function (server: any, database: any): Promise<DatabaseClie
     versionString: () => getVersionString(version),
     wrapIdentifier,
     defaultSchema: () => defaultSchema,
-    disconnect: () => disconnect(conn),
+    disconnect: () => disconnect(conn, transactions),
     listTables: (_db: string, filter: FilterOptions | undefined) => listTables(conn, filter),
     listViews: (filter?: FilterOptions) => listViews(conn, filter),
     listMaterializedViews: (filter?: FilterOptions) => listMaterializedViews(conn, filter),
@@ -186,8 +193,26 @@ export default async function (server: any, database: any): Promise<DatabaseClie
     getPrimaryKey: (db, table, schema = defaultSchema) => getPrimaryKey(conn, db, table, schema),
     getPrimaryKeys: (db, table, schema = defaultSchema) => getPrimaryKeys(conn, db, table, schema),
     applyChanges: (changes) => applyChanges(conn, changes),
-    query: (queryText, schema = defaultSchema) => query(conn, queryText, schema),
-    executeQuery: (queryText, _schema = defaultSchema) => executeQuery(conn, queryText),
+    query: (queryText, params, tabId) => query(conn, queryText, params, transactions.get(tabId)),
+    executeQuery: (queryText, params) => executeQuery(conn, queryText, false, params),
+    explainQuery: (queryText, analyze) => explainQuery(conn, queryText, analyze, version),
+    startTransaction: (tabId) => startTransaction(conn, transactions, tabId),
+    commitTransaction: (tabId) => endTransaction(transactions, tabId, 'COMMIT'),
+    rollbackTransaction: (tabId) => endTransaction(transactions, tabId, 'ROLLBACK'),
+    listSessions: () => listSessions(conn, version),
+    cancelSession: (id) => cancelSession(conn, version, id),
+    terminateSession: (id) => terminateSession(conn, version, id),
+    listBlockingSessions: () => listBlockingSessions(conn),
+    listRoles: () => listRoles(conn),
+    listGrants: (role: string) => listGrants(conn, role),
+    createRoleSql: (spec: RoleSpec) => createRoleSql(spec),
+    createRole: (spec: RoleSpec) => createRole(conn, spec),
+    alterRoleSql: (spec: AlterRoleSpec) => alterRoleSql(spec),
+    alterRole: (spec: AlterRoleSpec) => alterRole(conn, spec),
+    grantSql: (grants: GrantSpec[]) => grantSql(grants),
+    grant: (grants: GrantSpec[]) => grant(conn, grants),
+    revokeSql: (grants: GrantSpec[]) => revokeSql(grants),
+    revoke: (grants: GrantSpec[]) => revoke(conn, grants),
     listDatabases: (filter?: DatabaseFilterOptions) => listDatabases(conn, filter),
     getTableLength: (table: string, schema: string) => getTableLength(conn, table, schema),
     selectTop: (table: string, offset: number, limit: number, orderBy: OrderBy[], filters: TableFilter[] | string, schema: string = defaultSchema, selects: string[] = ['*']) => selectTop(conn, table, offset, limit, orderBy, filters, schema, selects),
@@ -236,7 +261,10 @@ export default async function (server: any, database: any): Promise<DatabaseClie
 }
 
 
-export function disconnect(conn: HasPool) {
+export function disconnect(conn: HasPool, transactions?: Transactions) {
+  // closing the connection rolls back anything left uncommitted
+  transactions?.forEach((connection) => connection.release(true))
+  transactions?.clear()
   conn.pool.end();
 }
 
@@ -750,7 +778,12 @@ export async function listTableTriggers(conn: HasPool, table: string, schema: st
       ${timing_column} as timing,
       event_manipulation as manipulation,
       action_statement as action,
-      action_condition as condition
+      action_condition as condition,
+      pg_get_triggerdef((
+        SELECT t.oid FROM pg_catalog.pg_trigger t
+        WHERE t.tgname = trigger_name
+        AND t.tgrelid = format('%I.%I', event_object_schema, event_object_table)::regclass
+      )) as definition
     FROM information_schema.triggers
     WHERE event_object_schema = $1
     AND event_object_table = $2
@@ -769,7 +802,8 @@ export async function listTableTriggers(conn: HasPool, table: string, schema: st
     action: row.action,
     condition: row.condition,
     table: table,
-    schema: schema
+    schema: schema,
+    definition: row.definition
   }));
 }
 
@@ -1254,14 +1288,16 @@ async function deleteRows(cli: any, deletes: TableDelete[]) {
   return true
 }
 
-export function query(conn: Conn, queryText: string, _schema: string) {
+export function query(conn: Conn, queryText: string, params?: QueryParams, transaction?: PoolClient) {
   let pid: any = null;
   let canceling = false;
   const cancelable = createCancelablePromise(errors.CANCELED_BY_USER);
+  const messages: QueryMessage[] = []
 
   return {
+    messages,
     execute(): Promise<NgQueryResult[]> {
-      return runWithConnection(conn, async (connection) => {
+      const run = async (connection: PoolClient) => {
         const connClient = { connection };
 
         const dataPid = await driverExecuteSingle(connClient, {
@@ -1271,10 +1307,20 @@ export function query(conn: Conn, queryText: string, _schema: string) {
 
         pid = rows[0].pid;
 
+        // notices arrive before their statement completes, so counting
+        // completions tells us which statement sent each one
+        let statement = 0
+        const onNotice = (notice) => {
+          messages.push({ time: new Date(), level: notice.severity, message: notice.message, statement })
+        }
+        const onCommandComplete = () => statement++
+        connection.on('notice', onNotice)
+        connection['connection'].on('commandComplete', onCommandComplete)
+
         try {
           const data = await Promise.race([
             cancelable.wait(),
-            executeQuery(connClient, queryText, true),
+            executeQuery(connClient, queryText, true, params),
           ]);
 
           pid = null;
@@ -1292,9 +1338,12 @@ export function query(conn: Conn, queryText: string, _schema: string) {
 
           throw err;
         } finally {
+          connection.off('notice', onNotice)
+          connection['connection'].off('commandComplete', onCommandComplete)
           cancelable.discard();
         }
-      });
+      }
+      return transaction ? run(transaction) : runWithConnection(conn, run)
     },
 
     async cancel(): Promise<void> {
@@ -1323,7 +1372,9 @@ export function query(conn: Conn, queryText: string, _schema: string) {
   };
 }
 
-export async function executeQuery(conn: Conn, queryText: string, arrayMode = false) {
+export async function executeQuery(conn: Conn, queryText: string, arrayMode = false, params?: QueryParams) {
+  if (params) return await executeBoundQuery(conn, queryText, arrayMode, params)
+
   const data = await driverExecuteQuery(conn, { query: queryText, multiple: true, arrayMode });
 
   const commands = identifyCommands(queryText).map((item) => item.type);
@@ -1331,6 +1382,246 @@ export async function executeQuery(conn: Conn, queryText: string, arrayMode = fa
   return data.map((result, idx) => parseRowQueryResult(result, commands[idx], arrayMode));
 }
 
+// postgres won't take parameters for more than one statement at a time
+async function executeBoundQuery(conn: Conn, queryText: string, arrayMode: boolean, params: QueryParams) {
+  const identified = identifyCommands(queryText)
+  const statements: { text: string, type?: string }[] = identified.length ? identified : [{ text: queryText }]
+  const bound = bindStatements(statements.map((s) => s.text), params, 'numbered')
+
+  // every statement on the same connection, in order
+  const run = async (connection: PoolClient) => {
+    const cli = { connection }
+    const results = []
+    for (let idx = 0; idx < bound.length; idx++) {
+      const data = await driverExecuteSingle(cli, { ...bound[idx], arrayMode })
+      results.push(parseRowQueryResult(data, statements[idx].type, arrayMode))
+    }
+    return results
+  }
+  return isConnection(conn) ? await run(conn.connection) : await runWithConnection(conn, run)
+}
+
+// cockroach has no FORMAT JSON, its text tree only looks like this since 21.1
+function canExplain(version: VersionInfo): boolean {
+  return version.isPostgres || (version.isCockroach && version.number >= 210100)
+}
+
+export async function explainQuery(conn: Conn, queryText: string, analyze = false, version?: VersionInfo): Promise<QueryPlan> {
+  const cockroach = version?.isCockroach
+  const options = cockroach ? '' : analyze ? '(FORMAT JSON, ANALYZE) ' : '(FORMAT JSON) '
+  const sql = cockroach && analyze ?
+    `EXPLAIN ANALYZE ${explainableQuery(queryText)}` :
+    `EXPLAIN ${options}${explainableQuery(queryText)}`
+  // ANALYZE really runs the statement, so roll back whatever it changed
+  return await runWithConnection(conn, async (connection) => {
+    const cli = { connection }
+    await driverExecuteSingle(cli, { query: 'BEGIN' })
+    try {
+      const data = await driverExecuteSingle(cli, { query: sql })
+      if (cockroach) return parseCockroachPlan(data.rows.map((row) => row.info), analyze)
+      return parsePostgresPlan(Object.values(data.rows[0] || {})[0], analyze)
+    } finally {
+      await driverExecuteSingle(cli, { query: 'ROLLBACK' })
+    }
+  })
+}
+
+
+export async function listSessions(conn: Conn, version: VersionInfo): Promise<ServerSession[]> {
+  let sql
+  if (version.isCockroach) {
+    // cockroach's pg_stat_activity is empty, and it cancels by session id rather than pid
+    sql = `
+      SELECT
+        s.session_id AS id, s.user_name, NULL AS database_name, s.client_address AS client,
+        s.application_name, COALESCE(q.phase, 'idle') AS state,
+        EXTRACT(EPOCH FROM (now() - COALESCE(q.start, s.session_start)))::float AS duration,
+        COALESCE(q.query, s.last_active_query) AS query, NULL AS waiting, false AS current
+      FROM crdb_internal.cluster_sessions s
+      LEFT JOIN crdb_internal.cluster_queries q ON q.session_id = s.session_id
+      ORDER BY q.start
+    `
+  } else if (version.isRedshift) {
+    sql = `
+      SELECT
+        s.process AS id, TRIM(s.user_name) AS user_name, TRIM(s.db_name) AS database_name,
+        NULL AS client, NULL AS application_name, COALESCE(TRIM(r.status), 'Idle') AS state,
+        r.duration / 1000000.0 AS duration, r.query, NULL AS waiting,
+        s.process = pg_backend_pid() AS current
+      FROM stv_sessions s
+      LEFT JOIN stv_recents r ON r.pid = s.process AND r.status = 'Running'
+      ORDER BY r.starttime
+    `
+  } else {
+    const waiting = version.number >= 90600 ?
+      `NULLIF(CONCAT_WS(': ', wait_event_type, wait_event), '')` :
+      `CASE WHEN waiting THEN 'waiting' END`
+    sql = `
+      SELECT
+        pid AS id, usename AS user_name, datname AS database_name,
+        COALESCE(client_hostname, host(client_addr)) AS client, application_name, state,
+        EXTRACT(EPOCH FROM (now() - CASE WHEN state = 'active' THEN query_start ELSE state_change END))::float AS duration,
+        query, ${waiting} AS waiting, pid = pg_backend_pid() AS current
+      FROM pg_stat_activity
+      ${version.number >= 100000 ? "WHERE backend_type = 'client backend'" : ''}
+      ORDER BY query_start NULLS LAST
+    `
+  }
+  const data = await driverExecuteSingle(conn, { query: sql })
+  return data.rows.map((row) => ({
+    id: row.id,
+    user: row.user_name,
+    database: row.database_name,
+    client: row.client,
+    application: row.application_name || null,
+    state: row.state,
+    duration: row.duration === null ? null : Number(row.duration),
+    query: row.query,
+    waiting: row.waiting,
+    current: !!row.current,
+  }))
+}
+
+export async function cancelSession(conn: Conn, version: VersionInfo, id: string | number): Promise<void> {
+  if (version.isCockroach) {
+    await driverExecuteSingle(conn, {
+      query: 'CANCEL QUERIES IF EXISTS SELECT query_id FROM crdb_internal.cluster_queries WHERE session_id = $1',
+      params: [id]
+    })
+  } else {
+    await signalBackend(conn, 'pg_cancel_backend', id)
+  }
+}
+
+export async function terminateSession(conn: Conn, version: VersionInfo, id: string | number): Promise<void> {
+  if (version.isCockroach) {
+    await driverExecuteSingle(conn, { query: 'CANCEL SESSION IF EXISTS $1', params: [id] })
+  } else {
+    await signalBackend(conn, 'pg_terminate_backend', id)
+  }
+}
+
+export async function listBlockingSessions(conn: Conn): Promise<BlockingSession[]> {
+  // everyone waiting on a lock, and everyone they're waiting on
+  const sql = `
+    WITH blocked AS (
+      SELECT pid, pg_blocking_pids(pid) AS blocked_by
+      FROM pg_stat_activity
+      WHERE cardinality(pg_blocking_pids(pid)) > 0
+    )
+    SELECT
+      a.pid AS id, a.usename AS user_name, a.state,
+      EXTRACT(EPOCH FROM (now() - a.query_start))::float AS duration, a.query,
+      (
+        SELECT l.mode || ' on ' || COALESCE(l.relation::regclass::text, l.locktype)
+        FROM pg_locks l
+        WHERE l.pid = a.pid AND NOT l.granted
+        LIMIT 1
+      ) AS lock,
+      COALESCE(b.blocked_by, '{}') AS blocked_by
+    FROM pg_stat_activity a
+    LEFT JOIN blocked b ON b.pid = a.pid
+    WHERE b.pid IS NOT NULL OR a.pid IN (SELECT unnest(blocked_by) FROM blocked)
+    ORDER BY a.query_start
+  `
+  const data = await driverExecuteSingle(conn, { query: sql })
+  return data.rows.map((row) => ({
+    id: row.id,
+    user: row.user_name,
+    state: row.state,
+    duration: row.duration === null ? null : Number(row.duration),
+    query: row.query,
+    lock: row.lock,
+    blockedBy: row.blocked_by,
+  }))
+}
+
+export async function listRoles(conn: Conn): Promise<DatabaseRole[]> {
+  const sql = `
+    SELECT rolname, rolcanlogin, rolsuper, rolcreatedb, rolcreaterole
+    FROM pg_roles
+    WHERE rolname !~ '^pg_'
+    ORDER BY rolname
+  `
+  const data = await driverExecuteSingle(conn, { query: sql })
+  return data.rows.map((row) => ({
+    name: row.rolname,
+    login: row.rolcanlogin,
+    superuser: row.rolsuper,
+    createDb: row.rolcreatedb,
+    createRole: row.rolcreaterole,
+  }))
+}
+
+export async function listGrants(conn: Conn, role: string): Promise<RoleGrant[]> {
+  // information_schema only shows grants the current user is part of, the acls show everyone's.
+  // Owners don't show up until their privileges are changed, they're implied until then.
+  const sql = `
+    SELECT n.nspname AS schema_name, c.relname AS table_name, a.privilege_type, a.is_grantable
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    CROSS JOIN LATERAL aclexplode(c.relacl) a
+    JOIN pg_roles r ON r.oid = a.grantee
+    WHERE r.rolname = $1 AND c.relkind IN ('r', 'v', 'm', 'f', 'p')
+    UNION ALL
+    SELECT n.nspname, NULL, a.privilege_type, a.is_grantable
+    FROM pg_namespace n
+    CROSS JOIN LATERAL aclexplode(n.nspacl) a
+    JOIN pg_roles r ON r.oid = a.grantee
+    WHERE r.rolname = $1
+  `
+  const data = await driverExecuteSingle(conn, { query: sql, params: [role] })
+  return data.rows.map((row) => ({
+    schema: row.schema_name,
+    table: row.table_name,
+    privilege: row.privilege_type,
+    grantable: row.is_grantable,
+  }))
+}
+
+export function createRoleSql(spec: RoleSpec): string {
+  return new PostgresqlRoleBuilder().createRole(spec)
+}
+
+export async function createRole(conn: Conn, spec: RoleSpec): Promise<void> {
+  await executeWithTransaction(conn, { query: createRoleSql(spec) })
+}
+
+export function alterRoleSql(spec: AlterRoleSpec): string | null {
+  return new PostgresqlRoleBuilder().alterRole(spec)
+}
+
+export async function alterRole(conn: Conn, spec: AlterRoleSpec): Promise<void> {
+  const query = alterRoleSql(spec)
+  if (query) await executeWithTransaction(conn, { query })
+}
+
+export function grantSql(grants: GrantSpec[]): string | null {
+  return new PostgresqlRoleBuilder().grant(grants)
+}
+
+export async function grant(conn: Conn, grants: GrantSpec[]): Promise<void> {
+  const query = grantSql(grants)
+  if (query) await executeWithTransaction(conn, { query })
+}
+
+export function revokeSql(grants: GrantSpec[]): string | null {
+  return new PostgresqlRoleBuilder().revoke(grants)
+}
+
+export async function revoke(conn: Conn, grants: GrantSpec[]): Promise<void> {
+  const query = revokeSql(grants)
+  if (query) await executeWithTransaction(conn, { query })
+}
+
+async function signalBackend(conn: Conn, fn: string, pid: string | number) {
+  const data = await driverExecuteSingle(conn, { query: `SELECT ${fn}($1) AS signalled`, params: [pid] })
+  // false means there's no such backend, permission problems throw
+  if (!data.rows[0]?.signalled) {
+    throw new Error(`Session ${pid} isn't running any more`)
+  }
+}
+
 
 export async function listDatabases(conn: Conn, filter?: DatabaseFilterOptions) {
   const databaseFilter = buildDatabseFilter(filter, 'datname');
@@ -1646,14 +1937,21 @@ export function duplicateTableSql(tableName: string,  duplicateTableName: string
 
 async function configDatabase(server: { sshTunnel: boolean, config: IDbConnectionServerConfig}, database: { database: string}) {
 
-  let optionsString = undefined
+  const startupOptions = []
   if (server.config.client === 'cockroachdb') {
     const cluster = server.config.options?.cluster || undefined
     if (cluster) {
-      optionsString = `--cluster=${cluster}`
+      startupOptions.push(`--cluster=${cluster}`)
     }
   }
 
+  // every session starts read only, so even a plain query can't write.
+  // Redshift doesn't accept startup options, DBConnection checks queries instead
+  if (server.config.readOnlyMode && server.config.client !== 'redshift') {
+    startupOptions.push('-c default_transaction_read_only=on')
+  }
+  const optionsString = startupOptions.length ? startupOptions.join(' ') : undefined
+
   // If a temporary user is used to connect to the database, we populate it below.
   let tempUser: string;
 
@@ -1843,6 +2141,32 @@ function driverExecuteQuery(conn: Conn | HasConnection, queryArgs: PostgresQuery
   }
 }
 
+// connections pinned to query tabs that have a manual transaction open
+type Transactions = Map<number, PoolClient>
+
+export async function startTransaction(conn: HasPool, transactions: Transactions, tabId: number) {
+  if (transactions.has(tabId)) return
+  const connection = await conn.pool.connect()
+  try {
+    await driverExecuteSingle({ connection }, { query: 'BEGIN' })
+  } catch (ex) {
+    connection.release()
+    throw ex
+  }
+  transactions.set(tabId, connection)
+}
+
+export async function endTransaction(transactions: Transactions, tabId: number, command: 'COMMIT' | 'ROLLBACK') {
+  const connection = transactions.get(tabId)
+  if (!connection) throw new Error('There is no open transaction for this tab')
+  try {
+    await driverExecuteSingle({ connection }, { query: command })
+  } finally {
+    transactions.delete(tabId)
+    connection.release()
+  }
+}
+
 async function runWithConnection<T>(x: Conn, run: (p: PoolClient) => Promise<T>): Promise<T> {
   const connection: PoolClient = isConnection(x) ? x.connection : await x.pool.connect()
   try {
@@ -49,6 +49,8 @@ export class PsqlCursor extends BeeCursor {
           if (err) {
             reject(err.message)
           } else {
+            // pg-cursor doesn't expose the fields, but keeps them here
+            this.columnNames = this.cursor['_result']?.fields?.map((f) => f.name)
             resolve(rows)
           }
         })
@@ -12,6 +12,9 @@ import { SqliteCursor } from './sqlite/SqliteCursor';
 import { SqliteChangeBuilder } from '@shared/lib/sql/change_builder/SqliteChangeBuilder';
 import { SqliteData } from '@shared/lib/dialects/sqlite';
 import { ClientError } from '../client';
+import { bindStatements } from '../params';
+import { explainableQuery } from '../../explain/plan';
+import { parseSqlitePlan } from '../../explain/sqlite';
 import { makeString } from '@/common/utils';
 const log = rawLog.scope('sqlite')
 const logger = () => log
@@ -43,16 +46,17 @@ export default async function (server, database) {
   logger().debug('create driver client for sqlite3 with config %j', dbConfig);
 
   const conn = { dbConfig };
+  const transactions = new Map();
 
   // light solution to test connection with with the server
   const version = await driverExecuteQuery(conn, { query: 'SELECT sqlite_version()' });
 
   return {
-    supportedFeatures: () => ({ customRoutines: false, comments: false, properties: true, partitions: false, editPartitions: false }),
+    supportedFeatures: () => ({ customRoutines: false, comments: false, properties: true, partitions: false, editPartitions: false, explain: true, explainAnalyze: false, transactions: true, streaming: true, activity: false, cancelActivity: false, locks: false, roles: false }),
     versionString: () => getVersionString(version),
     wrapIdentifier,
     defaultSchema: () => null,
-    disconnect: () => disconnect(conn),
+    disconnect: () => disconnect(conn, transactions),
     listTables: () => listTables(conn),
     listViews: () => listViews(conn),
     listMaterializedViews: () => Promise.resolve([]),
@@ -65,9 +69,13 @@ export default async function (server, database) {
     getPrimaryKey: (db, table) => getPrimaryKey(conn, db, table),
     getPrimaryKeys: (db, table) => getPrimaryKeys(conn, db, table),
     getTableKeys: (db, table) => getTableKeys(conn, db, table),
-    query: (queryText) => query(conn, queryText),
+    query: (queryText, params, tabId) => query(conn, queryText, params, transactions.get(tabId)),
     applyChanges: (changes) => applyChanges(conn, changes),
-    executeQuery: (queryText) => executeQuery(conn, queryText),
+    executeQuery: (queryText, params) => executeQuery(conn, queryText, params),
+    explainQuery: (queryText) => explainQuery(conn, queryText),
+    startTransaction: (tabId) => startTransaction(conn, transactions, tabId),
+    commitTransaction: (tabId) => endTransaction(transactions, tabId, 'COMMIT'),
+    rollbackTransaction: (tabId) => endTransaction(transactions, tabId, 'ROLLBACK'),
     listDatabases: () => listDatabases(conn),
     getTableLength: (table) => getTableLength(conn, table),
     selectTop: (table, offset, limit, orderBy, filters, schema, selects) => selectTop(conn, table, offset, limit, orderBy, filters, selects),
@@ -113,11 +121,14 @@ export default async function (server, database) {
 }
 
 
-export function disconnect() {
+export function disconnect(conn, transactions) {
   // SQLite does not have connection poll. So we open and close connections
   // for every query request. This allows multiple request at same time by
   // using a different thread for each connection.
   // This may cause connection limit problem. So we may have to change this at some point.
+  // Only manual transactions keep one open, closing it rolls back what's left uncommitted.
+  transactions?.forEach((db) => db.close());
+  transactions?.clear();
   return Promise.resolve();
 }
 
@@ -195,16 +206,16 @@ export async function queryStream(conn, db, query, chunkSize) {
   }
 }
 
-export function query(conn, queryText) {
+export function query(conn, queryText, params, transaction) {
   let queryConnection = null;
 
   return {
     execute() {
-      return runWithConnection(conn, async (connection) => {
+      const run = async (connection) => {
         try {
           queryConnection = connection;
 
-          const result = await executeQuery({ connection }, queryText);
+          const result = await executeQuery({ connection }, queryText, params);
           return result;
         } catch (err) {
           if (err.code === sqliteErrors.CANCELED) {
@@ -219,7 +230,8 @@ export function query(conn, queryText) {
 
           throw err;
         }
-      });
+      };
+      return transaction ? run(transaction) : runWithConnection(conn, run);
     },
 
     async cancel() {
@@ -333,12 +345,17 @@ export async function deleteRows(cli, deletes) {
   return true
 }
 
-export async function executeQuery(conn, queryText) {
-  const result = await driverExecuteQuery(conn, { query: queryText, multiple: true });
+export async function executeQuery(conn, queryText, params = undefined) {
+  const result = await driverExecuteQuery(conn, { query: queryText, multiple: true, bindParams: params });
 
   return result.map(parseRowQueryResult);
 }
 
+export async function explainQuery(conn, queryText) {
+  const { data } = await driverExecuteQuery(conn, { query: `EXPLAIN QUERY PLAN ${explainableQuery(queryText)}` })
+  return parseSqlitePlan(data)
+}
+
 
 export async function listTables(conn) {
   const sql = `
@@ -427,7 +444,7 @@ export async function listTableTriggers(conn, table) {
 
   const { data } = await driverExecuteQuery(conn, { query: sql });
 
-  return data
+  return data.map((row) => ({ ...row, table, definition: row.sql }))
 }
 
 export async function listTableIndexes(conn, database, table) {
@@ -636,6 +653,8 @@ export async function alterRelation(conn, payload) {
 function configDatabase(server, database) {
   return {
     database: database.database,
+    // in-memory databases can't be opened read only
+    readonly: !!server.config.readOnlyMode && database.database !== ':memory:',
   };
 }
 
@@ -663,8 +682,7 @@ function identifyCommands(queryText) {
 }
 
 export function driverExecuteQuery(conn, queryArgs) {
-  const runQuery = (connection, { text }) => new Promise((resolve, reject) => {
-    const params = queryArgs.params || []
+  const runQuery = (connection, text, params = queryArgs.params || []) => new Promise((resolve, reject) => {
     log.info(text, params)
     const statement = connection.prepare(text)
 
@@ -684,13 +702,19 @@ export function driverExecuteQuery(conn, queryArgs) {
 
   const identifyStatementsRunQuery = async (connection) => {
     const statements = identifyCommands(queryArgs.query);
+    // each statement only gets the values for its own placeholders
+    const bound = queryArgs.bindParams ?
+      bindStatements(statements.map((s) => s.text), queryArgs.bindParams, 'positional') :
+      null
 
     const results = []
 
     // we do it this way to ensure the queries are run IN ORDER
     for (let index = 0; index < statements.length; index++) {
       const statement = statements[index];
-      const r = await runQuery(connection, statement)
+      const r = bound ?
+        await runQuery(connection, bound[index].query, bound[index].params) :
+        await runQuery(connection, statement.text)
       results.push({ ...r, statement })
     }
 
@@ -702,16 +726,45 @@ export function driverExecuteQuery(conn, queryArgs) {
     : runWithConnection(conn, identifyStatementsRunQuery);
 }
 
+function openDatabase(conn) {
+  const db = new Database(conn.dbConfig.database, { readonly: conn.dbConfig.readonly })
+
+  // Fix (part 1 of 2) Issue #1399 - int64s not displaying properly
+  // Binds ALL better-sqlite3 integer columns as BigInts by default
+  // https://github.com/WiseLibs/better-sqlite3/blob/master/docs/integer.md#getting-bigints-from-the-database
+  // (Part 2 of 2 is in apps/studio/src/common/initializers/big_int_initializer.ts)
+  db.defaultSafeIntegers(true);
+  return db
+}
+
+// databases kept open for query tabs that have a manual transaction open
+export async function startTransaction(conn, transactions, tabId) {
+  if (transactions.has(tabId)) return
+  const db = openDatabase(conn)
+  try {
+    await driverExecuteQuery({ connection: db }, { query: 'BEGIN' })
+  } catch (err) {
+    db.close()
+    throw err
+  }
+  transactions.set(tabId, db)
+}
+
+export async function endTransaction(transactions, tabId, command) {
+  const db = transactions.get(tabId)
+  if (!db) throw new Error('There is no open transaction for this tab')
+  try {
+    await driverExecuteQuery({ connection: db }, { query: command })
+  } finally {
+    transactions.delete(tabId)
+    db.close()
+  }
+}
+
 async function runWithConnection(conn, run) {
   let db
   try {
-    db = new Database(conn.dbConfig.database)
-
-    // Fix (part 1 of 2) Issue #1399 - int64s not displaying properly
-    // Binds ALL better-sqlite3 integer columns as BigInts by default
-    // https://github.com/WiseLibs/better-sqlite3/blob/master/docs/integer.md#getting-bigints-from-the-database
-    // (Part 2 of 2 is in apps/studio/src/common/initializers/big_int_initializer.ts)
-    db.defaultSafeIntegers(true);
+    db = openDatabase(conn)
 
     const results = await run(db)
     return results
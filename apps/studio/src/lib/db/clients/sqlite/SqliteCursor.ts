@@ -21,6 +21,9 @@ export class SqliteCursor extends BeeCursor {
     this.database = new Sqlite(conn.dbConfig.database)
     this.statement = this.database.prepare(this.query)
     this.statement.raw(true);
+    if (this.statement.reader) {
+      this.columnNames = this.statement.columns().map((c) => c.name)
+    }
   }
 
   async start(): Promise<void> {
@@ -24,7 +24,11 @@ import logRaw from 'electron-log'
 import { SqlServerCursor } from './sqlserver/SqlServerCursor';
 import { SqlServerData } from '@shared/lib/dialects/sqlserver';
 import { SqlServerChangeBuilder } from '@shared/lib/sql/change_builder/SqlServerChangeBuilder';
+import { SqlServerRoleBuilder } from '@shared/lib/sql/role_builder/SqlServerRoleBuilder';
 import { joinFilters } from '@/common/utils';
+import { bindParams } from '../params';
+import { statementAtLine } from '../sql_tools';
+import { parseSqlServerPlan } from '../../explain/sqlserver';
 const log = logRaw.scope('sql-server')
 
 const logger = () => log;
@@ -51,7 +55,7 @@ export default async function (server, database) {
   const version = await getVersion(conn);
 
   return {
-    supportedFeatures: () => ({ customRoutines: true, comments: true, properties: true, partitions: false, editPartitions: false }),
+    supportedFeatures: () => ({ customRoutines: true, comments: true, properties: true, partitions: false, editPartitions: false, explain: true, explainAnalyze: false, transactions: false, streaming: true, activity: true, cancelActivity: false, locks: true, roles: true }),
     versionString: () => getVersionString(version),
     wrapIdentifier,
     defaultSchema: () => 'dbo',
@@ -70,14 +74,28 @@ export default async function (server, database) {
     getPrimaryKeys: (db, table, schema) => getPrimaryKeys(conn, db, table, schema),
     applyChangesSql: (changes) => applyChangesSql(changes, knex),
     applyChanges: (changes) => applyChanges(conn, changes),
-    query: (queryText) => query(conn, queryText),
-    executeQuery: (queryText) => executeQuery(conn, queryText),
+    query: (queryText, params) => query(conn, queryText, params),
+    executeQuery: (queryText, params) => executeQuery(conn, queryText, false, params),
+    explainQuery: (queryText) => explainQuery(conn, queryText),
+    listSessions: () => listSessions(conn),
+    terminateSession: (id) => terminateSession(conn, id),
+    listBlockingSessions: () => listBlockingSessions(conn),
+    listRoles: () => listRoles(conn),
+    listGrants: (role) => listGrants(conn, role),
+    createRoleSql: (spec) => createRoleSql(spec),
+    createRole: (spec) => createRole(conn, spec),
+    alterRoleSql: (spec) => alterRoleSql(spec),
+    alterRole: (spec) => alterRole(conn, spec),
+    grantSql: (grants) => grantSql(grants),
+    grant: (grants) => grant(conn, grants),
+    revokeSql: (grants) => revokeSql(grants),
+    revoke: (grants) => revoke(conn, grants),
     listDatabases: (filter) => listDatabases(conn, filter),
     getTableLength: (table, schema) => getTableLength(conn, table, schema),
     selectTop: (table, offset, limit, orderBy, filters, schema, selects) => selectTop(conn, table, offset, limit, orderBy, filters, schema, selects),
     selectTopStream: (db, table, orderBy, filters, chunkSize, schema) => selectTopStream(conn, db, table, orderBy, filters, chunkSize, schema),
     selectTopSql: (table, offset, limit, orderBy, filters, schema, selects) => selectTopSql(conn, table, offset, limit, orderBy, filters, schema, selects),
-    queryStream: (db, query, chunkSize) => selectTopStream(conn, db, query, chunkSize),
+    queryStream: (db, query, chunkSize) => queryStream(conn, db, query, chunkSize),
     getInsertQuery: (tableInsert) => getInsertQuery(conn, database.database, tableInsert),
     getQuerySelectTop: (table, limit) => getQuerySelectTop(conn, table, limit),
     getTableCreateScript: (table) => getTableCreateScript(conn, table),
@@ -296,8 +314,7 @@ export async function selectTopSql(
     : genSelectOld(table, offset, limit, orderBy, filters, schema, selects);
 }
 
-export async function queryStream(conn, db, query, orderBy, filters, chunkSize, schema, selects = ['*']) {
-  const version = await getVersion(conn);
+export async function queryStream(conn, _db, query, chunkSize) {
   return {
     cursor: new SqlServerCursor(conn, query, chunkSize)
   }
@@ -323,18 +340,23 @@ export function getQuerySelectTop(client, table, limit) {
   return `SELECT TOP ${limit} * FROM ${wrapIdentifier(table)}`;
 }
 
-export function query(conn, queryText) {
+export function query(conn, queryText, params) {
   let queryRequest = null;
+  const bound = params ? bindParams(queryText, params, 'named') : { query: queryText, params: [] }
+  const messages = [];
 
   return {
+    messages,
     execute() {
       return runWithConnection(conn, async (connection) => {
         const request = connection.request();
         request.multiple = true;
         request.arrayRowMode = true
+        addInputs(request, bound.params)
+        request.on('info', (info) => messages.push(parseInfoMessage(info, bound.query)))
 
         try {
-          const promiseQuery = request.query(queryText);
+          const promiseQuery = request.query(bound.query);
 
           queryRequest = request;
 
@@ -368,8 +390,9 @@ export function query(conn, queryText) {
 }
 
 
-export async function executeQuery(conn, queryText, arrayRowMode = false) {
-  const { data, rowsAffected } = await driverExecuteQuery(conn, { query: queryText, multiple: true }, arrayRowMode);
+export async function executeQuery(conn, queryText, arrayRowMode = false, params = undefined) {
+  const bound = params ? bindParams(queryText, params, 'named') : { query: queryText }
+  const { data, rowsAffected } = await driverExecuteQuery(conn, { ...bound, multiple: true }, arrayRowMode);
 
   const commands = identifyCommands(queryText).map((item) => item.type);
 
@@ -380,6 +403,193 @@ export async function executeQuery(conn, queryText, arrayRowMode = false) {
   return results.map((_, idx) => parseRowQueryResult(results[idx], rowsAffected, commands[idx], arrayRowMode));
 }
 
+export async function listSessions(conn) {
+  const sql = `
+    SELECT
+      s.session_id, s.login_name, DB_NAME(COALESCE(r.database_id, s.database_id)) AS database_name,
+      s.host_name, s.program_name, COALESCE(r.status, s.status) AS status,
+      DATEDIFF(MILLISECOND, COALESCE(r.start_time, s.last_request_end_time), GETDATE()) / 1000.0 AS duration,
+      t.text AS query, r.wait_type, r.wait_time, r.blocking_session_id,
+      CASE WHEN s.session_id = @@SPID THEN 1 ELSE 0 END AS is_current
+    FROM sys.dm_exec_sessions s
+    LEFT JOIN sys.dm_exec_requests r ON r.session_id = s.session_id
+    OUTER APPLY sys.dm_exec_sql_text(r.sql_handle) t
+    WHERE s.is_user_process = 1
+    ORDER BY r.start_time DESC
+  `
+  const { data } = await driverExecuteQuery(conn, { query: sql })
+  return data.recordset.map((row) => {
+    const waits = []
+    if (row.wait_type) waits.push(`${row.wait_type} (${row.wait_time} ms)`)
+    if (row.blocking_session_id) waits.push(`blocked by ${row.blocking_session_id}`)
+    return {
+      id: row.session_id,
+      user: row.login_name,
+      database: row.database_name,
+      client: row.host_name,
+      application: row.program_name,
+      state: row.status,
+      duration: row.duration === null ? null : Number(row.duration),
+      query: row.query,
+      waiting: waits.join(', ') || null,
+      current: !!row.is_current,
+    }
+  })
+}
+
+export async function listBlockingSessions(conn) {
+  // blocked requests, the sessions blocking them, and the lock each one is after
+  const sql = `
+    WITH blocked AS (
+      SELECT session_id, blocking_session_id
+      FROM sys.dm_exec_requests
+      WHERE blocking_session_id > 0
+    )
+    SELECT
+      s.session_id, s.login_name, COALESCE(r.status, s.status) AS status,
+      DATEDIFF(MILLISECOND, COALESCE(r.start_time, s.last_request_start_time), GETDATE()) / 1000.0 AS duration,
+      t.text AS query, b.blocking_session_id,
+      (
+        SELECT TOP 1 CONCAT(l.request_mode, ' on ',
+          CASE WHEN l.resource_type = 'OBJECT'
+            THEN OBJECT_NAME(l.resource_associated_entity_id, l.resource_database_id)
+            ELSE l.resource_type END)
+        FROM sys.dm_tran_locks l
+        WHERE l.request_session_id = s.session_id AND l.request_status = 'WAIT'
+      ) AS lock_name
+    FROM sys.dm_exec_sessions s
+    LEFT JOIN sys.dm_exec_requests r ON r.session_id = s.session_id
+    LEFT JOIN blocked b ON b.session_id = s.session_id
+    LEFT JOIN sys.dm_exec_connections c ON c.session_id = s.session_id
+    OUTER APPLY sys.dm_exec_sql_text(COALESCE(r.sql_handle, c.most_recent_sql_handle)) t
+    WHERE b.session_id IS NOT NULL
+      OR s.session_id IN (SELECT blocking_session_id FROM blocked)
+    ORDER BY r.start_time
+  `
+  const { data } = await driverExecuteQuery(conn, { query: sql })
+  return data.recordset.map((row) => ({
+    id: row.session_id,
+    user: row.login_name,
+    state: row.status,
+    duration: row.duration === null ? null : Number(row.duration),
+    query: row.query,
+    lock: row.lock_name,
+    blockedBy: row.blocking_session_id ? [row.blocking_session_id] : [],
+  }))
+}
+
+export async function listRoles(conn) {
+  // principals up to 4 are dbo, guest, INFORMATION_SCHEMA and sys
+  const sql = `
+    SELECT
+      p.name, p.type,
+      COALESCE(IS_SRVROLEMEMBER('sysadmin', sp.name), 0) AS is_sysadmin
+    FROM sys.database_principals p
+    LEFT JOIN sys.server_principals sp ON sp.sid = p.sid
+    WHERE p.principal_id > 4 AND p.is_fixed_role = 0 AND p.name NOT LIKE '##%'
+      AND p.type IN ('S', 'U', 'G', 'E', 'X', 'R')
+    ORDER BY p.name
+  `
+  const { data } = await driverExecuteQuery(conn, { query: sql })
+  return data.recordset.map((row) => ({
+    name: row.name,
+    login: row.type !== 'R',
+    superuser: !!row.is_sysadmin,
+    createDb: false,
+    createRole: false,
+  }))
+}
+
+export async function listGrants(conn, role) {
+  // class 1 is an object, 3 a schema. W is granted WITH GRANT OPTION
+  const sql = `
+    SELECT
+      COALESCE(os.name, s.name) AS schema_name, o.name AS table_name,
+      dp.permission_name, dp.state
+    FROM sys.database_permissions dp
+    JOIN sys.database_principals p ON p.principal_id = dp.grantee_principal_id
+    LEFT JOIN sys.objects o ON dp.class = 1 AND o.object_id = dp.major_id
+    LEFT JOIN sys.schemas os ON os.schema_id = o.schema_id
+    LEFT JOIN sys.schemas s ON dp.class = 3 AND s.schema_id = dp.major_id
+    WHERE p.name = ${D.escapeString(role, true)}
+      AND dp.class IN (1, 3) AND dp.minor_id = 0 AND dp.state IN ('G', 'W')
+  `
+  const { data } = await driverExecuteQuery(conn, { query: sql })
+  return data.recordset.map((row) => ({
+    schema: row.schema_name,
+    table: row.table_name,
+    privilege: row.permission_name,
+    grantable: row.state === 'W',
+  }))
+}
+
+export function createRoleSql(spec) {
+  return new SqlServerRoleBuilder().createRole(spec)
+}
+
+// logins are server wide, so they're left out of a transaction
+export async function createRole(conn, spec) {
+  await driverExecuteQuery(conn, { query: createRoleSql(spec) })
+}
+
+export function alterRoleSql(spec) {
+  return new SqlServerRoleBuilder().alterRole(spec)
+}
+
+export async function alterRole(conn, spec) {
+  const query = alterRoleSql(spec)
+  if (query) await driverExecuteQuery(conn, { query })
+}
+
+export function grantSql(grants) {
+  return new SqlServerRoleBuilder().grant(grants)
+}
+
+export async function grant(conn, grants) {
+  const query = grantSql(grants)
+  if (query) await executeWithTransaction(conn, { query })
+}
+
+export function revokeSql(grants) {
+  return new SqlServerRoleBuilder().revoke(grants)
+}
+
+export async function revoke(conn, grants) {
+  const query = revokeSql(grants)
+  if (query) await executeWithTransaction(conn, { query })
+}
+
+// KILL can't take a parameter, and there's no way to only stop the query
+export async function terminateSession(conn, id) {
+  const sessionId = Number(id)
+  if (!Number.isInteger(sessionId)) throw new Error(`Invalid session id ${id}`)
+  await driverExecuteQuery(conn, { query: `KILL ${sessionId}` })
+}
+
+export async function explainQuery(conn, queryText) {
+  // SHOWPLAN_XML is per session and has to be alone in its batch,
+  // the transaction is only there to keep every batch on the same connection
+  const run = async (connection) => {
+    const transaction = connection.transaction()
+    await transaction.begin()
+    try {
+      await transaction.request().batch('SET SHOWPLAN_XML ON')
+      try {
+        const data = await transaction.request().batch(queryText)
+        return parseSqlServerPlan(Object.values((data.recordset || [])[0] || {})[0])
+      } finally {
+        await transaction.request().batch('SET SHOWPLAN_XML OFF')
+      }
+    } finally {
+      await transaction.rollback()
+    }
+  }
+
+  return conn.connection
+    ? run(conn.connection)
+    : runWithConnection(conn, run);
+}
+
 
 async function getSchema(conn) {
   const sql = 'SELECT schema_name() AS \'schema\'';
@@ -543,6 +753,14 @@ export async function listTableTriggers(conn, table, schema) {
 
   const { data } = await driverExecuteQuery(conn, { query: sql });
 
+  const definitionSql = `
+    SELECT name, OBJECT_DEFINITION(object_id) as definition
+    FROM sys.triggers
+    WHERE parent_id = OBJECT_ID(QUOTENAME('${escapeString(schema)}') + '.' + QUOTENAME('${escapeString(table)}'))
+  `;
+  const definitions = await driverExecuteQuery(conn, { query: definitionSql });
+  const byName = _.keyBy(definitions.data.recordset, 'name');
+
   return data.recordset.map((row) => {
     const update = row.isupdate === 1 ? 'UPDATE' : null
     const del = row.isdelete === 1 ? 'DELETE' : null
@@ -557,8 +775,8 @@ export async function listTableTriggers(conn, table, schema) {
       manipulation: manips,
       action: null,
       condition: null,
-      table, schema
-
+      table, schema,
+      definition: _.get(byName, [row.trigger_name, 'definition'])
     }
   })
 }
@@ -1142,6 +1360,20 @@ function parseRowQueryResult(data, rowsAffected, command, columns, arrayRowMode
 }
 
 
+// PRINT, RAISERROR with a low severity and the like
+function parseInfoMessage(info, queryText) {
+  // inside a procedure the line is in the procedure, not the query
+  if (info.procName) {
+    return { time: new Date(), level: 'INFO', message: `${info.procName}, line ${info.lineNumber}: ${info.message}` };
+  }
+  return {
+    time: new Date(),
+    level: 'INFO',
+    message: info.message,
+    statement: statementAtLine(queryText, identifyCommands(queryText), info.lineNumber),
+  };
+}
+
 function identifyCommands(queryText) {
   try {
     return identify(queryText);
@@ -1150,11 +1382,17 @@ function identifyCommands(queryText) {
   }
 }
 
+// bindParams names them @p1, @p2...
+function addInputs(request, params = []) {
+  params.forEach((value, idx) => request.input(`p${idx + 1}`, value))
+}
+
 export async function driverExecuteQuery(conn, queryArgs, arrayRowMode = false) {
   logger().info('RUNNING', queryArgs)
   const runQuery = async (connection) => {
     const request = connection.request();
     request.arrayRowMode = arrayRowMode
+    addInputs(request, queryArgs.params)
     const data = await request.query(queryArgs.query)
     const rowsAffected = _.sum(data.rowsAffected);
     return { request, data, rowsAffected };
@@ -41,8 +41,9 @@ export class SqlServerCursor extends BeeCursor {
     request.query(this.query);
   }
 
-  private handleRecordset() {
-    // TODO: implement
+  private handleRecordset(columns: any) {
+    // an array in arrayRowMode, keyed by name otherwise
+    this.columnNames = Array.isArray(columns) ? columns.map((c) => c.name) : Object.keys(columns)
   }
 
   private handleEnd() {
@@ -0,0 +1,89 @@
+import { BlockingSession } from './models'
+
+export interface BlockingNode {
+  session: BlockingSession
+  // the sessions waiting on this one
+  children: BlockingNode[]
+}
+
+export interface BlockingRow {
+  session: BlockingSession
+  depth: number
+  // holds others up without waiting on anyone itself
+  root: boolean
+  // how many sessions are stuck behind this one, directly or not
+  blocking: number
+}
+
+/**
+ * Arranges sessions into trees of who is blocking whom, with the sessions
+ * holding everyone else up as the roots. A deadlock has no such session, so
+ * the first session of the cycle stands in for one.
+ */
+export function blockingTree(sessions: BlockingSession[]): BlockingNode[] {
+  const byId = new Map<string, BlockingSession>()
+  sessions.forEach((session) => byId.set(String(session.id), session))
+  // a blocker can be missing from the list, eg a session we can't see
+  sessions.forEach((session) => session.blockedBy.forEach((id) => {
+    if (!byId.has(String(id))) byId.set(String(id), placeholder(id))
+  }))
+
+  const waiters = new Map<string, BlockingSession[]>()
+  byId.forEach((session) => session.blockedBy.forEach((id) => {
+    const key = String(id)
+    waiters.set(key, [...(waiters.get(key) || []), session])
+  }))
+
+  const reached = new Set<string>()
+  const build = (session: BlockingSession, path: Set<string>): BlockingNode => {
+    const key = String(session.id)
+    reached.add(key)
+    const nextPath = new Set(path).add(key)
+    const children = (waiters.get(key) || [])
+      .filter((waiter) => !nextPath.has(String(waiter.id)))
+      .map((waiter) => build(waiter, nextPath))
+    return { session, children }
+  }
+
+  const all = Array.from(byId.values())
+  const roots = all.filter((session) => !session.blockedBy.length)
+    .map((session) => build(session, new Set()))
+    .filter((node) => node.children.length)
+  all.forEach((session) => {
+    if (!reached.has(String(session.id)) && session.blockedBy.length) {
+      roots.push(build(session, new Set()))
+    }
+  })
+  return roots.sort((a, b) => countBlocked(b) - countBlocked(a))
+}
+
+/** The tree as table rows, each session followed by the ones waiting on it */
+export function blockingRows(tree: BlockingNode[]): BlockingRow[] {
+  const rows: BlockingRow[] = []
+  const visit = (node: BlockingNode, depth: number) => {
+    rows.push({
+      session: node.session,
+      depth,
+      root: depth === 0 && !node.session.blockedBy.length,
+      blocking: countBlocked(node),
+    })
+    node.children.forEach((child) => visit(child, depth + 1))
+  }
+  tree.forEach((node) => visit(node, 0))
+  return rows
+}
+
+function countBlocked(node: BlockingNode): number {
+  const ids = new Set<string>()
+  const visit = (n: BlockingNode) => n.children.forEach((child) => {
+    ids.add(String(child.session.id))
+    visit(child)
+  })
+  visit(node)
+  ids.delete(String(node.session.id))
+  return ids.size
+}
+
+function placeholder(id: string | number): BlockingSession {
+  return { id, user: null, state: null, duration: null, query: null, lock: null, blockedBy: [] }
+}
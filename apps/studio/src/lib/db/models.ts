@@ -1,6 +1,9 @@
 import { SchemaItem, TableKey } from "@shared/lib/dialects/models";
 
 export abstract class BeeCursor {
+  // names of the result columns, known once the first rows are read
+  columnNames?: string[]
+
   constructor(public chunkSize: number) {
 
   }
@@ -54,6 +57,8 @@ export interface TableTrigger {
   condition: string | null
   table: string
   schema?: string
+  // the CREATE TRIGGER statement as the server reports it
+  definition?: string
 }
 
 export interface TablePartition {
@@ -207,6 +212,19 @@ export interface SupportedFeatures {
   properties: boolean;
   partitions: boolean;
   editPartitions: boolean;
+  explain: boolean;
+  explainAnalyze: boolean;
+  transactions: boolean;
+  // the query editor can read big results a page at a time with queryStream
+  streaming: boolean;
+  // list and terminate sessions on the server
+  activity: boolean;
+  // stop a session's query but leave it connected
+  cancelActivity: boolean;
+  // show which sessions are waiting on another's locks
+  locks: boolean;
+  // list and edit roles and their grants
+  roles: boolean;
 }
 
 export interface FieldDescriptor {
@@ -225,7 +243,68 @@ export interface NgQueryResult {
 
 export type QueryResult = NgQueryResult[];
 
+// a NOTICE, PRINT, warning or similar sent by the server while a query runs
+export interface QueryMessage {
+  time: Date;
+  // whatever the database calls it, eg NOTICE, WARNING, INFO
+  level: string;
+  message: string;
+  // index of the statement that sent it, if the database says
+  statement?: number;
+}
+
+// a connection to the server, as shown in the activity monitor
+export interface ServerSession {
+  // pid, process or session id, whatever the database uses to cancel it
+  id: string | number;
+  user: Nullable<string>;
+  database: Nullable<string>;
+  client: Nullable<string>;
+  application: Nullable<string>;
+  state: Nullable<string>;
+  // seconds the current query has been running, or the session idle
+  duration: Nullable<number>;
+  query: Nullable<string>;
+  // what it's waiting on, if anything
+  waiting: Nullable<string>;
+  // the connection that read the activity
+  current: boolean;
+}
+
+export interface BlockingSession {
+  id: string | number;
+  user: Nullable<string>;
+  state: Nullable<string>;
+  // seconds the current query has been running
+  duration: Nullable<number>;
+  query: Nullable<string>;
+  // the lock it's waiting for, eg `RowExclusiveLock on public.users`
+  lock: Nullable<string>;
+  // the sessions holding it up, empty if it's only blocking others
+  blockedBy: (string | number)[];
+}
+
+export interface DatabaseRole {
+  name: string;
+  // mysql users belong to a host
+  host?: string;
+  login: boolean;
+  superuser: boolean;
+  createDb: boolean;
+  createRole: boolean;
+}
+
+export interface RoleGrant {
+  schema: string;
+  // null for privileges on the whole schema
+  table: Nullable<string>;
+  privilege: string;
+  grantable: boolean;
+}
+
 export interface CancelableQuery {
   execute: () => Promise<QueryResult>;
   cancel: () => Promise<void>;
+  // filled in while the query runs, for clients that support it
+  messages?: QueryMessage[];
 }
@@ -0,0 +1,187 @@
+import _ from 'lodash'
+
+export type QueryParamType = 'string' | 'number' | 'date' | 'null' | 'list'
+
+// what the user typed for a parameter, kept with saved queries
+export interface QueryParamInput {
+  type: QueryParamType
+  value: string
+}
+
+/**
+ * Values for a query's placeholders.
+ * An array fills `?` in order and `$1`, `$2`... by number.
+ * An object is keyed by placeholder, with or without its prefix (`:id` or `id`).
+ * Array values are expanded into a list, eg for `IN (:ids)`.
+ */
+export type QueryParams = any[] | Record<string, any>
+
+// how the driver wants placeholders: $1 (pg), ? (mysql, sqlite...) or @p1 (sql server)
+export type ParamStyle = 'numbered' | 'positional' | 'named'
+
+export interface BoundStatement {
+  query: string
+  // in placeholder order, `@p1` is params[0]
+  params: any[]
+}
+
+export const QueryParamTypes: { label: string, value: QueryParamType }[] = [
+  { label: 'Text', value: 'string' },
+  { label: 'Number', value: 'number' },
+  { label: 'Date', value: 'date' },
+  { label: 'Null', value: 'null' },
+  { label: 'List', value: 'list' },
+]
+
+const datePattern = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/
+
+function listItem(item: string): string | number {
+  const quoted = item.match(/^'(.*)'$/) || item.match(/^"(.*)"$/)
+  if (quoted) return quoted[1]
+  return item !== '' && !isNaN(Number(item)) ? Number(item) : item
+}
+
+/** A message explaining why the input can't be used, or null if it's fine. */
+export function paramError(input?: QueryParamInput): string | null {
+  if (!input) return 'A value is required'
+  const value = (input.value || '').trim()
+  switch (input.type) {
+    case 'null':
+      return null
+    case 'string':
+      return null
+    case 'number':
+      return value && !isNaN(Number(value)) ? null : 'Not a number'
+    case 'date':
+      return datePattern.test(value) && !isNaN(Date.parse(value)) ? null : 'Use YYYY-MM-DD or YYYY-MM-DD HH:MM:SS'
+    case 'list':
+      return value ? null : 'Separate values with commas'
+    default:
+      return 'Unknown type'
+  }
+}
+
+/**
+ * Turns user input into the value to bind. Dates stay as text so the
+ * database reads them in its own timezone rather than ours.
+ */
+export function coerceParam(input: QueryParamInput): any {
+  const error = paramError(input)
+  if (error) throw new Error(error)
+  const value = input.value || ''
+  switch (input.type) {
+    case 'null':
+      return null
+    case 'number':
+      return Number(value.trim())
+    case 'date':
+      return value.trim().replace('T', ' ')
+    case 'list':
+      return value.split(',').map((v) => v.trim()).filter((v) => v !== '').map(listItem)
+    default:
+      return value
+  }
+}
+
+function lookup(params: QueryParams, token: string, positional: { index: number }): { found: boolean, value?: any } {
+  if (_.isArray(params)) {
+    if (token === '?') {
+      return positional.index < params.length ?
+        { found: true, value: params[positional.index++] } :
+        { found: false }
+    }
+    const numbered = token.match(/^\$(\d+)$/)
+    const idx = numbered ? Number(numbered[1]) - 1 : -1
+    return idx >= 0 && idx < params.length ? { found: true, value: params[idx] } : { found: false }
+  }
+  for (const key of [token, token.substring(1)]) {
+    if (key && Object.prototype.hasOwnProperty.call(params, key)) {
+      return { found: true, value: params[key] }
+    }
+  }
+  return { found: false }
+}
+
+function bind(text: string, params: QueryParams, style: ParamStyle, positional: { index: number }): BoundStatement {
+  const values: any[] = []
+  const placeholder = (value: any) => {
+    values.push(value)
+    if (style === 'numbered') return `$${values.length}`
+    if (style === 'named') return `@p${values.length}`
+    return '?'
+  }
+
+  let result = ''
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+    const rest = text.substring(i)
+    let skip = 0
+
+    // strings, identifiers and comments are copied as they are
+    if (char === "'" || char === '"' || char === '`') {
+      let end = i + 1
+      while (end < text.length) {
+        if (text[end] === char && text[end + 1] === char) end += 2
+        else if (text[end] === char) break
+        else end++
+      }
+      skip = end + 1 - i
+    } else if (rest.startsWith('--')) {
+      const end = text.indexOf('\n', i)
+      skip = (end === -1 ? text.length : end) - i
+    } else if (rest.startsWith('/*')) {
+      const end = text.indexOf('*/', i + 2)
+      skip = (end === -1 ? text.length : end + 2) - i
+    } else if (char === '$') {
+      // postgres dollar quoting, $$ ... $$ or $tag$ ... $tag$
+      const tag = rest.match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/)
+      if (tag) {
+        const end = text.indexOf(tag[0], i + tag[0].length)
+        skip = (end === -1 ? text.length : end + tag[0].length) - i
+      }
+    }
+    if (skip) {
+      result += text.substring(i, i + skip)
+      i += skip
+      continue
+    }
+
+    // `::int` casts and `@@version` are not placeholders
+    const previous = i > 0 ? text[i - 1] : ''
+    const token = /[\w:@$]/.test(previous) ? null : rest.match(/^(\?|[:@$][A-Za-z0-9_]+)/)
+    if (token) {
+      const { found, value } = lookup(params, token[0], positional)
+      if (found) {
+        if (_.isArray(value)) {
+          // an empty IN () is a syntax error, IN (NULL) matches nothing
+          result += value.length ? value.map(placeholder).join(', ') : 'NULL'
+        } else {
+          result += placeholder(value)
+        }
+      } else {
+        result += token[0]
+      }
+      i += token[0].length
+      continue
+    }
+
+    result += char
+    i++
+  }
+  return { query: result, params: values }
+}
+
+/**
+ * Rewrites placeholders into the driver's own style, one statement at a time,
+ * so every statement gets only the values it uses. `?` values carry on from
+ * one statement to the next.
+ */
+export function bindStatements(statements: string[], params: QueryParams, style: ParamStyle): BoundStatement[] {
+  const positional = { index: 0 }
+  return statements.map((statement) => bind(statement, params, style, positional))
+}
+
+export function bindParams(queryText: string, params: QueryParams, style: ParamStyle): BoundStatement {
+  return bindStatements([queryText], params, style)[0]
+}
@@ -0,0 +1,84 @@
+import type { IDbClients } from './client'
+
+// socket and driver codes for a connection that has gone away
+const ConnectionLostCodes = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENETDOWN',
+  'EAI_AGAIN',
+  // mysql
+  'PROTOCOL_CONNECTION_LOST',
+  'PROTOCOL_SEQUENCE_TIMEOUT',
+  // tedious
+  'ESOCKET',
+  'ECONNCLOSED',
+  'EINVALIDSTATE',
+  // postgres: admin shutdown and the connection exceptions
+  '57P01',
+  '57P02',
+  '57P03',
+  '08000',
+  '08001',
+  '08003',
+  '08006',
+]
+
+// some drivers only say so in the message
+const ConnectionLostMessages = [
+  /connection terminated/i,
+  /connection (is )?closed/i,
+  /connection lost/i,
+  /not queryable/i,
+  /closed state/i,
+  /socket hang up/i,
+  /read ECONNRESET/i,
+  /server has gone away/i,
+  /cannot enqueue .* after fatal error/i,
+]
+
+// only network databases need a ping, files and http apis can't drop
+const HealthCheckQueries: Partial<Record<IDbClients, string>> = {
+  postgresql: 'SELECT 1',
+  cockroachdb: 'SELECT 1',
+  redshift: 'SELECT 1',
+  mysql: 'SELECT 1',
+  mariadb: 'SELECT 1',
+  sqlserver: 'SELECT 1',
+  cassandra: 'SELECT release_version FROM system.local',
+}
+
+export const MaxReconnectAttempts = 6
+export const HealthCheckInterval = 30 * 1000
+export const HealthCheckTimeout = 10 * 1000
+
+/** Whether an error means the connection itself is gone, rather than the query being wrong */
+export function isConnectionLost(error: any): boolean {
+  if (!error) return false
+  const codes = [error.code, error.errno, error.originalError?.code, error.cause?.code]
+  if (codes.some((code) => ConnectionLostCodes.includes(code))) return true
+  const message = error.message || String(error)
+  return ConnectionLostMessages.some((pattern) => pattern.test(message))
+}
+
+/** How long to wait before a reconnect attempt, doubling from a second up to 30 */
+export function reconnectDelay(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, 30 * 1000)
+}
+
+export function healthCheckQuery(client: IDbClients): string | null {
+  return HealthCheckQueries[client] || null
+}
+
+/** Rejects if the promise takes longer than `ms`, a dead socket can hang forever */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
@@ -1,7 +1,8 @@
 import _ from 'lodash'
 import { identify } from 'sql-query-identifier'
+import { CreateRelationSpec, TableKey } from '@shared/lib/dialects/models'
 import { EntityFilter } from '@/store/models'
-import { RoutineTypeNames } from "./models"
+import { RoutineTypeNames, TableTrigger } from "./models"
 
 export function splitQueries(queryText: string, dialect) {
   if(_.isEmpty(queryText.trim())) {
@@ -11,6 +12,115 @@ export function splitQueries(queryText: string, dialect) {
   return result
 }
 
+export interface DangerousStatement {
+  text: string
+  reason: string
+}
+
+// strings and comments can't hide or fake a WHERE
+const STATEMENT_TOKEN = /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^']|'')*'?|"(?:[^"]|"")*"?|`(?:[^`]|``)*`?|\[[^\]]*\]?|[\w$]+|\S/g
+
+function statementWords(text: string): string[] {
+  return (text.match(STATEMENT_TOKEN) || []).filter((t) => !/^(--|\/\*|'|")/.test(t))
+}
+
+// a WHERE inside a subquery doesn't limit the rows of the statement itself
+function hasTopLevelWord(words: string[], keyword: string): boolean {
+  let depth = 0
+  return words.some((word) => {
+    if (word === '(') depth++
+    if (word === ')') depth--
+    return depth === 0 && word.toLowerCase() === keyword
+  })
+}
+
+function statementVerb(statement, words: string[]): string {
+  const type = statement.type === 'UNKNOWN' ? words[0] : statement.type.split('_')[0]
+  return (type || '').toUpperCase()
+}
+
+/**
+ * Statements that lose data or change structure: DELETE and UPDATE without a
+ * WHERE, and any DROP, TRUNCATE or ALTER.
+ */
+export function findDangerousStatements(queryText: string, dialect): DangerousStatement[] {
+  return splitQueries(queryText, dialect).flatMap((statement) => {
+    const words = statementWords(statement.text)
+    const verb = statementVerb(statement, words)
+    const object = statement.type === 'UNKNOWN' ? words[1] : statement.type.split('_')[1]
+    const text = statement.text.trim()
+    if (['DELETE', 'UPDATE'].includes(verb) && !hasTopLevelWord(words, 'where')) {
+      const reason = verb === 'DELETE' ? 'deletes every row' : 'updates every row'
+      return [{ text, reason: `${verb} without WHERE ${reason}` }]
+    }
+    if (['DROP', 'TRUNCATE', 'ALTER'].includes(verb)) {
+      // TRUNCATE only ever empties tables, the word after it is the name
+      const target = verb !== 'TRUNCATE' && object && /^[a-z]+$/i.test(object) ? ` ${object.toUpperCase()}` : ''
+      return [{ text, reason: `${verb}${target}` }]
+    }
+    return []
+  })
+}
+
+// FROM tbl and SUMMARIZE are duckdb, PRAGMA (without a value) and VALUES are sqlite too
+const READ_VERBS = ['SELECT', 'SHOW', 'EXPLAIN', 'DESCRIBE', 'DESC', 'VALUES', 'TABLE', 'FROM', 'SUMMARIZE', 'PRAGMA']
+
+// WITH d AS (DELETE ...) SELECT, or SELECT ... FOR UPDATE
+const WRITE_WORDS = ['insert', 'update', 'delete', 'merge']
+// eg SELECT set_config('default_transaction_read_only', 'off', false)
+const READ_ONLY_SETTINGS = /\b(default_transaction_read_only|transaction_read_only|tx_read_only)\b/i
+// EXPLAIN ANALYZE runs the statement it explains
+const EXPLAIN_ANALYZE = /^\s*explain\s+(?:analy[sz]e\b|\([^)]*\banaly[sz]e\b[^)]*\))\s*(?:\([^)]*\)\s*|verbose\s+)*([\s\S]*)$/i
+
+// a column called update is fine, a CTE or a lock that writes isn't
+function writesInside(words: string[]): boolean {
+  return words.some((word, idx) => {
+    if (!WRITE_WORDS.includes(word.toLowerCase())) return false
+    const before = (words[idx - 1] || '').toLowerCase()
+    return before === '(' || (word.toLowerCase() === 'update' && ['for', 'key'].includes(before))
+  })
+}
+
+/**
+ * Whether every statement only reads. Anything we don't recognise counts as a
+ * write, and so does SELECT ... INTO, which creates a table or a file. A
+ * SELECT that writes in a CTE or touches the session's read only settings
+ * counts as well, and so does EXPLAIN ANALYZE of a statement that writes.
+ */
+export function isReadOnlyQuery(queryText: string, dialect): boolean {
+  return splitQueries(queryText, dialect).every((statement) => {
+    const words = statementWords(statement.text)
+    const verb = statementVerb(statement, words)
+    const analyzed = verb === 'EXPLAIN' && EXPLAIN_ANALYZE.exec(statement.text)
+    if (analyzed) return isReadOnlyQuery(analyzed[1], dialect)
+    if (verb === 'PRAGMA') return !words.includes('=')
+    if (verb !== 'SELECT') return READ_VERBS.includes(verb)
+    return !hasTopLevelWord(words, 'into') &&
+      !writesInside(words) &&
+      !READ_ONLY_SETTINGS.test(statement.text)
+  })
+}
+
+/**
+ * Index of the statement running at a (1 based) line of the query, for
+ * servers that only say which line a message came from.
+ */
+export function statementAtLine(queryText: string, statements: { start: number }[], line: number): number {
+  const startLines = statements.map((s) => queryText.slice(0, s.start).split('\n').length)
+  return Math.max(_.findLastIndex(startLines, (startLine) => startLine <= line), 0)
+}
+
+/**
+ * The statements that recreate these triggers, taken from the server's own
+ * definitions. Postgres lists a trigger once per event, so names are deduped,
+ * and clients that can't give us a definition are skipped.
+ */
+export function triggerCreateScripts(triggers: TableTrigger[]): string[] {
+  return _.uniqBy(triggers, 'name')
+    .map((t) => t.definition?.trim())
+    .filter((d) => !!d)
+}
+
 export function entityFilter(rawTables: any[], allFilters: EntityFilter) {
   const tables = rawTables.filter((table) => {
     return (table.entityType === 'table' && allFilters.showTables && 
@@ -53,3 +163,28 @@ export function removeQueryQuotes(possibleQuery: string, dialect: any): string {
 
   return possibleQuery;
 }
+
+export function relationName(key: TableKey): string {
+  return key.constraintName || `${key.fromColumn}_${key.toTable}_${key.toColumn}`
+}
+
+/**
+ * Clients list multi column foreign keys as one key per column, this puts
+ * the columns of each constraint back together.
+ */
+export function groupRelations(keys: TableKey[]): TableKey[][] {
+  return _.values(_.groupBy(keys, relationName))
+}
+
+export function relationSpec(keys: TableKey[], toSchema?: string): CreateRelationSpec {
+  const [first] = keys
+  return {
+    constraintName: first.constraintName,
+    fromColumn: keys.map((k) => k.fromColumn),
+    toTable: first.toTable,
+    toSchema,
+    toColumn: keys.map((k) => k.toColumn),
+    onUpdate: first.onUpdate,
+    onDelete: first.onDelete,
+  }
+}
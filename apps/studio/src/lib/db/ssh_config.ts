@@ -0,0 +1,181 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+export interface SshConfigEntry {
+  // the patterns after `Host`
+  patterns: string[]
+  options: [string, string][]
+}
+
+export interface SshConfigHost {
+  alias: string
+  host: string
+  port: number | null
+  user: string | null
+  identityFiles: string[]
+  // [user@]host[:port] for each hop, in order
+  proxyJump: string[]
+}
+
+export interface ResolvedJumpHost {
+  host: string
+  port: number | null
+  user: string | null
+  identityFiles: string[]
+}
+
+// a ProxyJump can point at hosts that jump too
+const MaxJumpDepth = 10
+
+export function sshConfigPath(): string {
+  return path.join(os.homedir(), '.ssh', 'config')
+}
+
+/** Reads ~/.ssh/config, an empty config if there isn't one */
+export function readSshConfig(file = sshConfigPath()): SshConfigEntry[] {
+  if (!fs.existsSync(file)) return []
+  return parseSshConfig(fs.readFileSync(file, 'utf-8'))
+}
+
+/**
+ * Parses the `Host` blocks of an ssh config. `Match` blocks can't be
+ * evaluated outside of ssh, so they're skipped, as is `Include`.
+ */
+export function parseSshConfig(text: string): SshConfigEntry[] {
+  const entries: SshConfigEntry[] = []
+  // options before the first Host apply to every host
+  let current: SshConfigEntry | null = { patterns: ['*'], options: [] }
+  entries.push(current)
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) return
+    const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.*)$/)
+    if (!match) return
+    const keyword = match[1].toLowerCase()
+    const value = match[2].trim()
+
+    if (keyword === 'host') {
+      current = { patterns: splitValues(value), options: [] }
+      entries.push(current)
+    } else if (keyword === 'match') {
+      current = null
+    } else if (current) {
+      current.options.push([keyword, unquote(value)])
+    }
+  })
+  return entries.filter((entry) => entry.options.length)
+}
+
+/** The aliases that can be picked for a connection, without wildcards or negations */
+export function sshConfigAliases(entries: SshConfigEntry[]): string[] {
+  const aliases = entries.flatMap((entry) => entry.patterns)
+    .filter((pattern) => !/[*?!]/.test(pattern))
+  return Array.from(new Set(aliases))
+}
+
+/**
+ * Works out where `ssh <alias>` would connect, the same way ssh does: the
+ * first value found for an option wins, except IdentityFile which adds up.
+ */
+export function resolveSshConfigHost(alias: string, entries: SshConfigEntry[]): SshConfigHost {
+  const found: Record<string, string> = {}
+  const identityFiles: string[] = []
+
+  entries.filter((entry) => hostMatches(alias, entry.patterns)).forEach((entry) => {
+    entry.options.forEach(([keyword, value]) => {
+      if (keyword === 'identityfile') {
+        identityFiles.push(value)
+      } else if (found[keyword] === undefined) {
+        found[keyword] = value
+      }
+    })
+  })
+
+  // %h in a HostName is the alias
+  const host = found.hostname ? expandTokens(found.hostname, alias, { ...found, hostname: alias }) : alias
+  const user = found.user || null
+  const proxyJump = !found.proxyjump || found.proxyjump.toLowerCase() === 'none' ?
+    [] : splitValues(found.proxyjump.replace(/,/g, ' '))
+
+  return {
+    alias,
+    host,
+    port: found.port ? Number(found.port) : null,
+    user,
+    identityFiles: identityFiles.map((file) => expandPath(expandTokens(file, alias, { ...found, hostname: host }))),
+    proxyJump,
+  }
+}
+
+/**
+ * Turns a ProxyJump list into the hops to connect through. A hop can be an
+ * alias itself, so it's looked up too, along with anything it jumps through.
+ */
+export function resolveJumpHosts(proxyJump: string[], entries: SshConfigEntry[], depth = 0): ResolvedJumpHost[] {
+  if (depth > MaxJumpDepth) {
+    throw new Error('Too many nested ProxyJump hosts in ~/.ssh/config')
+  }
+  return proxyJump.flatMap((jump) => {
+    const { user, host, port } = parseJump(jump)
+    const resolved = resolveSshConfigHost(host, entries)
+    const hop: ResolvedJumpHost = {
+      host: resolved.host,
+      port: port || resolved.port,
+      user: user || resolved.user,
+      identityFiles: resolved.identityFiles,
+    }
+    return [...resolveJumpHosts(resolved.proxyJump, entries, depth + 1), hop]
+  })
+}
+
+// [user@]host[:port]
+function parseJump(jump: string): { user: string | null, host: string, port: number | null } {
+  const match = jump.replace(/^ssh:\/\//, '').match(/^(?:([^@]+)@)?([^:]+)(?::(\d+))?$/)
+  if (!match) throw new Error(`Can't read ProxyJump host "${jump}"`)
+  return { user: match[1] || null, host: match[2], port: match[3] ? Number(match[3]) : null }
+}
+
+function hostMatches(alias: string, patterns: string[]): boolean {
+  let matched = false
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!')
+    const regex = globToRegex(negated ? pattern.substring(1) : pattern)
+    if (regex.test(alias)) {
+      // any negated match rules the entry out
+      if (negated) return false
+      matched = true
+    }
+  }
+  return matched
+}
+
+function globToRegex(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${escaped}$`, 'i')
+}
+
+function splitValues(value: string): string[] {
+  return (value.match(/"[^"]*"|\S+/g) || []).map(unquote)
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1')
+}
+
+// the tokens that make sense outside of a running ssh
+function expandTokens(value: string, alias: string, found: Record<string, string>): string {
+  return value
+    .replace(/%h/g, found.hostname || alias)
+    .replace(/%n/g, alias)
+    .replace(/%d/g, os.homedir())
+    .replace(/%r/g, found.user || os.userInfo().username)
+    .replace(/%%/g, '%')
+}
+
+function expandPath(file: string): string {
+  return file.startsWith('~/') ? path.join(os.homedir(), file.substring(2)) : file
+}
@@ -0,0 +1,107 @@
+import _ from 'lodash'
+import { BeeCursor, FieldDescriptor, NgQueryResult } from './models'
+
+/**
+ * Reads the rows of a query from a cursor a page at a time, so a huge result
+ * doesn't have to fit in memory. Stops every `maxRows` rows until asked for
+ * more.
+ */
+export class ResultStream {
+  fields: FieldDescriptor[] = []
+  rows: any[] = []
+  done = false
+  private limit: number
+  private reading: Promise<any[]> | null = null
+
+  constructor(private cursor: BeeCursor, private maxRows: number) {
+    this.limit = maxRows
+  }
+
+  /** Starts the query and reads the first page */
+  async start(): Promise<void> {
+    await this.cursor.start()
+    await this.fetch()
+  }
+
+  /** Whether we stopped at the row limit, and there might be more */
+  get paused(): boolean {
+    return !this.done && this.rows.length >= this.limit
+  }
+
+  /** Reads the next page, returns the new rows */
+  fetch(): Promise<any[]> {
+    if (this.done || this.paused) return Promise.resolve([])
+    // scrolling asks for the same page many times
+    if (!this.reading) {
+      this.reading = this.read().finally(() => this.reading = null)
+    }
+    return this.reading
+  }
+
+  /** Carries on for another `maxRows` rows */
+  async fetchMore(): Promise<any[]> {
+    this.limit = this.rows.length + this.maxRows
+    return await this.fetchUntilPaused()
+  }
+
+  /** Reads every row that's left */
+  async fetchAll(): Promise<any[]> {
+    this.limit = Infinity
+    return await this.fetchUntilPaused()
+  }
+
+  async close(): Promise<void> {
+    if (this.done) return
+    this.done = true
+    await this.cursor.close()
+  }
+
+  // so it can be cancelled like any other running query
+  async cancel(): Promise<void> {
+    await this.close()
+  }
+
+  /** What we have so far, as a normal query result */
+  toResult(): NgQueryResult {
+    return {
+      command: 'SELECT',
+      fields: this.fields,
+      rows: this.rows,
+      rowCount: this.rows.length,
+    }
+  }
+
+  private async fetchUntilPaused(): Promise<any[]> {
+    const result = []
+    while (!this.done && !this.paused) {
+      result.push(...await this.fetch())
+    }
+    return result
+  }
+
+  private async read(): Promise<any[]> {
+    const chunk = await this.cursor.read()
+    if (!this.fields.length) {
+      this.fields = streamFields(this.cursor.columnNames, chunk[0])
+    }
+    const ids = this.fields.map((f) => f.id)
+    const rows = chunk.map((row) => _.zipObject(ids, row))
+    rows.forEach((row) => this.rows.push(row))
+    // a short page means the cursor has run out
+    if (chunk.length < this.cursor.chunkSize) await this.close()
+    return rows
+  }
+}
+
+// ids by position, the same way the clients do it, as names can repeat
+function streamFields(names: string[] | undefined, firstRow: any[] | undefined): FieldDescriptor[] {
+  const columns = names || (firstRow || []).map((_value, idx) => `Column ${idx + 1}`)
+  return columns.map((name, idx) => ({ id: `c${idx}`, name }))
+}
+
+/** Counts the rows a select returns, for showing the total while streaming */
+export function countQuery(queryText: string): string {
+  // newlines so a trailing -- comment can't swallow the bracket
+  const query = queryText.trim().replace(/;+$/, '')
+  return `SELECT COUNT(*) AS total FROM (\n${query}\n) AS total_rows`
+}
@@ -3,11 +3,12 @@ import fs from 'fs'
 import path from 'path'
 import pf from 'portfinder'
 import createLogger from '../logger';
-import { Options, SSHConnection } from '../../vendor/node-ssh-forward/index'
+import { JumpHost, Options, SSHConnection } from '../../vendor/node-ssh-forward/index'
 import appConfig from '../../config'
 
 import { resolveHomePathToAbsolute } from '../../common/utils'
-import { IDbConnectionServerConfig, IDbSshTunnel } from './client';
+import { IDbConnectionServerConfig, IDbConnectionServerSSHConfig, IDbSshTunnel } from './client';
+import { SshConfigEntry, SshConfigHost, readSshConfig, resolveJumpHosts, resolveSshConfigHost } from './ssh_config';
 
 const logger = createLogger('db:tunnel');
 export default function connectTunnel(config: IDbConnectionServerConfig): Promise<IDbSshTunnel> {
@@ -20,13 +21,17 @@ export default function connectTunnel(config: IDbConnectionServerConfig): Promis
           throw new Error('Missing ssh config')
         }
 
+        const sshConfigEntries = config.ssh.configHost ? readSshConfig() : []
+        const target = config.ssh.configHost ? resolveSshConfigHost(config.ssh.configHost, sshConfigEntries) : null
+
         const sshConfig: Options = {
-          endHost: config.ssh.host || '',
-          endPort: config.ssh.port,
+          endHost: target ? target.host : config.ssh.host || '',
+          endPort: target?.port || config.ssh.port,
           bastionHost: config.ssh.bastionHost || '',
+          jumpHosts: jumpHosts(config.ssh, target, sshConfigEntries),
           agentForward: config.ssh.useAgent,
           passphrase: config.ssh.passphrase || undefined,
-          username: config.ssh.user || undefined,
+          username: config.ssh.user || target?.user || undefined,
           password: config.ssh.password || undefined,
           skipAutoPrivateKey: true,
           noReadline: true,
@@ -39,6 +44,8 @@ export default function connectTunnel(config: IDbConnectionServerConfig): Promis
 
         if (config.ssh.privateKey && !config.ssh.useAgent) {
           sshConfig.privateKey = fs.readFileSync(path.resolve(resolveHomePathToAbsolute(config.ssh.privateKey)))
+        } else if (target) {
+          sshConfig.privateKey = readFirstKey(target.identityFiles)
         } else {
           sshConfig.privateKey = undefined
         }
@@ -71,3 +78,28 @@ export default function connectTunnel(config: IDbConnectionServerConfig): Promis
     })()
   })
 }
+
+// the hops saved with the connection, or else the ProxyJump from ~/.ssh/config
+function jumpHosts(ssh: IDbConnectionServerSSHConfig, target: SshConfigHost | null, entries: SshConfigEntry[]): JumpHost[] {
+  if (ssh.jumpHosts?.length) {
+    return ssh.jumpHosts.filter((hop) => hop.host).map((hop) => ({
+      host: hop.host.trim(),
+      port: hop.port || 22,
+      username: hop.user?.trim() || undefined,
+      privateKey: hop.keyfile ? fs.readFileSync(path.resolve(resolveHomePathToAbsolute(hop.keyfile))) : undefined,
+    }))
+  }
+  if (!target) return []
+  return resolveJumpHosts(target.proxyJump, entries).map((hop) => ({
+    host: hop.host,
+    port: hop.port || 22,
+    username: hop.user || undefined,
+    privateKey: readFirstKey(hop.identityFiles),
+  }))
+}
+
+// ssh tries each IdentityFile, we only get to offer one
+function readFirstKey(files: string[]): Buffer | undefined {
+  const file = files.find((f) => fs.existsSync(f))
+  return file ? fs.readFileSync(file) : undefined
+}
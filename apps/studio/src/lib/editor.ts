@@ -1,7 +1,8 @@
+import _ from "lodash";
 import type { TableOrView } from "@/lib/db/models";
-import { DialectData } from "@shared/lib/dialects/models";
+import { DialectData, TableKey } from "@shared/lib/dialects/models";
 
-interface Word {
+export interface Word {
   /**
    * The completion text for codemirror. This is wrapped with quotations if
    * needed, e.g. '"special+table"'.
@@ -117,6 +118,150 @@ export function queryTable(dbHint: DBHint, query: string) {
   );
 }
 
+export interface TableAlias {
+  /** How the query refers to the table, the table name if it has no alias. */
+  alias: string;
+  table: Word;
+}
+
+export interface JoinHint {
+  /** e.g. 'orders o ON o.user_id = u.id' */
+  text: string;
+  table: Word;
+}
+
+// comments and strings first so nothing inside them is read as a table
+const QUERY_TOKEN = /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^']|'')*'?|"(?:[^"]|"")*"?|`(?:[^`]|``)*`?|\[[^\]]*\]?|[\w$]+|\S/g;
+const TABLE_KEYWORDS = ["from", "join", "update", "into"];
+// words that can follow a table but are never its alias
+const NOT_ALIASES = [
+  "where", "join", "inner", "left", "right", "full", "outer", "cross", "natural",
+  "on", "using", "group", "order", "having", "limit", "offset", "union", "except",
+  "intersect", "set", "values", "window", "select", "returning", "fetch", "for",
+  "straight_join", "lateral", "default", "tablesample", "partition",
+];
+
+function isIdentifier(token?: string) {
+  return !!token && /^(?:[\w$]+|"|`|\[)/.test(token) && !/^\d/.test(token);
+}
+
+/**
+ * Finds the tables a query reads or writes and what it calls them, so that
+ * `u.` can be completed with the columns of `users u`. Only tables that are
+ * in the hint are returned.
+ */
+export function findTableAliases(dbHint: DBHint, query: string): TableAlias[] {
+  const tokens = (query.match(QUERY_TOKEN) || []).filter(
+    (t) => !/^(--|\/\*|')/.test(t)
+  );
+  const result: TableAlias[] = [];
+
+  const readTable = (idx: number) => {
+    if (!isIdentifier(tokens[idx])) return idx;
+    const parts = [tokens[idx]];
+    idx++;
+    while (tokens[idx] === "." && isIdentifier(tokens[idx + 1])) {
+      parts.push(tokens[idx + 1]);
+      idx += 2;
+    }
+    if (tokens[idx]?.toLowerCase() === "as") idx++;
+    let alias = _.last(parts);
+    const next = tokens[idx];
+    if (isIdentifier(next) && !NOT_ALIASES.includes(next.toLowerCase())) {
+      alias = next;
+      idx++;
+    }
+    const table = queryTable(dbHint, parts.join("."));
+    if (table) result.push({ alias: dbHint.dialect.unwrapIdentifier(alias), table });
+    return idx;
+  };
+
+  let inFromList = false;
+  let idx = 0;
+  while (idx < tokens.length) {
+    const word = tokens[idx].toLowerCase();
+    if (TABLE_KEYWORDS.includes(word) || (inFromList && word === ",")) {
+      inFromList = word === "from" || word === "update" || word === ",";
+      idx = readTable(idx + 1);
+    } else {
+      inFromList = false;
+      idx++;
+    }
+  }
+  return result;
+}
+
+export function findAliasedTable(dbHint: DBHint, query: string, alias: string) {
+  const name = dbHint.dialect.unwrapIdentifier(alias).toLowerCase();
+  return findTableAliases(dbHint, query).find(
+    (a) => a.alias.toLowerCase() === name
+  )?.table;
+}
+
+function sameTable(word: Word, name: string, schema?: string) {
+  return word.name === name && (!schema || !word.schema || word.schema === schema);
+}
+
+// order_items -> oi, users -> u
+function makeAlias(name: string, taken: string[]) {
+  const initials = name
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((p) => p)
+    .map((p) => p[0].toLowerCase())
+    .join("") || "t";
+  let alias = initials;
+  for (let n = 2; taken.includes(alias); n++) alias = `${initials}${n}`;
+  return alias;
+}
+
+/**
+ * Suggests whole `JOIN ... ON` clauses from the foreign keys of the tables
+ * already in the query, in both directions. Keys with several columns are
+ * grouped by constraint.
+ */
+export function makeJoinHints(
+  dbHint: DBHint,
+  aliases: TableAlias[],
+  keys: TableKey[]
+): JoinHint[] {
+  const constraints = _.groupBy(
+    _.uniqWith(keys, _.isEqual),
+    (k) => `${k.fromSchema}.${k.fromTable}.${k.constraintName || k.fromColumn}`
+  );
+  const taken = aliases.map((a) => a.alias.toLowerCase());
+  const wrap = (name: string) => dbHint.dialect.friendlyNormalizedIdentifier(name);
+  const tableText = (table: Word) =>
+    table.schema && table.schema !== dbHint.defaultSchema
+      ? `${wrap(table.schema)}.${table.text}`
+      : table.text;
+  const findWord = (name: string, schema?: string) =>
+    dbHint.tableWords.find((w) => sameTable(w, name, schema));
+
+  const result: JoinHint[] = [];
+  Object.values(constraints).forEach((columns) => {
+    const key = columns[0];
+    const directions = [
+      { known: [key.fromTable, key.fromSchema], other: [key.toTable, key.toSchema], knownColumn: "fromColumn", otherColumn: "toColumn" },
+      { known: [key.toTable, key.toSchema], other: [key.fromTable, key.fromSchema], knownColumn: "toColumn", otherColumn: "fromColumn" },
+    ];
+    directions.forEach(({ known, other, knownColumn, otherColumn }) => {
+      const table = findWord(other[0], other[1]);
+      if (!table) return;
+      aliases
+        .filter((a) => sameTable(a.table, known[0], known[1]))
+        .forEach((from) => {
+          const alias = makeAlias(table.name, taken);
+          const on = columns
+            .map((c) => `${alias}.${wrap(c[otherColumn])} = ${wrap(from.alias)}.${wrap(c[knownColumn])}`)
+            .join(" AND ");
+          result.push({ text: `${tableText(table)} ${alias} ON ${on}`, table });
+        });
+    });
+  });
+  return _.uniqBy(result, "text");
+}
+
 export function findTablesBySchema(dbHint: DBHint, schema: string) {
   return dbHint.tableWords.filter((table) => table.schema === schema);
 }
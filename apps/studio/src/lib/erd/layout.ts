@@ -0,0 +1,200 @@
+import _ from 'lodash'
+
+export interface ErdColumn {
+  name: string
+  dataType: string
+  primary: boolean
+  foreign: boolean
+}
+
+export interface ErdTable {
+  name: string
+  schema?: string
+  columns: ErdColumn[]
+}
+
+export interface ErdEdge {
+  name?: string
+  from: string
+  fromColumn: string
+  to: string
+  toColumn: string
+}
+
+export interface ErdNode {
+  table: ErdTable
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ErdRoute {
+  edge: ErdEdge
+  // an svg path from the referencing column to the referenced one
+  path: string
+}
+
+export interface ErdLayout {
+  nodes: ErdNode[]
+  routes: ErdRoute[]
+  width: number
+  height: number
+}
+
+export const ErdSizes = {
+  header: 28,
+  row: 20,
+  charWidth: 7.2,
+  padding: 12,
+  minWidth: 160,
+  layerGap: 120,
+  nodeGap: 40,
+  margin: 30,
+}
+
+export function tableWidth(table: ErdTable): number {
+  const longest = _.max([
+    table.name.length,
+    ...table.columns.map((c) => c.name.length + c.dataType.length + 4)
+  ])
+  return Math.max(ErdSizes.minWidth, Math.ceil(longest * ErdSizes.charWidth + ErdSizes.padding * 2))
+}
+
+export function tableHeight(table: ErdTable): number {
+  return ErdSizes.header + Math.max(table.columns.length, 1) * ErdSizes.row + ErdSizes.padding / 2
+}
+
+/**
+ * The named table plus every table within `hops` foreign keys of it,
+ * following keys in either direction.
+ */
+export function neighbourhood(tables: ErdTable[], edges: ErdEdge[], focus: string, hops: number): ErdTable[] {
+  const found = new Set([focus])
+  let frontier = [focus]
+  for (let hop = 0; hop < hops && frontier.length; hop++) {
+    const next: string[] = []
+    edges.forEach((e) => {
+      if (frontier.includes(e.from) && !found.has(e.to)) next.push(e.to)
+      if (frontier.includes(e.to) && !found.has(e.from)) next.push(e.from)
+    })
+    frontier = _.uniq(next)
+    frontier.forEach((name) => found.add(name))
+  }
+  return tables.filter((t) => found.has(t.name))
+}
+
+// referenced tables go left of the tables pointing at them
+function assignLayers(names: string[], edges: ErdEdge[]): Map<string, number> {
+  const layers = new Map(names.map((n) => [n, 0]))
+  // a cycle would otherwise push layers up forever
+  for (let i = 0; i < names.length; i++) {
+    let changed = false
+    edges.forEach((e) => {
+      if (e.from === e.to) return
+      const wanted = layers.get(e.to) + 1
+      if (wanted > layers.get(e.from) && wanted < names.length) {
+        layers.set(e.from, wanted)
+        changed = true
+      }
+    })
+    if (!changed) break
+  }
+  return layers
+}
+
+// a few barycenter sweeps so connected tables end up level with each other
+function orderLayers(columns: string[][], edges: ErdEdge[]): string[][] {
+  const neighbours = new Map<string, string[]>()
+  edges.forEach((e) => {
+    neighbours.set(e.from, [...(neighbours.get(e.from) || []), e.to])
+    neighbours.set(e.to, [...(neighbours.get(e.to) || []), e.from])
+  })
+  let result = columns.map((c) => [...c].sort())
+  for (let sweep = 0; sweep < 4; sweep++) {
+    const position = new Map<string, number>()
+    result.forEach((c) => c.forEach((name, idx) => position.set(name, idx / Math.max(c.length, 1))))
+    result = result.map((c) => _.sortBy(c, (name) => {
+      const others = (neighbours.get(name) || []).filter((n) => !c.includes(n))
+      if (!others.length) return position.get(name)
+      return _.mean(others.map((n) => position.get(n)))
+    }))
+  }
+  return result
+}
+
+function columnY(node: ErdNode, column: string): number {
+  const idx = Math.max(node.table.columns.findIndex((c) => c.name === column), 0)
+  return node.y + ErdSizes.header + idx * ErdSizes.row + ErdSizes.row / 2
+}
+
+function route(edge: ErdEdge, from: ErdNode, to: ErdNode): string {
+  const y1 = columnY(from, edge.fromColumn)
+  const y2 = columnY(to, edge.toColumn)
+  if (from === to) {
+    const x = from.x + from.width
+    return `M ${x} ${y1} C ${x + 40} ${y1}, ${x + 40} ${y2}, ${x} ${y2}`
+  }
+  // leave and enter on the sides facing each other
+  const leftToRight = from.x + from.width / 2 < to.x + to.width / 2
+  const x1 = leftToRight ? from.x + from.width : from.x
+  const x2 = leftToRight ? to.x : to.x + to.width
+  const bend = Math.max(Math.abs(x2 - x1) / 2, 40) * (leftToRight ? 1 : -1)
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`
+}
+
+/**
+ * Places tables in columns by foreign key depth, referenced tables on the left.
+ * Tables without any keys are put in a grid underneath.
+ */
+export function layoutDiagram(tables: ErdTable[], allEdges: ErdEdge[]): ErdLayout {
+  const names = tables.map((t) => t.name)
+  const edges = allEdges.filter((e) => names.includes(e.from) && names.includes(e.to))
+  const connected = new Set(_.flatMap(edges, (e) => [e.from, e.to]))
+  const byName = _.keyBy(tables, 'name')
+  const nodes: ErdNode[] = []
+
+  const layers = assignLayers(names.filter((n) => connected.has(n)), edges)
+  const columns: string[][] = []
+  layers.forEach((layer, name) => {
+    columns[layer] = [...(columns[layer] || []), name]
+  })
+  let x = ErdSizes.margin
+  let bottom = ErdSizes.margin
+  orderLayers(columns.filter((c) => !!c), edges).forEach((column) => {
+    let y = ErdSizes.margin
+    const width = _.max(column.map((name) => tableWidth(byName[name])))
+    column.forEach((name) => {
+      const table = byName[name]
+      const node = { table, x, y, width, height: tableHeight(table) }
+      nodes.push(node)
+      y += node.height + ErdSizes.nodeGap
+    })
+    bottom = Math.max(bottom, y)
+    x += width + ErdSizes.layerGap
+  })
+
+  const loose = _.sortBy(tables.filter((t) => !connected.has(t.name)), 'name')
+  if (loose.length) {
+    const perRow = Math.max(Math.ceil(Math.sqrt(loose.length)), columns.length)
+    _.chunk(loose, perRow).forEach((row) => {
+      let rowX = ErdSizes.margin
+      const rowHeight = _.max(row.map(tableHeight))
+      row.forEach((table) => {
+        const node = { table, x: rowX, y: bottom, width: tableWidth(table), height: tableHeight(table) }
+        nodes.push(node)
+        rowX += node.width + ErdSizes.nodeGap
+      })
+      bottom += rowHeight + ErdSizes.nodeGap
+    })
+  }
+
+  const nodeFor = _.keyBy(nodes, (n) => n.table.name)
+  const routes = edges.map((edge) => ({ edge, path: route(edge, nodeFor[edge.from], nodeFor[edge.to]) }))
+  return {
+    nodes,
+    routes,
+    width: (_.max(nodes.map((n) => n.x + n.width)) || 0) + ErdSizes.margin,
+    height: (_.max(nodes.map((n) => n.y + n.height)) || 0) + ErdSizes.margin,
+  }
+}
@@ -0,0 +1,53 @@
+import rawlog from 'electron-log'
+import { DBConnection } from '../db/client'
+import { ErdEdge, ErdTable } from './layout'
+
+const log = rawlog.scope('erd/load')
+
+export interface ErdData {
+  tables: ErdTable[]
+  edges: ErdEdge[]
+}
+
+/**
+ * Reads the tables of one schema (or the whole database for clients without
+ * schemas) and the foreign keys between them.
+ */
+export async function loadErd(connection: DBConnection, schema?: string): Promise<ErdData> {
+  const entities = (await connection.listTables({ schema }))
+    .filter((t) => t.entityType === 'table' && (!schema || t.schema === schema))
+  const tables: ErdTable[] = []
+  const edges: ErdEdge[] = []
+  // one table at a time, a big schema shouldn't swamp the server
+  for (const entity of entities) {
+    log.debug("loading", entity.schema, entity.name)
+    const [columns, keys, primaryKeys] = await Promise.all([
+      connection.listTableColumns(entity.name, entity.schema),
+      connection.getTableKeys(entity.name, entity.schema),
+      connection.getPrimaryKeys(entity.name, entity.schema),
+    ])
+    const pks = primaryKeys.map((k) => k.columnName)
+    const fks = keys.map((k) => k.fromColumn)
+    tables.push({
+      name: entity.name,
+      schema: entity.schema,
+      columns: columns.map((c) => ({
+        name: c.columnName,
+        dataType: c.dataType,
+        primary: pks.includes(c.columnName),
+        foreign: fks.includes(c.columnName),
+      })),
+    })
+    keys
+      // keys pointing into another schema would have nothing to connect to
+      .filter((k) => !schema || !k.toSchema || k.toSchema === schema)
+      .forEach((k) => edges.push({
+        name: k.constraintName,
+        from: entity.name,
+        fromColumn: k.fromColumn,
+        to: k.toTable,
+        toColumn: k.toColumn,
+      }))
+  }
+  return { tables, edges }
+}
@@ -0,0 +1,92 @@
+import _ from 'lodash'
+import { PlanNode, QueryPlan } from './models'
+import { emptyNode, toNumber } from './plan'
+
+// shown in the detail and numbers, so left out of the properties list
+const consumed = ['table', 'estimated row count', 'actual row count', 'execution time']
+
+// eg '1.2ms', '350µs', '2s'
+function toMilliseconds(value?: string): number | undefined {
+  const match = /^([\d.]+)\s*(µs|us|ms|s)$/.exec((value || '').trim())
+  if (!match) return undefined
+  const scale = { µs: 0.001, us: 0.001, ms: 1, s: 1000 }[match[2]]
+  return Number(match[1]) * scale
+}
+
+// eg '1,000 (100% of the table; stats collected 2 minutes ago)'
+function leadingNumber(value?: string): number | undefined {
+  const match = /^[\d,.]+/.exec((value || '').trim())
+  return match ? toNumber(match[0].replace(/,/g, '')) : undefined
+}
+
+function fillNode(node: PlanNode, properties: Record<string, string>): void {
+  if (properties['table']) {
+    // eg users@users_pkey
+    const [table, index] = properties['table'].split('@')
+    node.detail = index ? `on ${table} using ${index}` : `on ${table}`
+  }
+  node.rows = leadingNumber(properties['estimated row count'])
+  node.actualRows = leadingNumber(properties['actual row count'])
+  node.actualTime = toMilliseconds(properties['execution time'])
+  if (/FULL SCAN/.test(properties['spans'] || '')) {
+    node.warnings.push('Reads the whole table')
+  }
+  node.properties = _.omit(properties, consumed)
+}
+
+/**
+ * Reads the text tree cockroach's EXPLAIN (and EXPLAIN ANALYZE) returns,
+ * one row of its info column per line:
+ *
+ *   planning time: 1ms
+ *   • filter
+ *   │ filter: active
+ *   │
+ *   └── • scan
+ *         table: users@users_pkey
+ */
+export function parseCockroachPlan(lines: string[], analyzed: boolean): QueryPlan {
+  const summary: Record<string, string> = {}
+  const properties = new Map<PlanNode, Record<string, string>>()
+  const roots: PlanNode[] = []
+  // the nodes that can still get children, with the column of their bullet
+  const open: { node: PlanNode, column: number }[] = []
+
+  lines.forEach((line) => {
+    const column = line.indexOf('•')
+    if (column !== -1) {
+      const node = emptyNode(line.slice(column + 1).trim())
+      while (open.length && _.last(open).column >= column) open.pop()
+      if (open.length) {
+        _.last(open).node.children.push(node)
+      } else {
+        roots.push(node)
+      }
+      open.push({ node, column })
+      properties.set(node, {})
+      return
+    }
+    // a property of the last node, or of the whole plan before the first one
+    const text = line.replace(/^[\s│├└─]+/, '')
+    const colon = text.indexOf(':')
+    if (colon === -1) return
+    const target = open.length ? properties.get(_.last(open).node) : summary
+    target[text.slice(0, colon).trim()] = text.slice(colon + 1).trim()
+  })
+
+  if (!roots.length) throw new Error("The database didn't return a plan")
+  properties.forEach((values, node) => fillNode(node, values))
+
+  let root = roots[0]
+  if (roots.length > 1) {
+    root = emptyNode('Plan')
+    root.children = roots
+  }
+  return {
+    root,
+    analyzed,
+    planningTime: toMilliseconds(summary['planning time']),
+    executionTime: toMilliseconds(summary['execution time']),
+    raw: lines.join('\n'),
+  }
+}
@@ -0,0 +1,39 @@
+export interface PlanNode {
+  // eg 'Seq Scan', 'Hash Join', 'SCAN users'
+  title: string
+  // eg 'on users using users_pkey'
+  detail?: string
+  // cost of this node and everything under it, in the database's own units
+  cost?: number
+  // estimated rows, per loop
+  rows?: number
+  // the rest only come back from EXPLAIN ANALYZE
+  actualRows?: number
+  // milliseconds for this node and everything under it, per loop
+  actualTime?: number
+  loops?: number
+  // everything else worth showing, eg filters and sort keys
+  properties: Record<string, string>
+  // set by the parser for things that are slow whatever they cost, eg a filesort
+  warnings: string[]
+  children: PlanNode[]
+}
+
+export interface QueryPlan {
+  root: PlanNode
+  analyzed: boolean
+  planningTime?: number
+  executionTime?: number
+  // the plan as the database returned it, for copying elsewhere
+  raw: string
+}
+
+export interface PlanNodeStats {
+  selfCost?: number
+  selfTime?: number
+  // 0 - 1, how much of the whole query this node is responsible for
+  share: number
+  // how far off the row estimate was, always >= 1
+  misestimate?: number
+  hot: boolean
+}
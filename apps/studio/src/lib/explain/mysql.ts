@@ -0,0 +1,133 @@
+import _ from 'lodash'
+import { PlanNode, QueryPlan } from './models'
+import { emptyNode, toNumber } from './plan'
+
+const accessTypes = {
+  ALL: 'Full Table Scan',
+  index: 'Full Index Scan',
+  range: 'Index Range Scan',
+  index_merge: 'Index Merge',
+  ref: 'Key Lookup',
+  ref_or_null: 'Key Lookup',
+  eq_ref: 'Unique Key Lookup',
+  unique_subquery: 'Unique Key Lookup',
+  index_subquery: 'Key Lookup',
+  fulltext: 'Fulltext Search',
+  const: 'Single Row Lookup',
+  system: 'Single Row Lookup',
+}
+
+// wrappers around the rest of the plan, mariadb uses some different names
+const operations = {
+  ordering_operation: 'Order',
+  grouping_operation: 'Group',
+  duplicates_removal: 'Distinct',
+  windowing: 'Window',
+  buffer_result: 'Buffer',
+  filesort: 'Sort',
+  read_sorted_file: 'Read Sorted',
+  temporary_table: 'Temporary Table',
+}
+
+// keys that hold more of the plan, or that are already shown some other way
+const structural = [
+  'table', 'nested_loop', 'query_block', 'union_result', 'query_specifications',
+  'attached_subqueries', 'optimized_away_subqueries', 'materialized_from_subquery',
+  'cost_info', 'table_name', 'access_type', 'key', 'select_id', 'message',
+  ...Object.keys(operations),
+]
+
+function scalarProperties(raw: any): Record<string, string> {
+  const result = {}
+  _.forEach(_.omit(raw, structural), (value, key) => {
+    if (_.isNil(value) || _.isObject(value) && !_.isArray(value)) return
+    result[key] = _.isArray(value) ? value.join(', ') : String(value)
+  })
+  return result
+}
+
+function childCost(node: PlanNode): number | undefined {
+  const costs = node.children.map((c) => c.cost).filter((c) => !_.isNil(c))
+  return costs.length ? _.sum(costs) : undefined
+}
+
+function children(raw: any): PlanNode[] {
+  const result: PlanNode[] = []
+  if (raw.query_block) result.push(queryBlock(raw.query_block))
+  if (raw.table) result.push(tableNode(raw.table))
+  if (raw.nested_loop) {
+    const loop = emptyNode('Nested Loop')
+    loop.children = _.flatMap(raw.nested_loop, children)
+    loop.cost = childCost(loop)
+    result.push(loop)
+  }
+  Object.keys(operations).forEach((key) => {
+    if (raw[key]) result.push(operation(key, raw[key]))
+  })
+  if (raw.union_result) {
+    const union = emptyNode('Union')
+    union.properties = scalarProperties(raw.union_result)
+    union.children = (raw.union_result.query_specifications || []).map((s) => queryBlock(s.query_block))
+    union.cost = childCost(union)
+    result.push(union)
+  }
+  const subqueries = [...(raw.attached_subqueries || []), ...(raw.optimized_away_subqueries || [])]
+  subqueries.forEach((s) => result.push(queryBlock(s.query_block, 'Subquery')))
+  return result
+}
+
+function operation(key: string, raw: any): PlanNode {
+  const node = emptyNode(operations[key])
+  node.properties = scalarProperties(raw)
+  if (raw.using_filesort) node.warnings.push('Sorted with a filesort')
+  if (raw.using_temporary_table) node.warnings.push('Uses a temporary table')
+  node.children = children(raw)
+  const own = toNumber(raw.cost_info?.sort_cost) || 0
+  node.cost = own + (childCost(node) || 0) || undefined
+  return node
+}
+
+function tableNode(raw: any): PlanNode {
+  const node = emptyNode(accessTypes[raw.access_type] || raw.access_type || 'Table')
+  node.detail = [
+    raw.table_name ? `on ${raw.table_name}` : null,
+    raw.key ? `using ${raw.key}` : null,
+  ].filter((p) => !!p).join(' ') || undefined
+  node.rows = toNumber(raw.rows_produced_per_join ?? raw.rows)
+  node.properties = scalarProperties(raw)
+  const examined = toNumber(raw.rows_examined_per_scan ?? raw.rows)
+  if (raw.access_type === 'ALL' && examined > 1000) {
+    node.warnings.push(`Reads all ${examined} rows`)
+  }
+  if (raw.materialized_from_subquery) {
+    const materialized = emptyNode('Materialize')
+    materialized.properties = scalarProperties(raw.materialized_from_subquery)
+    materialized.children = children(raw.materialized_from_subquery)
+    materialized.cost = childCost(materialized)
+    node.children.push(materialized)
+  }
+  node.children.push(...children(_.pick(raw, ['attached_subqueries'])))
+  const own = _.sum([raw.cost_info?.read_cost, raw.cost_info?.eval_cost].map((c) => toNumber(c) || 0))
+  node.cost = own + (childCost(node) || 0) || undefined
+  return node
+}
+
+function queryBlock(raw: any, title = 'Query Block'): PlanNode {
+  const node = emptyNode(raw.select_id ? `${title} #${raw.select_id}` : title)
+  node.detail = raw.message
+  node.properties = scalarProperties(raw)
+  node.children = children(raw)
+  node.cost = toNumber(raw.cost_info?.query_cost) ?? childCost(node)
+  return node
+}
+
+/** Reads the output of EXPLAIN FORMAT=JSON, from MySQL or MariaDB. */
+export function parseMysqlPlan(value: any): QueryPlan {
+  const json = _.isString(value) ? JSON.parse(value) : value
+  if (!json?.query_block) throw new Error("The database didn't return a plan")
+  return {
+    root: queryBlock(json.query_block),
+    analyzed: false,
+    raw: JSON.stringify(json, null, 2),
+  }
+}
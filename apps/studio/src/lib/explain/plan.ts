@@ -0,0 +1,69 @@
+import _ from 'lodash'
+import { PlanNode, PlanNodeStats, QueryPlan } from './models'
+
+// a node doing this much of the work is worth a look
+export const HotShare = 0.3
+// an estimate this far off usually means stale statistics
+export const MisestimateFactor = 10
+
+export function emptyNode(title: string): PlanNode {
+  return { title, properties: {}, warnings: [], children: [] }
+}
+
+export function toNumber(value: any): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  const result = Number(value)
+  return isNaN(result) ? undefined : result
+}
+
+/** EXPLAIN takes a single statement, so trailing semicolons have to go. */
+export function explainableQuery(queryText: string): string {
+  return queryText.trim().replace(/[\s;]+$/, '')
+}
+
+function totalTime(node: PlanNode): number | undefined {
+  return _.isNil(node.actualTime) ? undefined : node.actualTime * (node.loops || 1)
+}
+
+function misestimate(node: PlanNode): number | undefined {
+  if (_.isNil(node.rows) || _.isNil(node.actualRows)) return undefined
+  // +1 so that 0 vs 1 rows doesn't look infinitely wrong
+  const estimated = node.rows + 1
+  const actual = node.actualRows + 1
+  return Math.max(estimated / actual, actual / estimated)
+}
+
+/**
+ * Works out what each node costs on its own, and which nodes are hot spots.
+ * Time is used when the plan was analyzed, otherwise the planner's cost.
+ */
+export function planStats(plan: QueryPlan): Map<PlanNode, PlanNodeStats> {
+  const result = new Map<PlanNode, PlanNodeStats>()
+  const rootTime = totalTime(plan.root)
+  const rootCost = plan.root.cost
+
+  const visit = (node: PlanNode) => {
+    const childCost = _.sum(node.children.map((c) => c.cost || 0))
+    const childTime = _.sum(node.children.map((c) => totalTime(c) || 0))
+    const time = totalTime(node)
+    const selfCost = _.isNil(node.cost) ? undefined : Math.max(node.cost - childCost, 0)
+    const selfTime = _.isNil(time) ? undefined : Math.max(time - childTime, 0)
+    let share = 0
+    if (plan.analyzed && rootTime && !_.isNil(selfTime)) {
+      share = selfTime / rootTime
+    } else if (rootCost && !_.isNil(selfCost)) {
+      share = selfCost / rootCost
+    }
+    const factor = misestimate(node)
+    result.set(node, {
+      selfCost,
+      selfTime,
+      share,
+      misestimate: factor,
+      hot: share >= HotShare || (factor || 0) >= MisestimateFactor || node.warnings.length > 0
+    })
+    node.children.forEach(visit)
+  }
+  visit(plan.root)
+  return result
+}
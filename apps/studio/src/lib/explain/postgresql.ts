@@ -0,0 +1,70 @@
+import _ from 'lodash'
+import { PlanNode, QueryPlan } from './models'
+import { emptyNode, toNumber } from './plan'
+
+// shown in the title, detail and numbers, so left out of the properties list
+const consumed = [
+  'Node Type', 'Plans', 'Relation Name', 'Schema', 'Alias', 'Index Name', 'CTE Name', 'Function Name',
+  'Total Cost', 'Plan Rows', 'Actual Total Time', 'Actual Rows', 'Actual Loops', 'Parallel Aware',
+  'Async Capable', 'Parent Relationship', 'Output',
+]
+
+function detail(raw: any): string | undefined {
+  const parts = []
+  if (raw['Relation Name']) {
+    const name = raw['Schema'] ? `${raw['Schema']}.${raw['Relation Name']}` : raw['Relation Name']
+    parts.push(`on ${name}`)
+    if (raw['Alias'] && raw['Alias'] !== raw['Relation Name']) parts.push(raw['Alias'])
+  }
+  if (raw['CTE Name']) parts.push(`on ${raw['CTE Name']}`)
+  if (raw['Function Name']) parts.push(`on ${raw['Function Name']}()`)
+  if (raw['Index Name']) parts.push(`using ${raw['Index Name']}`)
+  return parts.length ? parts.join(' ') : undefined
+}
+
+function warnings(raw: any): string[] {
+  const result = []
+  if (/external/i.test(raw['Sort Method'] || '')) {
+    result.push('Sort spilled to disk')
+  }
+  const removed = toNumber(raw['Rows Removed by Filter'])
+  const kept = toNumber(raw['Actual Rows'])
+  if (removed > 1000 && removed > (kept || 0) * 10) {
+    result.push(`Filter threw away ${removed} rows`)
+  }
+  if (toNumber(raw['Hash Batches']) > 1) {
+    result.push('Hash spilled to disk')
+  }
+  return result
+}
+
+function toNode(raw: any): PlanNode {
+  const node = emptyNode(raw['Node Type'] || 'Unknown')
+  node.detail = detail(raw)
+  node.cost = toNumber(raw['Total Cost'])
+  node.rows = toNumber(raw['Plan Rows'])
+  node.actualRows = toNumber(raw['Actual Rows'])
+  node.actualTime = toNumber(raw['Actual Total Time'])
+  node.loops = toNumber(raw['Actual Loops'])
+  node.warnings = warnings(raw)
+  _.forEach(_.omit(raw, consumed), (value, key) => {
+    if (_.isNil(value) || _.isObject(value) && !_.isArray(value)) return
+    node.properties[key] = _.isArray(value) ? value.join(', ') : String(value)
+  })
+  node.children = (raw['Plans'] || []).map(toNode)
+  return node
+}
+
+/** Reads the output of EXPLAIN (FORMAT JSON), with or without ANALYZE. */
+export function parsePostgresPlan(value: any, analyzed: boolean): QueryPlan {
+  const json = _.isString(value) ? JSON.parse(value) : value
+  const plan = _.isArray(json) ? json[0] : json
+  if (!plan || !plan['Plan']) throw new Error("The database didn't return a plan")
+  return {
+    root: toNode(plan['Plan']),
+    analyzed,
+    planningTime: toNumber(plan['Planning Time']),
+    executionTime: toNumber(plan['Execution Time']),
+    raw: JSON.stringify(json, null, 2),
+  }
+}
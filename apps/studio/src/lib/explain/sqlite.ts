@@ -0,0 +1,44 @@
+import _ from 'lodash'
+import { PlanNode, QueryPlan } from './models'
+import { emptyNode, toNumber } from './plan'
+
+interface SqlitePlanRow {
+  id?: number
+  parent?: number
+  detail: string
+}
+
+function toNode(row: SqlitePlanRow): PlanNode {
+  const node = emptyNode(row.detail)
+  // sqlite has no costs, so the usual suspects are all we can point out
+  if (/^SCAN (TABLE )?\S+( AS \S+)?$/.test(row.detail)) {
+    node.warnings.push('Reads the whole table')
+  }
+  if (/USE TEMP B-TREE/.test(row.detail)) {
+    node.warnings.push('Builds a temporary index')
+  }
+  if (/AUTOMATIC/.test(row.detail)) {
+    node.warnings.push('Builds an automatic index, consider adding one')
+  }
+  return node
+}
+
+/** Reads the rows from EXPLAIN QUERY PLAN. */
+export function parseSqlitePlan(rows: SqlitePlanRow[]): QueryPlan {
+  const root = emptyNode('Query Plan')
+  const nodes = new Map<number, PlanNode>()
+  rows.forEach((row) => {
+    const node = toNode(row)
+    const id = toNumber(row.id)
+    const parent = toNumber(row.parent)
+    if (!_.isNil(id)) nodes.set(id, node)
+    // before 3.24 there's no id or parent, just a flat list
+    const parentNode = (!_.isNil(parent) && nodes.get(parent)) || root
+    parentNode.children.push(node)
+  })
+  return {
+    root,
+    analyzed: false,
+    raw: rows.map((r) => r.detail).join('\n'),
+  }
+}
@@ -0,0 +1,73 @@
+import _ from 'lodash'
+import { PlanNode, QueryPlan } from './models'
+import { emptyNode, toNumber } from './plan'
+
+const propertyAttributes = [
+  'LogicalOp', 'EstimateIO', 'EstimateCPU', 'AvgRowSize', 'EstimatedExecutionMode', 'Parallel', 'EstimateRebinds', 'EstimateRewinds',
+]
+
+// direct descendants, stopping at the next operator down
+function ownElements(element: Element, name: string): Element[] {
+  const result = []
+  Array.from(element.children).forEach((child) => {
+    if (child.localName === name) result.push(child)
+    if (child.localName !== 'RelOp') result.push(...ownElements(child, name))
+  })
+  return result
+}
+
+function unbracket(name: string | null): string | null {
+  return name ? name.replace(/^\[|\]$/g, '') : null
+}
+
+function relOpNode(element: Element): PlanNode {
+  const node = emptyNode(element.getAttribute('PhysicalOp') || 'Unknown')
+  const object = ownElements(element, 'Object')[0]
+  if (object) {
+    const table = [object.getAttribute('Schema'), object.getAttribute('Table')].map(unbracket).filter((p) => !!p).join('.')
+    const index = unbracket(object.getAttribute('Index'))
+    node.detail = [table ? `on ${table}` : null, index ? `using ${index}` : null].filter((p) => !!p).join(' ') || undefined
+  }
+  node.cost = toNumber(element.getAttribute('EstimatedTotalSubtreeCost'))
+  node.rows = toNumber(element.getAttribute('EstimateRows'))
+  propertyAttributes.forEach((attribute) => {
+    const value = element.getAttribute(attribute)
+    if (value && !(attribute === 'LogicalOp' && value === node.title)) node.properties[attribute] = value
+  })
+  ownElements(element, 'Predicate').forEach((predicate) => {
+    const text = predicate.querySelector('ScalarOperator')?.getAttribute('ScalarString')
+    if (text) node.properties['Predicate'] = text
+  })
+  ownElements(element, 'Warnings').forEach((warnings) => {
+    Array.from(warnings.children).forEach((w) => node.warnings.push(_.startCase(w.localName)))
+  })
+  node.children = ownElements(element, 'RelOp').map(relOpNode)
+  return node
+}
+
+function statementNode(element: Element): PlanNode {
+  const node = emptyNode(element.getAttribute('StatementType') || 'Statement')
+  node.cost = toNumber(element.getAttribute('StatementSubTreeCost'))
+  node.rows = toNumber(element.getAttribute('StatementEstRows'))
+  const text = element.getAttribute('StatementText')
+  if (text) node.properties['Statement'] = text.trim()
+  Array.from(element.getElementsByTagName('MissingIndexGroup')).forEach((group) => {
+    node.warnings.push(`Missing index, estimated ${toNumber(group.getAttribute('Impact'))}% better`)
+  })
+  node.children = ownElements(element, 'RelOp').map(relOpNode)
+  return node
+}
+
+/** Reads the XML from SET SHOWPLAN_XML ON. */
+export function parseSqlServerPlan(xml: string): QueryPlan {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml')
+  const statements = Array.from(doc.getElementsByTagName('StmtSimple')).map(statementNode)
+  if (!statements.length) throw new Error("The database didn't return a plan")
+  let root = statements[0]
+  if (statements.length > 1) {
+    root = emptyNode('Batch')
+    root.children = statements
+    root.cost = _.sum(statements.map((s) => s.cost || 0))
+  }
+  return { root, analyzed: false, raw: xml }
+}
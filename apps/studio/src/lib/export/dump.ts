@@ -0,0 +1,427 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import crypto from 'crypto'
+import { promises } from 'fs'
+import archiver from 'archiver'
+import _ from 'lodash'
+import rawlog from 'electron-log'
+import { TableKey } from '@shared/lib/dialects/models'
+import { TableOrView } from '../db/models'
+import { DBConnection } from '../db/client'
+import { groupRelations, relationSpec, triggerCreateScripts } from '../db/sql_tools'
+import { SqlExporter } from './formats/sql'
+import { ExportOptions, ExportProgress, ExportStatus, ProgressCallback } from './models'
+import { ExportWriter, openWriter, withCompressionExtension } from './writer'
+
+const log = rawlog.scope('export/dump')
+
+export interface OutputOptionsDump {
+  // qualify table names in the inserts with their schema
+  schema: boolean
+  createTable: boolean
+  indexes: boolean
+  triggers: boolean
+  // one file per table inside a zip instead of a single .sql file
+  splitFiles: boolean
+}
+
+interface DumpPart {
+  table: TableOrView
+  create: string
+  dataPath: string
+  post: string
+  relations: string
+}
+
+// SHOW CREATE TABLE already includes every index for these
+const createScriptHasIndexes = ['mysql', 'mariadb']
+// and the foreign keys for these, sqlite doesn't check them until rows go in
+const createScriptHasRelations = ['mysql', 'mariadb', 'sqlite', 'duckdb']
+// so tables (and rows) can reference ones that come after them
+const foreignKeyChecksOff: { [type: string]: string } = {
+  mysql: 'SET FOREIGN_KEY_CHECKS = 0;',
+  mariadb: 'SET FOREIGN_KEY_CHECKS = 0;',
+}
+
+function tableKey(schema: string | undefined, name: string): string {
+  return `${schema || ''}.${name}`
+}
+
+// trigger bodies have statements of their own, so they can't just end in a ;
+export function triggerBlock(definition: string, connectionType: string): string {
+  const script = definition.replace(/;\s*$/, '')
+  switch (connectionType) {
+    case 'mysql':
+    case 'mariadb':
+      return `DELIMITER ;;\n${script};;\nDELIMITER ;`
+    case 'sqlserver':
+      // CREATE TRIGGER has to start a batch
+      return `GO\n${script}\nGO`
+    default:
+      return `${script};`
+  }
+}
+
+function joinStatements(statements: string[]): string {
+  return statements
+    .filter((s) => !!s)
+    .map((s) => s.trim().endsWith(';') ? s.trim() : `${s.trim()};`)
+    .join('\n')
+}
+
+/**
+ * Orders tables so that every table comes after the tables its foreign keys point to.
+ * Self references are ignored, tables in a reference cycle keep their original order at the end.
+ */
+export function sortByDependencies(tables: TableOrView[], keys: TableKey[]): TableOrView[] {
+  const known = new Map(tables.map((t) => [tableKey(t.schema, t.name), t]))
+  const dependsOn = new Map<string, Set<string>>(tables.map((t) => [tableKey(t.schema, t.name), new Set()]))
+
+  keys.forEach((key) => {
+    const from = tableKey(key.fromSchema, key.fromTable)
+    // sqlite doesn't report the referenced schema
+    const to = tableKey(key.toSchema || key.fromSchema, key.toTable)
+    if (from === to || !known.has(from) || !known.has(to)) return
+    dependsOn.get(from).add(to)
+  })
+
+  const result: TableOrView[] = []
+  const done = new Set<string>()
+  let remaining = [...known.keys()]
+  let progressed = true
+  while (remaining.length && progressed) {
+    progressed = false
+    remaining = remaining.filter((id) => {
+      const ready = [...dependsOn.get(id)].every((dep) => done.has(dep))
+      if (!ready) return true
+      result.push(known.get(id))
+      done.add(id)
+      progressed = true
+      return false
+    })
+  }
+  remaining.forEach((id) => result.push(known.get(id)))
+  return result
+}
+
+/**
+ * Dumps several tables into one SQL file (or a zip of files), creating every table first,
+ * then the data, then indexes and triggers, and the foreign keys last so the dump restores
+ * cleanly even when tables reference each other.
+ * The row data itself is written by a SqlExporter per table.
+ */
+export class SqlDump {
+  // don't make stuff public you don't want observed in vue
+  id: string
+  readonly format: string = 'sql'
+
+  countExported = 0
+  countTotal = 0
+  error: Error | null = null
+  // the notification uses this to tell exports of a query and a table apart
+  table = undefined
+  queryName: string
+
+  private _status: ExportStatus = ExportStatus.Idle
+  private tablesDone = 0
+  private current?: SqlExporter
+  private currentProgress = 0
+  private tmpDir?: string
+  private ordered: TableOrView[] = []
+  private keys = new Map<string, TableKey[]>()
+  private parts: DumpPart[] = []
+  private callbacks = {
+    progress: Array<ProgressCallback>()
+  }
+
+  constructor(
+    public filePath: string,
+    public connection: DBConnection,
+    public tables: TableOrView[],
+    public options: ExportOptions,
+    public outputOptions: OutputOptionsDump
+  ) {
+    const schemas = _.uniq(tables.map((t) => t.schema).filter((s) => !!s))
+    // the zip is compressed already
+    if (!outputOptions.splitFiles) this.filePath = withCompressionExtension(filePath, options.compression)
+    this.queryName = schemas.length === 1 ? `${schemas[0]} (${tables.length} tables)` : `${tables.length} tables`
+    this.id = this.generateId()
+  }
+
+  static extension(outputOptions: OutputOptionsDump): string {
+    return outputOptions.splitFiles ? 'zip' : 'sql'
+  }
+
+  set status(status: ExportStatus) {
+    this._status = status
+    this.notify()
+  }
+
+  get status() {
+    return this._status
+  }
+
+  public get percentComplete(): number {
+    if ([ExportStatus.Completed, ExportStatus.Aborted, ExportStatus.Error].includes(this.status)) {
+      return 100
+    }
+    if (!this.tables.length) return 0
+    return Math.round(((this.tablesDone + this.currentProgress) / this.tables.length) * 100)
+  }
+
+  notify() {
+    const payload: ExportProgress = {
+      totalRecords: this.countTotal,
+      countExported: this.countExported,
+      secondsElapsed: 0,
+      secondsRemaining: 0,
+      status: this.status,
+      percentComplete: this.percentComplete,
+    }
+    this.callbacks.progress.forEach(c => c(payload))
+  }
+
+  generateId(): string {
+    const md5sum = crypto.createHash('md5')
+
+    md5sum.update(Date.now().toString(), 'utf8')
+    md5sum.update(this.queryName)
+    md5sum.update(this.filePath)
+
+    return md5sum.digest('hex')
+  }
+
+  async initDump(): Promise<void> {
+    this.status = ExportStatus.Exporting
+    this.tmpDir = await promises.mkdtemp(path.join(os.tmpdir(), 'bks-dump-'))
+
+    const keys = _.flatten(await Promise.all(this.tables.map(async (t) => {
+      const tableKeys: TableKey[] = await this.connection.getTableKeys(t.name, t.schema)
+      // not every client fills in the schema
+      return tableKeys.map((k) => ({ ...k, fromTable: k.fromTable || t.name, fromSchema: k.fromSchema || t.schema }))
+    })))
+    this.ordered = sortByDependencies(this.tables, keys)
+    this.keys = new Map(_.toPairs(_.groupBy(keys, (k) => tableKey(k.fromSchema, k.fromTable))))
+  }
+
+  private get preamble(): string | undefined {
+    return foreignKeyChecksOff[this.connection.connectionType]
+  }
+
+  private async createSql(table: TableOrView): Promise<string> {
+    if (!this.outputOptions.createTable) return ''
+    const result = await this.connection.getTableCreateScript(table.name, table.schema)
+    if (!result) return ''
+    const script: string = _.isArray(result) ? result[0] : result
+    return script.endsWith(';') ? script : `${script};`
+  }
+
+  private async postSql(table: TableOrView): Promise<string> {
+    const statements = []
+    if (this.outputOptions.indexes && !createScriptHasIndexes.includes(this.connection.connectionType)) {
+      const indexes = await this.connection.listTableIndexes(table.name, table.schema)
+      const additions = indexes
+        .filter((i) => !i.primary)
+        .map((i) => ({ name: i.name, columns: i.columns, unique: i.unique }))
+      if (additions.length) {
+        statements.push(this.connection.alterIndexSql({ table: table.name, schema: table.schema, additions, drops: [] }))
+      }
+    }
+    const blocks = [joinStatements(statements)]
+    if (this.outputOptions.triggers) {
+      const triggers = await this.connection.listTableTriggers(table.name, table.schema)
+      blocks.push(...triggerCreateScripts(triggers).map((t) => triggerBlock(t, this.connection.connectionType)))
+    }
+    return blocks.filter((b) => !!b).join('\n')
+  }
+
+  private relationSql(table: TableOrView): string {
+    if (!this.outputOptions.createTable || createScriptHasRelations.includes(this.connection.connectionType)) return ''
+    const additions = groupRelations(this.keys.get(tableKey(table.schema, table.name)) || [])
+      .map((keys) => relationSpec(keys, keys[0].toSchema))
+    if (!additions.length) return ''
+    return joinStatements([this.connection.alterRelationSql({ table: table.name, schema: table.schema, additions, drops: [] })])
+  }
+
+  // runs (or continues) the per table exports, stopping early if paused or aborted
+  async dumpTables(): Promise<void> {
+    while (this.tablesDone < this.ordered.length) {
+      if (this.status !== ExportStatus.Exporting) return
+      const table = this.ordered[this.tablesDone]
+
+      if (!this.current) {
+        const dataPath = path.join(this.tmpDir, `${this.tablesDone}.sql`)
+        this.parts.push({
+          table,
+          dataPath,
+          create: await this.createSql(table),
+          post: await this.postSql(table),
+          relations: this.relationSql(table),
+        })
+        this.current = new SqlExporter(
+          dataPath, this.connection, table, '', '', [],
+          { ...this.options, deleteOnAbort: false, compression: 'none' },
+          { createTable: false, schema: this.outputOptions.schema }
+        )
+        const exported = this.countExported
+        this.current.onProgress((progress) => {
+          this.countExported = exported + progress.countExported
+          this.currentProgress = progress.percentComplete ? progress.percentComplete / 100 : 0
+          this.notify()
+        })
+        await this.current.exportToFile()
+      } else {
+        await this.current.resume()
+      }
+
+      if (this.current.status === ExportStatus.Paused) return
+      if (this.current.status === ExportStatus.Error) throw this.current.error
+      if (this.current.status !== ExportStatus.Completed) return
+
+      this.current = undefined
+      this.currentProgress = 0
+      this.tablesDone += 1
+      this.countTotal = this.countExported
+      this.notify()
+    }
+  }
+
+  private async copyInto(handle: promises.FileHandle | ExportWriter, sourcePath: string): Promise<void> {
+    for await (const chunk of fs.createReadStream(sourcePath)) {
+      await handle.write(chunk)
+    }
+  }
+
+  private async writeSingleFile(): Promise<void> {
+    const handle = await openWriter(this.filePath, this.options.compression)
+    try {
+      await handle.write(`-- ${this.queryName}, exported ${new Date().toISOString()}\n\n`)
+      if (this.preamble) await handle.write(`${this.preamble}\n\n`)
+      for (const part of this.parts) {
+        if (part.create) await handle.write(`${part.create}\n\n`)
+      }
+      for (const part of this.parts) {
+        const schema = part.table.schema ? `${part.table.schema}.` : ''
+        await handle.write(`-- Data for ${schema}${part.table.name}\n`)
+        await this.copyInto(handle, part.dataPath)
+        await handle.write('\n')
+      }
+      for (const part of this.parts) {
+        if (part.post) await handle.write(`${part.post}\n`)
+      }
+      for (const part of this.parts) {
+        if (part.relations) await handle.write(`${part.relations}\n`)
+      }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private async writeZip(): Promise<void> {
+    const output = fs.createWriteStream(this.filePath)
+    const archive = archiver('zip')
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('close', () => resolve())
+      archive.on('error', reject)
+    })
+    archive.pipe(output)
+
+    const relations = this.parts.map((p) => p.relations).filter((r) => !!r)
+    // the foreign keys get a file of their own after every table
+    const width = String(this.parts.length + 1).length
+    for (const [idx, part] of this.parts.entries()) {
+      // numbered so restoring the files in name order respects the foreign keys
+      const prefix = String(idx + 1).padStart(width, '0')
+      const schema = part.table.schema ? `${part.table.schema}.` : ''
+      const tablePath = path.join(this.tmpDir, `${idx}.table.sql`)
+      const handle = await promises.open(tablePath, 'w+')
+      try {
+        if (this.preamble) await handle.write(`${this.preamble}\n\n`)
+        if (part.create) await handle.write(`${part.create}\n\n`)
+        await this.copyInto(handle, part.dataPath)
+        if (part.post) await handle.write(`\n${part.post}\n`)
+      } finally {
+        await handle.close()
+      }
+      archive.file(tablePath, { name: `${prefix}_${schema}${part.table.name}.sql` })
+    }
+    if (relations.length) {
+      const prefix = String(this.parts.length + 1).padStart(width, '0')
+      archive.append(`${relations.join('\n')}\n`, { name: `${prefix}_foreign_keys.sql` })
+    }
+    await archive.finalize()
+    await finished
+  }
+
+  async finalizeDump(): Promise<void> {
+    if (this.status === ExportStatus.Aborted) return
+    if (this.outputOptions.splitFiles) {
+      await this.writeZip()
+    } else {
+      await this.writeSingleFile()
+    }
+    this.status = ExportStatus.Completed
+  }
+
+  private async cleanup(): Promise<void> {
+    if (this.tmpDir) {
+      await promises.rmdir(this.tmpDir, { recursive: true })
+      this.tmpDir = undefined
+    }
+    if (this.status !== ExportStatus.Completed && this.options.deleteOnAbort) {
+      await promises.unlink(this.filePath).catch(() => null)
+    }
+  }
+
+  private async run(step: () => Promise<void>): Promise<void> {
+    try {
+      await step()
+      await this.dumpTables()
+      if (this.status === ExportStatus.Paused) return
+      await this.finalizeDump()
+      await this.cleanup()
+    } catch (error) {
+      this.status = ExportStatus.Error
+      this.error = error
+      log.error(error)
+      await this.cleanup()
+    }
+  }
+
+  async exportToFile(): Promise<void> {
+    await this.run(() => this.initDump())
+  }
+
+  async resume(): Promise<void> {
+    if (this.status !== ExportStatus.Paused) return
+    await this.run(async () => {
+      this.status = ExportStatus.Exporting
+    })
+  }
+
+  onProgress(func: (progress: ExportProgress) => void): void {
+    this.callbacks.progress.push(func)
+  }
+
+  offProgress(func: (progress: ExportProgress) => void): void {
+    this.callbacks.progress = this.callbacks.progress.filter(f => f !== func)
+  }
+
+  abort(): void {
+    const wasPaused = this.status === ExportStatus.Paused
+    this.status = ExportStatus.Aborted
+    this.current?.abort()
+    if (wasPaused) this.cleanup().catch((e) => log.error(e))
+  }
+
+  pause(): void {
+    if (this.status !== ExportStatus.Exporting) return
+    this.status = ExportStatus.Paused
+    this.current?.pause()
+  }
+
+  getFileName(): string {
+    return path.basename(this.filePath)
+  }
+}
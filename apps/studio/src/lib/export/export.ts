@@ -1,4 +1,3 @@
-import fs from 'fs'
 import path from 'path'
 import crypto from 'crypto'
 import { promises } from 'fs'
@@ -7,6 +6,7 @@ import rawlog from 'electron-log'
 import { BeeCursor, TableColumn, TableFilter, TableOrView } from '../db/models'
 import { DBConnection } from '../db/client'
 import { ExportOptions, ExportStatus, ProgressCallback, ExportProgress } from './models'
+import { ExportWriter, openWriter, withCompressionExtension } from './writer'
 import _ from 'lodash'
 import { Mutators } from '../data/tools'
 
@@ -29,7 +29,11 @@ export abstract class Export {
   timeLeft = 0
   private cursor?: BeeCursor
   private columns?: TableColumn[]
-  private fileHandle?: promises.FileHandle
+  private writer?: ExportWriter
+  // rows read while skipping ahead to countExported after a resume, see reopenCursor()
+  private pendingRows: any[][] = []
+  // whether the last row written still needs a rowSeparator, kept across a pause
+  private needsSeparator = false
   private callbacks = {
     progress: Array<ProgressCallback>()
   }
@@ -43,6 +47,7 @@ export abstract class Export {
     public filters: TableFilter[] | any[],
     public options: ExportOptions
   ) {
+    this.filePath = withCompressionExtension(filePath, this.compression)
     this.id = this.generateId()
   }
 
@@ -55,6 +60,27 @@ export abstract class Export {
   // do not add newlines / row separators
   abstract formatRow(data: any[]): string
 
+  // Where rows are written. Exporters that package their output override
+  // this and build filePath from it in afterExport()
+  protected get outputPath(): string {
+    return this.filePath
+  }
+
+  protected async afterExport(): Promise<void> {
+    // nothing to do for plain text formats
+  }
+
+  // Exporters that package their output themselves turn this off
+  get compression(): ExportOptions['compression'] {
+    return this.options.compression || 'none'
+  }
+
+  // One entry per output statement / line. Exporters that combine rows can
+  // hold rows back here and write them out in getFooter()
+  formatChunk(rows: any[][]): string[] {
+    return rows.map((row) => this.formatRow(row))
+  }
+
   protected rowToObject(row: any[]): Record<string, any> {
     const columns = this.dedupedColumns?.length ?  this.dedupedColumns : row.map((_r, i) => {
       return {dataType: 'unknown', columnName: `col_${i+1}`}
@@ -97,6 +123,8 @@ export abstract class Export {
   }
 
   notify() {
+    // the size on disk, so compressed exports report the compressed size
+    if (this.writer) this.fileSize = this.writer.bytesWritten
     const payload = {
       totalRecords: this.countTotal,
       countExported: this.countExported,
@@ -123,10 +151,21 @@ export abstract class Export {
   async initExport(): Promise<void> {
     this.status = ExportStatus.Exporting
     this.countExported = 0
+    this.needsSeparator = false
+    this.pendingRows = []
+    this.fileSize = 0
+
+    this.writer = await openWriter(this.outputPath, this.compression)
 
+    const columns = await this.openCursor()
+    const header = await this.getHeader(columns)
 
-    this.fileHandle = await fs.promises.open(this.filePath, 'w+')
+    if (header) {
+      await this.writer.write(header)
+    }
+  }
 
+  private async openCursor(): Promise<TableColumn[]> {
     let results;
     if (this.table) {
       results = await this.connection.selectTopStream(
@@ -136,16 +175,6 @@ export abstract class Export {
         this.options.chunkSize,
         this.table.schema,
       )
-      this.columns = results.columns
-      this.cursor = results.cursor
-
-      this.countTotal = results.totalRows
-      await this.cursor?.start()
-      const header = await this.getHeader(results.columns)
-
-      if (header) {
-        await this.fileHandle.write(header)
-      }
     }
     else {
       // string sql query, not table
@@ -153,47 +182,67 @@ export abstract class Export {
         this.query,
         this.options.chunkSize,
       )
-      this.columns = results.columns
-      this.cursor = results.cursor
-
-      this.countTotal = results.totalRows
-      await this.cursor?.start()
-      const header = await this.getHeader(results.columns)
+    }
+    this.columns = results.columns
+    this.cursor = results.cursor
+    this.countTotal = results.totalRows
+    await this.cursor?.start()
+    return results.columns
+  }
 
-      if (header) {
-        await this.fileHandle.write(header)
-      }
+  /**
+   * Used when the paused cursor can't be read from anymore (eg the connection dropped).
+   * Re-runs the export query and throws away the rows that are already in the file.
+   */
+  private async reopenCursor(): Promise<void> {
+    log.debug("reopening cursor, skipping", this.countExported, "rows")
+    await this.cursor?.close().catch((e) => log.warn("unable to close stale cursor", e))
+    await this.openCursor()
+    let skipped = 0
+    let rows: any[][]
+    do {
+      rows = await this.cursor.read()
+      skipped += rows.length
+    } while (rows.length > 0 && skipped < this.countExported)
+    // keep whatever we over-read so it goes out with the next chunk
+    this.pendingRows = skipped > this.countExported ? rows.slice(rows.length - (skipped - this.countExported)) : []
+  }
 
+  private async readRows(): Promise<any[][]> {
+    if (this.pendingRows.length) {
+      const rows = this.pendingRows
+      this.pendingRows = []
+      return rows
     }
+    return await this.cursor.read()
   }
 
   async exportData(): Promise<void> {
       // keep going until we don't get any more results.
       log.debug("running export")
       let rows: any[][]
-      let needsSeparator = false
       do {
         if (!this.cursor) {
           throw new Error("Something went wrong")
         }
-        rows = await this.cursor?.read()
-        for (let rI = 0; rI < rows.length; rI++) {
-          const row = rows[rI];
-          const mutated = Mutators.mutateRow(row, this.columns?.map((c) => c.dataType), this.preserveComplex, dialectFor(this.connection.connectionType))
-          const formatted = this.formatRow(mutated)
+        rows = await this.readRows()
+        const mutated = rows.map((row) => Mutators.mutateRow(row, this.columns?.map((c) => c.dataType), this.preserveComplex, dialectFor(this.connection.connectionType)))
+        const formattedRows = this.formatChunk(mutated)
+        for (let rI = 0; rI < formattedRows.length; rI++) {
+          const formatted = formattedRows[rI]
 
           // needsSeparator allows us to skip adding the rowSeparator
           // on the FINAL row of the file
-          if (needsSeparator === true) {
-            await this.fileHandle?.write(this.rowSeparator)
+          if (this.needsSeparator === true) {
+            await this.writer?.write(this.rowSeparator)
           }
-          await this.fileHandle?.write(formatted)
-          if (rI === rows.length - 1 && !this.needsFinalSeparator) {
+          await this.writer?.write(formatted)
+          if (rI === formattedRows.length - 1 && !this.needsFinalSeparator) {
             // do nothing
-            needsSeparator = true
+            this.needsSeparator = true
           } else {
-            await this.fileHandle?.write(this.rowSeparator)
-            needsSeparator = false
+            await this.writer?.write(this.rowSeparator)
+            this.needsSeparator = false
           }
         }
         this.countExported += rows.length
@@ -206,6 +255,8 @@ export abstract class Export {
         rows.length > 0 &&
         this.status === ExportStatus.Exporting
       )
+      // a paused export keeps its cursor so resume() can carry on reading
+      if (this.status === ExportStatus.Paused) return
       await this.cursor?.close()
   }
 
@@ -215,36 +266,76 @@ export abstract class Export {
       return;
     }
     const footer = await this.getFooter()
-    await this.fileHandle?.write(footer)
+    await this.writer?.write(footer)
     this.status = ExportStatus.Completed
   }
 
   async exportToFile(): Promise<void> {
-    try {
+    await this.run(async () => {
       log.debug("starting export")
       await this.initExport()
+    })
+  }
+
+  /**
+   * Picks a paused export back up, appending to the same file.
+   * Resolves once the export finishes (or is paused again).
+   */
+  async resume(): Promise<void> {
+    if (this.status !== ExportStatus.Paused) return
+    await this.run(async () => {
+      log.debug("resuming export at row", this.countExported)
+      this.status = ExportStatus.Exporting
+      if (!this.writer) {
+        this.writer = await openWriter(this.outputPath, this.compression, 'a')
+      }
+      // the time spent paused shouldn't count towards the time estimate
+      this.lastChunkTime = 0
+      try {
+        this.pendingRows = await this.cursor.read()
+      } catch (ex) {
+        log.warn("paused cursor is gone, restarting from the last exported row", ex)
+        await this.reopenCursor()
+      }
+    })
+  }
+
+  private async run(prepare: () => Promise<void>): Promise<void> {
+    try {
+      await prepare()
       await this.exportData()
+      if (this.status === ExportStatus.Paused) return
+
       await this.finalizeExport()
 
-      await this.fileHandle?.close()
+      await this.closeWriter()
+      if (this.status === ExportStatus.Completed) {
+        await this.afterExport()
+      }
       if (this.status === ExportStatus.Aborted) {
         if (this.options.deleteOnAbort) {
-          await promises.unlink(this.filePath)
+          await promises.unlink(this.outputPath)
         }
       }
     } catch (error) {
       this.status = ExportStatus.Error
       this.error = error
       log.error(error)
-      await this.fileHandle?.close()
+      await this.cursor?.close().catch((e) => log.warn("unable to close cursor", e))
+      await this.closeWriter()
       if (this.options.deleteOnAbort) {
-        await promises.unlink(this.filePath)
+        await promises.unlink(this.outputPath)
       }
-    } finally {
-      this.fileHandle = undefined
     }
   }
 
+  private async closeWriter(): Promise<void> {
+    if (!this.writer) return
+    await this.writer.close()
+    this.fileSize = this.writer.bytesWritten
+    this.writer = undefined
+  }
+
   calculateTimeLeft(): void {
     if (this.lastChunkTime) {
       this.timeElapsed += (Date.now() - this.lastChunkTime)
@@ -266,10 +357,22 @@ export abstract class Export {
   }
 
   abort(): void {
+    const wasPaused = this.status === ExportStatus.Paused
     this.status = ExportStatus.Aborted
+    // nothing is running to notice the abort, so clean up here
+    if (wasPaused) this.cleanupPaused().catch((e) => log.error(e))
+  }
+
+  private async cleanupPaused(): Promise<void> {
+    await this.cursor?.close().catch((e) => log.warn("unable to close cursor", e))
+    await this.closeWriter()
+    if (this.options.deleteOnAbort) {
+      await promises.unlink(this.outputPath)
+    }
   }
 
   pause(): void {
+    if (this.status !== ExportStatus.Exporting) return
     this.status = ExportStatus.Paused
   }
 
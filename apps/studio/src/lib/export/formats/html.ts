@@ -0,0 +1,78 @@
+import _ from 'lodash'
+import { DBConnection } from "../../db/client"
+import { TableColumn, TableFilter, TableOrView } from "../../db/models"
+import { Export } from "../export"
+import { ExportOptions } from "../models"
+import { escapeXml } from './xml'
+
+interface OutputOptionsHtml {
+  // put the table or query name above the table as a heading
+  title: boolean
+  // include a small stylesheet so the file looks reasonable on its own
+  styled: boolean
+}
+
+const stylesheet = `
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2rem; }
+    table { border-collapse: collapse; font-size: 0.9rem; }
+    th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f3f3f3; }
+    tr:nth-child(even) td { background: #fafafa; }
+    td.null { color: #999; font-style: italic; }
+`
+
+export class HtmlExporter extends Export {
+  static extension = "html"
+  readonly format: string = 'html'
+  rowSeparator = '\n'
+
+  preserveComplex = false
+
+  private outputOptions: OutputOptionsHtml
+
+  constructor(
+    filePath: string,
+    connection: DBConnection,
+    table: TableOrView,
+    query: string,
+    queryName: string,
+    filters: TableFilter[] | any[],
+    options: ExportOptions,
+    outputOptions: OutputOptionsHtml
+  ) {
+    super(filePath, connection, table, query, queryName, filters, options)
+    this.outputOptions = outputOptions
+  }
+
+  async getHeader(columns: TableColumn[]): Promise<string> {
+    const name = escapeXml(this.table ? this.table.name : this.queryName)
+    const style = this.outputOptions.styled ? `  <style>${stylesheet}  </style>\n` : ''
+    const heading = this.outputOptions.title ? `  <h1>${name}</h1>\n` : ''
+    const headerRow = columns?.length
+      ? `    <thead>\n      <tr>${this.dedupedColumns.map((c) => `<th>${escapeXml(c.columnName)}</th>`).join('')}</tr>\n    </thead>\n`
+      : ''
+    return [
+      '<!DOCTYPE html>\n',
+      '<html>\n<head>\n  <meta charset="utf-8">\n',
+      `  <title>${name}</title>\n`,
+      style,
+      '</head>\n<body>\n',
+      heading,
+      '  <table>\n',
+      headerRow,
+      '    <tbody>\n'
+    ].join('')
+  }
+
+  getFooter() {
+    return '    </tbody>\n  </table>\n</body>\n</html>\n'
+  }
+
+  formatRow(row: any[]): string {
+    const cells = row.map((value) => {
+      if (_.isNil(value)) return '<td class="null">NULL</td>'
+      return `<td>${escapeXml(value)}</td>`
+    })
+    return `      <tr>${cells.join('')}</tr>`
+  }
+}
@@ -0,0 +1,57 @@
+import _ from 'lodash'
+import { DBConnection } from "../../db/client"
+import { TableColumn, TableFilter, TableOrView } from "../../db/models"
+import { Export } from "../export"
+import { ExportOptions } from "../models"
+
+interface OutputOptionsMarkdown {
+  // put the table or query name above the table as a heading
+  title: boolean
+}
+
+function escapeCell(value: any): string {
+  if (_.isNil(value)) return ''
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>')
+}
+
+export class MarkdownExporter extends Export {
+  static extension = "md"
+  readonly format: string = 'md'
+  rowSeparator = '\n'
+
+  preserveComplex = false
+
+  private outputOptions: OutputOptionsMarkdown
+
+  constructor(
+    filePath: string,
+    connection: DBConnection,
+    table: TableOrView,
+    query: string,
+    queryName: string,
+    filters: TableFilter[] | any[],
+    options: ExportOptions,
+    outputOptions: OutputOptionsMarkdown
+  ) {
+    super(filePath, connection, table, query, queryName, filters, options)
+    this.outputOptions = outputOptions
+  }
+
+  async getHeader(columns: TableColumn[]): Promise<string> {
+    const title = this.outputOptions.title ? `# ${this.table ? this.table.name : this.queryName}\n\n` : ''
+    if (!columns?.length) return title
+    const names = this.dedupedColumns.map((c) => escapeCell(c.columnName))
+    return `${title}| ${names.join(' | ')} |\n${names.map(() => '| --- ').join('')}|\n`
+  }
+
+  getFooter() {
+    return ""
+  }
+
+  formatRow(row: any[]): string {
+    return `| ${row.map(escapeCell).join(' | ')} |`
+  }
+}
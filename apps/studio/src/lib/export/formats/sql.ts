@@ -1,14 +1,38 @@
 import knexlib from "knex";
 import { Knex } from 'knex';
 import _ from 'lodash';
+import { Dialect, dialectFor, SchemaItem } from '@shared/lib/dialects/models';
+import { SqlGenerator } from '@shared/lib/sql/SqlGenerator';
+import { translateDataType } from '@shared/lib/sql/TypeTranslator';
 import { DBConnection } from '../../db/client';
-import { TableFilter, TableOrView } from '../../db/models';
+import { ExtendedTableColumn, TableFilter, TableOrView } from '../../db/models';
 import { Export } from '../export';
 import { ExportOptions } from '../models';
 
+export type SqlUpsertMode = 'none' | 'upsert'
+
 interface OutputOptionsSql {
   createTable: boolean,
   schema: boolean
+  // rows per INSERT statement, 1 means one statement per row
+  batchSize?: number
+  // 'upsert' updates rows whose primary key already exists
+  upsert?: SqlUpsertMode
+  transaction?: boolean
+  // write SQL for a different kind of database, null for the connection's own
+  targetDialect?: Dialect | null
+}
+
+const transactionStart = {
+  mssql: 'BEGIN TRANSACTION',
+  mysql2: 'START TRANSACTION',
+  pg: 'BEGIN',
+  sqlite3: 'BEGIN TRANSACTION'
+}
+
+// SQL Server refuses more than 1000 rows in a VALUES list
+const maxBatchSize = {
+  mssql: 1000
 }
 export class SqlExporter extends Export {
   public static extension = "sql"
@@ -17,6 +41,7 @@ export class SqlExporter extends Export {
   readonly rowSeparator: string = ';\n'
   readonly knexTypes: any = {
     "cockroachdb": "pg",
+    "duckdb": "pg",
     "mariadb": "mysql2",
     "mysql": "mysql2",
     "postgresql": "pg",
@@ -24,6 +49,9 @@ export class SqlExporter extends Export {
     "sqlserver": "mssql"
   }
   private outputOptions: OutputOptionsSql
+  private primaryKeys: string[] = []
+  // rows waiting to fill up a batch, flushed in getFooter
+  private batchBuffer: Record<string, any>[] = []
   knex: Knex
 
   constructor(
@@ -37,34 +65,131 @@ export class SqlExporter extends Export {
     outputOptions: OutputOptionsSql
   ) {
     super(filePath, connection, table, query, queryName, filters, options)
-    this.outputOptions = outputOptions
+    this.outputOptions = { batchSize: 1, upsert: 'none', transaction: false, targetDialect: null, ...outputOptions }
     if (!this.connection.connectionType || !this.knexTypes[this.connection.connectionType]) {
       throw new Error("SQL export not supported on connection type " + this.connection.connectionType)
     }
+    if (this.outputOptions.targetDialect && !this.knexTypes[this.outputOptions.targetDialect]) {
+      throw new Error("SQL export not supported for " + this.outputOptions.targetDialect)
+    }
+
+    this.knex = knexlib({ client: this.knexClient || undefined })
+  }
+
+  get sourceDialect(): Dialect {
+    return dialectFor(this.connection.connectionType)
+  }
 
-    this.knex = knexlib({ client: this.knexTypes[this.connection.connectionType] || undefined })
+  get targetDialect(): Dialect {
+    return this.outputOptions.targetDialect || this.sourceDialect
+  }
+
+  get translating(): boolean {
+    return this.targetDialect !== this.sourceDialect
+  }
+
+  get knexClient(): string {
+    return this.knexTypes[this.outputOptions.targetDialect || this.connection.connectionType]
+  }
+
+  // sqlite has no schemas to qualify names with
+  get qualifySchema(): boolean {
+    return this.outputOptions.schema && !!this.table.schema && this.targetDialect !== 'sqlite'
+  }
+
+  get batchSize(): number {
+    const size = Math.max(1, Number(this.outputOptions.batchSize) || 1)
+    return Math.min(size, maxBatchSize[this.knexClient] || size)
   }
 
   async getHeader(): Promise<string> {
     console.log("getting header")
-    if (this.outputOptions.createTable) {
+    this.batchBuffer = []
+    if (this.outputOptions.upsert === 'upsert') {
+      const keys = await this.connection.getPrimaryKeys(this.table.name, this.table.schema)
+      this.primaryKeys = _.sortBy(keys, 'position').map((k) => k.columnName)
+      if (!this.primaryKeys.length) {
+        throw new Error(`${this.table.name} has no primary key, so rows can't be upserted`)
+      }
+    }
+    const statements = []
+    if (this.outputOptions.createTable && this.translating) {
+      statements.push(`${await this.translatedCreateScript()};`)
+    } else if (this.outputOptions.createTable) {
       const schema = this.table.schema && this.outputOptions.schema ? this.table.schema : ''
 
       const result = await this.connection.getTableCreateScript(this.table.name, schema)
       if (result) {
         console.log("returning header ", result)
         const returnValue: string = _.isArray(result) ? result[0] : result
-        return returnValue.endsWith(';') ? returnValue : `${returnValue};`
+        statements.push(returnValue.endsWith(';') ? returnValue : `${returnValue};`)
       }
     }
-    return ""
+    if (this.outputOptions.transaction) {
+      statements.push(`${transactionStart[this.knexClient]};`)
+    }
+    return statements.length ? statements.join('\n') + '\n' : ""
+  }
+
+  /**
+   * The source database's own create script is no use to a different database,
+   * so rebuild the table from its columns with the types mapped onto the target.
+   */
+  private async translatedCreateScript(): Promise<string> {
+    const columns: ExtendedTableColumn[] = await this.connection.listTableColumns(this.table.name, this.table.schema)
+    const keys = await this.connection.getPrimaryKeys(this.table.name, this.table.schema)
+    const primaries = keys.map((k) => k.columnName)
+    const items: SchemaItem[] = _.sortBy(columns, 'ordinalPosition').map((c) => {
+      const primaryKey = primaries.includes(c.columnName)
+      return {
+        columnName: c.columnName,
+        dataType: primaryKey && primaries.length === 1 && this.isAutoIncrement(c)
+          ? 'autoincrement'
+          : translateDataType(c.dataType, this.targetDialect),
+        nullable: c.nullable,
+        primaryKey,
+      }
+    })
+    const generator = new SqlGenerator(this.targetDialect)
+    return generator.buildSql({
+      name: this.table.name,
+      schema: this.qualifySchema ? this.table.schema : undefined,
+      columns: items
+    })
+  }
+
+  private isAutoIncrement(column: ExtendedTableColumn): boolean {
+    const hints = `${column.defaultValue || ''} ${column.extra || ''} ${column.dataType}`.toLowerCase()
+    return /nextval\(|auto_increment|autoincrement|identity|serial/.test(hints)
   }
 
   getFooter() {
-    return ""
+    const statements = []
+    if (this.batchBuffer.length) {
+      statements.push(`${this.formatRows(this.batchBuffer)}${this.rowSeparator}`)
+      this.batchBuffer = []
+    }
+    if (this.outputOptions.transaction) {
+      statements.push(`COMMIT${this.rowSeparator}`)
+    }
+    return statements.join('')
+  }
+
+  formatChunk(rows: any[][]): string[] {
+    if (this.batchSize === 1) return super.formatChunk(rows)
+    this.batchBuffer.push(...rows.map((row) => this.rowObject(row)))
+    const batches = []
+    while (this.batchBuffer.length >= this.batchSize) {
+      batches.push(this.formatRows(this.batchBuffer.splice(0, this.batchSize)))
+    }
+    return batches
   }
 
   formatRow(rowArray: any): string {
+    return this.formatRows([this.rowObject(rowArray)])
+  }
+
+  private rowObject(rowArray: any[]): Record<string, any> {
     const row = this.rowToObject(rowArray)
     // error found when attemping to copy over an array into a JSON field https://github.com/beekeeper-studio/beekeeper-studio/issues/1647
     // which is an issue with Knex itself https://github.com/knex/knex/issues/5430
@@ -73,14 +198,48 @@ export class SqlExporter extends Export {
         row[r] = JSON.stringify(row[r])
       }
     }
+    return row
+  }
+
+  private formatRows(rows: Record<string, any>[]): string {
+    if (this.outputOptions.upsert === 'upsert' && this.knexClient === 'mssql') {
+      return this.mergeQuery(rows)
+    }
 
     let knex = this.knex(this.table.name)
-    if (this.outputOptions.schema && this.table.schema) {
+    if (this.qualifySchema) {
       knex = knex.withSchema(this.table.schema)
     }
 
+    const insert = knex.insert(rows.length === 1 ? rows[0] : rows)
+    if (this.outputOptions.upsert === 'upsert') {
+      // ON CONFLICT DO UPDATE, or ON DUPLICATE KEY UPDATE for mysql
+      return insert.onConflict(this.primaryKeys).merge().toQuery()
+    }
+    return insert.toQuery()
+  }
 
-    const content = knex.insert(row).toQuery()
-    return content
+  // knex doesn't do upserts for SQL Server, so we build the MERGE ourselves
+  private mergeQuery(rows: Record<string, any>[]): string {
+    const columns = Object.keys(rows[0])
+    const id = (name: string) => this.knex.raw('??', [name]).toQuery()
+    const target = this.qualifySchema
+      ? `${id(this.table.schema)}.${id(this.table.name)}`
+      : id(this.table.name)
+    const values = rows.map((row) => {
+      const params = columns.map((c) => row[c])
+      return `(${this.knex.raw(columns.map(() => '?').join(', '), params).toQuery()})`
+    })
+    const on = this.primaryKeys.map((k) => `target.${id(k)} = source.${id(k)}`).join(' AND ')
+    const updates = columns
+      .filter((c) => !this.primaryKeys.includes(c))
+      .map((c) => `target.${id(c)} = source.${id(c)}`)
+    const whenMatched = updates.length ? ` WHEN MATCHED THEN UPDATE SET ${updates.join(', ')}` : ''
+    return [
+      `MERGE INTO ${target} AS target`,
+      `USING (VALUES ${values.join(', ')}) AS source (${columns.map(id).join(', ')})`,
+      `ON ${on}${whenMatched}`,
+      `WHEN NOT MATCHED THEN INSERT (${columns.map(id).join(', ')}) VALUES (${columns.map((c) => `source.${id(c)}`).join(', ')})`
+    ].join(' ')
   }
 }
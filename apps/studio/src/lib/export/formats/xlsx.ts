@@ -0,0 +1,171 @@
+import fs from 'fs'
+import { promises } from 'fs'
+import archiver from 'archiver'
+import _ from 'lodash'
+import { DBConnection } from "../../db/client"
+import { TableColumn, TableFilter, TableOrView } from "../../db/models"
+import { Export } from "../export"
+import { ExportOptions } from "../models"
+import { escapeXml } from './xml'
+
+interface OutputOptionsXlsx {
+  header: boolean
+  sheetName: string
+}
+
+// Excel counts days from 1899-12-30
+const excelEpochOffset = 25569
+const msPerDay = 24 * 60 * 60 * 1000
+// Excel refuses longer cell values
+const maxCellLength = 32767
+
+const datePattern = /^(date|datetime|datetime2|smalldatetime|timestamp|timestamptz)\b/i
+// the wall clock part of the date strings drivers return, any offset after it is ignored
+const dateValuePattern = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?/
+
+// milliseconds since the epoch as if the date were UTC, excel serials have no timezone
+function wallClockTime(value: any): number {
+  if (_.isDate(value)) return value.getTime()
+  const match = dateValuePattern.exec(String(value))
+  if (!match) return NaN
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map((part) => Number(part || 0))
+  const millis = match[7] ? Math.round(Number(match[7]) * 1000) : 0
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds, millis)
+}
+
+const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+
+const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+
+const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+
+// style 0 is the default, 1 is a date time, 2 is bold for the header
+const styles = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`
+
+function workbook(sheetName: string) {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+}
+
+function stringCell(value: string, style = 0): string {
+  const s = style ? ` s="${style}"` : ''
+  return `<c t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(value.slice(0, maxCellLength))}</t></is></c>`
+}
+
+/**
+ * Rows are streamed into the worksheet xml like any other text export,
+ * once that's done it gets zipped up with the rest of the workbook.
+ */
+export class XlsxExporter extends Export {
+  static extension = "xlsx"
+  readonly format: string = 'xlsx'
+  rowSeparator = '\n'
+
+  preserveComplex = false
+
+  private outputOptions: OutputOptionsXlsx
+
+  constructor(
+    filePath: string,
+    connection: DBConnection,
+    table: TableOrView,
+    query: string,
+    queryName: string,
+    filters: TableFilter[] | any[],
+    options: ExportOptions,
+    outputOptions: OutputOptionsXlsx
+  ) {
+    super(filePath, connection, table, query, queryName, filters, options)
+    this.outputOptions = outputOptions
+  }
+
+  protected get outputPath(): string {
+    return `${this.filePath}.sheet.xml`
+  }
+
+  // an xlsx file is already a zip
+  get compression(): ExportOptions['compression'] {
+    return 'none'
+  }
+
+  get sheetName(): string {
+    const name = this.outputOptions.sheetName || (this.table ? this.table.name : this.queryName) || 'Sheet1'
+    // sheet names are limited to 31 characters and can't contain []:*?/\
+    return name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31)
+  }
+
+  async getHeader(columns: TableColumn[]): Promise<string> {
+    const start = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>\n'
+    if (!columns?.length || !this.outputOptions.header) return start
+    const cells = this.dedupedColumns.map((c) => stringCell(c.columnName, 2))
+    return `${start}<row>${cells.join('')}</row>\n`
+  }
+
+  getFooter() {
+    return '</sheetData></worksheet>\n'
+  }
+
+  formatCell(value: any, dataType?: string): string {
+    if (_.isNil(value)) return '<c/>'
+    if (_.isBoolean(value)) return `<c t="b"><v>${value ? 1 : 0}</v></c>`
+    if (_.isNumber(value) && isFinite(value)) return `<c><v>${value}</v></c>`
+    if (dataType && datePattern.test(dataType)) {
+      const time = wallClockTime(value)
+      if (!isNaN(time)) return `<c s="1"><v>${time / msPerDay + excelEpochOffset}</v></c>`
+    }
+    return stringCell(String(value))
+  }
+
+  formatRow(row: any[]): string {
+    const columns = this.dedupedColumns
+    return `<row>${row.map((value, idx) => this.formatCell(value, columns[idx]?.dataType)).join('')}</row>`
+  }
+
+  protected async afterExport(): Promise<void> {
+    const output = fs.createWriteStream(this.filePath)
+    const archive = archiver('zip')
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('close', () => resolve())
+      archive.on('error', reject)
+    })
+    archive.pipe(output)
+    archive.append(contentTypes, { name: '[Content_Types].xml' })
+    archive.append(rootRels, { name: '_rels/.rels' })
+    archive.append(workbook(this.sheetName), { name: 'xl/workbook.xml' })
+    archive.append(workbookRels, { name: 'xl/_rels/workbook.xml.rels' })
+    archive.append(styles, { name: 'xl/styles.xml' })
+    archive.file(this.outputPath, { name: 'xl/worksheets/sheet1.xml' })
+    await archive.finalize()
+    await finished
+    await promises.unlink(this.outputPath)
+  }
+}
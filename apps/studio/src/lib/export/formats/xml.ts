@@ -0,0 +1,75 @@
+import _ from 'lodash'
+import { DBConnection } from "../../db/client"
+import { TableColumn, TableFilter, TableOrView } from "../../db/models"
+import { Export } from "../export"
+import { ExportOptions } from "../models"
+
+interface OutputOptionsXml {
+  rootElement: string
+  rowElement: string
+}
+
+export function escapeXml(value: any): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // control characters aren't allowed in XML 1.0 at all
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+}
+
+// column names can contain anything, element names can't
+export function xmlElementName(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_.-]/g, '_')
+  return /^[A-Za-z_]/.test(cleaned) && !/^xml/i.test(cleaned) ? cleaned : `_${cleaned}`
+}
+
+export class XmlExporter extends Export {
+  static extension = "xml"
+  readonly format: string = 'xml'
+  rowSeparator = '\n'
+
+  preserveComplex = false
+
+  private outputOptions: OutputOptionsXml
+
+  constructor(
+    filePath: string,
+    connection: DBConnection,
+    table: TableOrView,
+    query: string,
+    queryName: string,
+    filters: TableFilter[] | any[],
+    options: ExportOptions,
+    outputOptions: OutputOptionsXml
+  ) {
+    super(filePath, connection, table, query, queryName, filters, options)
+    this.outputOptions = {
+      rootElement: xmlElementName(outputOptions.rootElement || 'rows'),
+      rowElement: xmlElementName(outputOptions.rowElement || 'row'),
+    }
+  }
+
+  async getHeader(_columns: TableColumn[]): Promise<string> {
+    const xsi = 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<${this.outputOptions.rootElement} ${xsi}>\n`
+  }
+
+  getFooter() {
+    return `</${this.outputOptions.rootElement}>\n`
+  }
+
+  formatRow(rowArray: any[]): string {
+    const row = this.rowToObject(rowArray)
+    const fields = _.map(row, (value, name) => {
+      const element = xmlElementName(name)
+      if (_.isNil(value)) return `    <${element} xsi:nil="true"/>`
+      return `    <${element}>${escapeXml(value)}</${element}>`
+    })
+    const element = this.outputOptions.rowElement
+    return `  <${element}>\n${fields.join('\n')}\n  </${element}>`
+  }
+}
@@ -2,4 +2,9 @@ export * from './export'
 export * from './formats/csv'
 export * from './formats/json'
 export * from './formats/sql'
-export * from './formats/jsonline'
\ No newline at end of file
+export * from './formats/jsonline'
+export * from './dump'
+export * from './formats/xlsx'
+export * from './formats/markdown'
+export * from './formats/html'
+export * from './formats/xml'
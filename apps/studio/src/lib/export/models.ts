@@ -8,9 +8,13 @@ export enum ExportStatus {
   Error = 'error'
 }
 
+export type ExportCompression = 'none' | 'gzip' | 'zstd'
+
 export interface ExportOptions {
   chunkSize: number;
   deleteOnAbort: boolean;
+  // the file is compressed as it's written, the matching extension is added to filePath
+  compression?: ExportCompression;
 }
 
 export interface ExportProgress {
@@ -0,0 +1,97 @@
+import fs from 'fs'
+import { once } from 'events'
+import { Transform } from 'stream'
+import zlib from 'zlib'
+import { ExportCompression } from './models'
+
+export const CompressionExtensions: Record<ExportCompression, string> = {
+  none: '',
+  gzip: 'gz',
+  zstd: 'zst',
+}
+
+export function withCompressionExtension(filePath: string, compression?: ExportCompression): string {
+  const extension = CompressionExtensions[compression || 'none']
+  if (!extension || filePath.endsWith(`.${extension}`)) return filePath
+  return `${filePath}.${extension}`
+}
+
+/**
+ * Where an export's text goes. Compressed writers still report
+ * bytesWritten as the size of the file on disk.
+ */
+export interface ExportWriter {
+  readonly bytesWritten: number
+  write(data: string | Buffer): Promise<void>
+  close(): Promise<void>
+}
+
+class FileWriter implements ExportWriter {
+  private handle: fs.promises.FileHandle
+  bytesWritten: number
+
+  constructor(handle: fs.promises.FileHandle, bytesWritten = 0) {
+    this.handle = handle
+    this.bytesWritten = bytesWritten
+  }
+
+  async write(data: string | Buffer): Promise<void> {
+    const { bytesWritten } = await this.handle.write(data)
+    this.bytesWritten += bytesWritten
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close()
+  }
+}
+
+class CompressedWriter implements ExportWriter {
+  private closed = false
+
+  constructor(private compressor: Transform, private output: fs.WriteStream, private initialSize = 0) {
+    compressor.pipe(output)
+  }
+
+  get bytesWritten(): number {
+    return this.initialSize + this.output.bytesWritten
+  }
+
+  async write(data: string | Buffer): Promise<void> {
+    if (!this.compressor.write(data)) {
+      await once(this.compressor, 'drain')
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    const finished = once(this.output, 'close')
+    this.compressor.end()
+    await finished
+  }
+}
+
+async function compressor(compression: ExportCompression): Promise<Transform> {
+  switch (compression) {
+    case 'gzip':
+      return zlib.createGzip()
+    case 'zstd': {
+      // a native module, so it's only loaded by the exports that use it
+      const { CompressStream } = await import('zstd-napi')
+      return new CompressStream()
+    }
+    default:
+      throw new Error(`Unknown compression ${compression}`)
+  }
+}
+
+// 'a' is used when resuming, gzip and zstd both allow several compressed frames back to back
+export async function openWriter(filePath: string, compression: ExportCompression = 'none', flags: 'w+' | 'a' = 'w+'): Promise<ExportWriter> {
+  const initialSize = flags === 'a' ? await fs.promises.stat(filePath).then((s) => s.size, () => 0) : 0
+  if (compression === 'none') {
+    return new FileWriter(await fs.promises.open(filePath, flags), initialSize)
+  }
+  const output = fs.createWriteStream(filePath, { flags: flags === 'a' ? 'a' : 'w' })
+  await once(output, 'open')
+  return new CompressedWriter(await compressor(compression), output, initialSize)
+}
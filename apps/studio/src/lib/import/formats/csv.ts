@@ -0,0 +1,78 @@
+import fs from 'fs'
+import Papa from 'papaparse'
+import { DBConnection } from "../../db/client"
+import { TableOrView } from "../../db/models"
+import { Import } from "../import"
+import { ColumnMapping, ImportOptions } from "../models"
+
+interface InputOptionsCsv {
+  header: boolean,
+  // empty string lets papaparse guess
+  delimiter: string
+}
+
+export class CsvImporter extends Import {
+  static extensions = ["csv", "tsv", "txt"]
+  readonly format: string = 'csv'
+  // CSV has no concept of null, empty cells are the closest thing
+  protected emptyIsNull = true
+
+  private inputOptions: InputOptionsCsv
+
+  constructor(
+    filePath: string,
+    connection: DBConnection,
+    table: TableOrView,
+    mapping: ColumnMapping[] | null,
+    options: ImportOptions,
+    inputOptions: InputOptionsCsv
+  ) {
+    super(filePath, connection, table, mapping, options)
+    this.inputOptions = inputOptions
+  }
+
+  // headerless files get positional names, col_1, col_2...
+  private columnNames(row: string[]): string[] {
+    return this.inputOptions.header ? row : row.map((_v, idx) => `col_${idx + 1}`)
+  }
+
+  private parse(stream: fs.ReadStream): AsyncIterable<string[]> {
+    return stream.pipe(Papa.parse(Papa.NODE_STREAM_INPUT, {
+      delimiter: this.inputOptions.delimiter,
+      skipEmptyLines: true
+    }))
+  }
+
+  async readColumns(): Promise<string[]> {
+    const stream = fs.createReadStream(this.filePath)
+    try {
+      for await (const row of this.parse(stream)) {
+        return this.columnNames(row)
+      }
+      return []
+    } finally {
+      stream.destroy()
+    }
+  }
+
+  async *readRecords(): AsyncIterable<Record<string, any>> {
+    this.bytesRead = 0
+    const stream = fs.createReadStream(this.filePath)
+    stream.on('data', (chunk) => { this.bytesRead += chunk.length })
+    let columns: string[] | null = null
+    // a preview stops early, the file mustn't stay open when it does
+    try {
+      for await (const row of this.parse(stream)) {
+        if (!columns) {
+          columns = this.columnNames(row)
+          if (this.inputOptions.header) continue
+        }
+        const record = {}
+        columns.forEach((column, idx) => { record[column] = row[idx] })
+        yield record
+      }
+    } finally {
+      stream.destroy()
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { promises } from 'fs'
+import _ from 'lodash'
+import { Import } from "../import"
+
+// Expects the whole file to be an array of objects, like the JSON exporter writes
+export class JsonImporter extends Import {
+  static extensions = ["json"]
+  readonly format: string = 'json'
+
+  private records: Record<string, any>[] | null = null
+
+  private async load(): Promise<Record<string, any>[]> {
+    if (this.records) return this.records
+    const content = await promises.readFile(this.filePath, 'utf-8')
+    const parsed = JSON.parse(content)
+    if (!_.isArray(parsed)) {
+      throw new Error(`${this.getFileName()} does not contain an array of objects`)
+    }
+    this.records = parsed
+    return this.records
+  }
+
+  async readColumns(): Promise<string[]> {
+    const records = await this.load()
+    return _.uniq(_.flatMap(records.slice(0, 100), (r) => Object.keys(r)))
+  }
+
+  async *readRecords(): AsyncIterable<Record<string, any>> {
+    const records = await this.load()
+    const step = records.length ? this.fileSize / records.length : 0
+    for (const [idx, record] of records.entries()) {
+      this.bytesRead = Math.round(step * (idx + 1))
+      yield record
+    }
+  }
+}
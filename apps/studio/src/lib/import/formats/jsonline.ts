@@ -0,0 +1,45 @@
+import fs from 'fs'
+import readline from 'readline'
+import _ from 'lodash'
+import { Import } from "../import"
+
+// One JSON object per line, blank lines are ignored
+export class JsonLineImporter extends Import {
+  static extensions = ["jsonl"]
+  readonly format: string = 'jsonl'
+
+  private async *lines(): AsyncIterable<Record<string, any>> {
+    const stream = fs.createReadStream(this.filePath, { encoding: 'utf-8' })
+    const reader = readline.createInterface({ input: stream, crlfDelay: Infinity })
+    try {
+      let lineNumber = 0
+      for await (const line of reader) {
+        lineNumber += 1
+        this.bytesRead += Buffer.byteLength(line) + 1
+        if (!line.trim()) continue
+        try {
+          yield JSON.parse(line)
+        } catch (ex) {
+          throw new Error(`Invalid JSON on line ${lineNumber}: ${ex.message}`)
+        }
+      }
+    } finally {
+      reader.close()
+      stream.destroy()
+    }
+  }
+
+  async readColumns(): Promise<string[]> {
+    const sample = []
+    for await (const record of this.lines()) {
+      sample.push(record)
+      if (sample.length >= 100) break
+    }
+    return _.uniq(_.flatMap(sample, (r) => Object.keys(r)))
+  }
+
+  async *readRecords(): AsyncIterable<Record<string, any>> {
+    this.bytesRead = 0
+    yield* this.lines()
+  }
+}
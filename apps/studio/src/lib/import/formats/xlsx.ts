@@ -0,0 +1,36 @@
+import XLSX from 'xlsx'
+import { Import } from "../import"
+
+// Only the first sheet is imported, its first row is the header
+export class XlsxImporter extends Import {
+  static extensions = ["xlsx", "xls"]
+  readonly format: string = 'xlsx'
+
+  private records: Record<string, any>[] | null = null
+
+  private load(): Record<string, any>[] {
+    if (this.records) return this.records
+    const workbook = XLSX.readFile(this.filePath, { cellDates: true })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!sheet) throw new Error(`${this.getFileName()} has no sheets`)
+    this.records = XLSX.utils.sheet_to_json(sheet, { defval: null })
+    return this.records
+  }
+
+  async readColumns(): Promise<string[]> {
+    const workbook = XLSX.readFile(this.filePath, { sheetRows: 1 })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!sheet) return []
+    const [header] = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })
+    return (header || []).map((h) => String(h))
+  }
+
+  async *readRecords(): AsyncIterable<Record<string, any>> {
+    const records = this.load()
+    const step = records.length ? this.fileSize / records.length : 0
+    for (const [idx, record] of records.entries()) {
+      this.bytesRead = Math.round(step * (idx + 1))
+      yield record
+    }
+  }
+}
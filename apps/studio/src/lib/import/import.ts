@@ -0,0 +1,254 @@
+import path from 'path'
+import crypto from 'crypto'
+import { promises } from 'fs'
+import _ from 'lodash'
+import rawlog from 'electron-log'
+import { ExtendedTableColumn, TableOrView } from '../db/models'
+import { DatabaseElement, DBConnection } from '../db/client'
+import { ColumnMapping, ImportOptions, ImportProgress, ImportProgressCallback, ImportRowError, ImportStatus } from './models'
+
+const log = rawlog.scope('import/import')
+
+export abstract class Import {
+  // don't make stuff public you don't want observed in vue
+  id: string
+
+  countRead = 0
+  countImported = 0
+  countSkipped = 0
+  rowErrors: ImportRowError[] = []
+  error: Error | null = null
+  fileSize = 0
+  // readers keep this up to date so we can report progress without knowing the row count
+  bytesRead = 0
+  timeElapsed = 0
+  // set by formats that can't write a null, so their empty values stand in for it
+  protected emptyIsNull = false
+
+  // see set status()
+  private _status: ImportStatus = ImportStatus.Idle
+  private startTime = 0
+  private columns: ExtendedTableColumn[] = []
+  private callbacks = {
+    progress: Array<ImportProgressCallback>()
+  }
+
+  constructor(
+    public filePath: string,
+    public connection: DBConnection,
+    public table: TableOrView,
+    public mapping: ColumnMapping[] | null,
+    public options: ImportOptions
+  ) {
+    this.id = this.generateId()
+  }
+
+  // the column names found in the source file
+  abstract readColumns(): Promise<string[]>
+  // every record in the source file, keyed by the names from readColumns()
+  abstract readRecords(): AsyncIterable<Record<string, any>>
+
+  set status(status: ImportStatus) {
+    this._status = status
+    this.notify()
+  }
+
+  get status() {
+    return this._status
+  }
+
+  public get percentComplete(): number {
+    if ([ImportStatus.Completed, ImportStatus.Aborted, ImportStatus.Error].includes(this.status)) {
+      return 100
+    }
+    if (!this.fileSize) return 0
+    return Math.min(100, Math.round((this.bytesRead / this.fileSize) * 100))
+  }
+
+  notify() {
+    const payload: ImportProgress = {
+      totalRecords: this.countRead,
+      countImported: this.countImported,
+      countSkipped: this.countSkipped,
+      secondsElapsed: this.timeElapsed,
+      status: this.status,
+      percentComplete: this.percentComplete,
+    }
+    this.callbacks.progress.forEach(c => c(payload))
+  }
+
+  generateId(): string {
+    const md5sum = crypto.createHash('md5')
+
+    md5sum.update(Date.now().toString(), 'utf8')
+    md5sum.update(this.table.name)
+    md5sum.update(this.filePath)
+
+    return md5sum.digest('hex')
+  }
+
+  async tableColumns(): Promise<ExtendedTableColumn[]> {
+    if (!this.columns.length) {
+      this.columns = await this.connection.listTableColumns(this.table.name, this.table.schema)
+    }
+    return this.columns
+  }
+
+  /**
+   * Matches file columns to table columns by name, ignoring case.
+   * Unmatched file columns are mapped to null and skipped on import.
+   */
+  async defaultMapping(): Promise<ColumnMapping[]> {
+    const [fileColumns, tableColumns] = await Promise.all([
+      this.readColumns(),
+      this.tableColumns()
+    ])
+    return fileColumns.map((fileColumn) => {
+      const match = tableColumns.find((c) => c.columnName.toLowerCase() === fileColumn.toLowerCase())
+      return { fileColumn, tableColumn: match ? match.columnName : null }
+    })
+  }
+
+  mapRecord(record: Record<string, any>): Record<string, any> {
+    const result = {}
+    this.mapping?.forEach(({ fileColumn, tableColumn }) => {
+      if (!tableColumn) return
+      const column = this.columns.find((c) => c.columnName === tableColumn)
+      let value = record[fileColumn]
+      if (_.isUndefined(value)) return
+      if (this.emptyIsNull && value === '' && column?.nullable) value = null
+      if (_.isPlainObject(value) || _.isArray(value)) value = JSON.stringify(value)
+      result[tableColumn] = value
+    })
+    return result
+  }
+
+  // A few rows of INSERT sql so the user can check the mapping before running
+  async previewSql(limit = 5): Promise<string> {
+    await this.tableColumns()
+    if (!this.mapping) this.mapping = await this.defaultMapping()
+    const data = []
+    for await (const record of this.readRecords()) {
+      data.push(this.mapRecord(record))
+      if (data.length >= limit) break
+    }
+    if (!data.length) return ''
+    return await this.connection.getInsertQuery({ table: this.table.name, schema: this.table.schema, data })
+  }
+
+  async initImport(): Promise<void> {
+    this.status = ImportStatus.Importing
+    this.countRead = 0
+    this.countImported = 0
+    this.countSkipped = 0
+    this.rowErrors = []
+    this.startTime = Date.now()
+
+    const stat = await promises.stat(this.filePath)
+    this.fileSize = stat.size
+
+    await this.tableColumns()
+    if (!this.mapping) {
+      this.mapping = await this.defaultMapping()
+    }
+    const mapped = this.mapping.filter((m) => !!m.tableColumn)
+    if (!mapped.length) {
+      throw new Error(`None of the columns in ${this.getFileName()} match a column in ${this.table.name}`)
+    }
+    const missing = mapped.filter((m) => !this.columns.find((c) => c.columnName === m.tableColumn))
+    if (missing.length) {
+      throw new Error(`Unknown columns in mapping: ${missing.map((m) => m.tableColumn).join(', ')}`)
+    }
+
+    if (this.options.truncateTable) {
+      await this.connection.truncateElement(this.table.name, DatabaseElement.TABLE, this.table.schema)
+    }
+  }
+
+  async importData(): Promise<void> {
+    log.debug("running import")
+    let batch: { row: number, data: Record<string, any> }[] = []
+
+    for await (const record of this.readRecords()) {
+      if (this.status !== ImportStatus.Importing) break
+      this.countRead += 1
+      batch.push({ row: this.countRead, data: this.mapRecord(record) })
+      if (batch.length >= this.options.batchSize) {
+        await this.insertBatch(batch)
+        batch = []
+      }
+    }
+
+    if (batch.length && this.status === ImportStatus.Importing) {
+      await this.insertBatch(batch)
+    }
+  }
+
+  private async insertRows(data: Record<string, any>[]) {
+    await this.connection.applyChanges({
+      inserts: [{ table: this.table.name, schema: this.table.schema, data }],
+      updates: [],
+      deletes: []
+    })
+  }
+
+  private async insertBatch(batch: { row: number, data: Record<string, any> }[]): Promise<void> {
+    try {
+      await this.insertRows(batch.map((b) => b.data))
+      this.countImported += batch.length
+    } catch (batchError) {
+      // applyChanges is transactional, so nothing from this batch made it in.
+      // Retry row by row to find out which rows are actually at fault. When
+      // stopping, the rows before the bad one go in, like the earlier batches.
+      log.debug("batch failed, retrying rows individually", batchError.message)
+      for (const { row, data } of batch) {
+        try {
+          await this.insertRows([data])
+          this.countImported += 1
+        } catch (rowError) {
+          if (this.options.onError === 'abort') {
+            throw new Error(`Row ${row}: ${rowError.message}`)
+          }
+          this.rowErrors.push({ row, message: rowError.message, data })
+          this.countSkipped += 1
+        }
+      }
+    }
+    this.timeElapsed = Date.now() - this.startTime
+    this.notify()
+  }
+
+  finalizeImport(): void {
+    if (this.status === ImportStatus.Aborted) return
+    this.status = ImportStatus.Completed
+  }
+
+  async importFromFile(): Promise<void> {
+    try {
+      log.debug("starting import")
+      await this.initImport()
+      await this.importData()
+      this.finalizeImport()
+    } catch (error) {
+      log.error(error)
+      this.error = error
+      this.status = ImportStatus.Error
+    }
+  }
+
+  onProgress(func: ImportProgressCallback): void {
+    this.callbacks.progress.push(func)
+  }
+
+  offProgress(func: ImportProgressCallback): void {
+    this.callbacks.progress = this.callbacks.progress.filter(f => f !== func)
+  }
+
+  abort(): void {
+    this.status = ImportStatus.Aborted
+  }
+
+  getFileName(): string {
+    return path.basename(this.filePath)
+  }
+}
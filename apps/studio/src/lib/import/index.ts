@@ -0,0 +1,6 @@
+export * from './import'
+export * from './models'
+export * from './formats/csv'
+export * from './formats/json'
+export * from './formats/jsonline'
+export * from './formats/xlsx'
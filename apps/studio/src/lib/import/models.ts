@@ -0,0 +1,37 @@
+export enum ImportStatus {
+  Idle = 'idle',
+  Importing = 'importing',
+  Aborted = 'aborted',
+  Completed = 'completed',
+  Error = 'error'
+}
+
+export interface ImportOptions {
+  batchSize: number;
+  // what to do when a row can't be inserted
+  onError: 'skip' | 'abort';
+  truncateTable: boolean;
+}
+
+// fileColumn is the name in the source file, tableColumn is null when the column is ignored
+export interface ColumnMapping {
+  fileColumn: string;
+  tableColumn: string | null;
+}
+
+export interface ImportRowError {
+  // 1-based position of the record in the source file
+  row: number;
+  message: string;
+  data: Record<string, any>;
+}
+
+export interface ImportProgress {
+  totalRecords: number;
+  countImported: number;
+  countSkipped: number;
+  secondsElapsed: number;
+  status: ImportStatus;
+  percentComplete: number;
+}
+export type ImportProgressCallback = (p: ImportProgress) => void;
@@ -0,0 +1,7 @@
+export default {
+  name: "20231019_add_parameters_to_favorite_query",
+  async run(runner) {
+    const query = `ALTER TABLE favorite_query ADD COLUMN parameters text not null default '{}'`;
+    await runner.query(query);
+  }
+}
@@ -0,0 +1,7 @@
+export default {
+  name: "20231020_add_dangerous_query_policy",
+  async run(runner) {
+    const query = `ALTER TABLE saved_connection ADD COLUMN dangerousQueryPolicy varchar not null default 'warn'`;
+    await runner.query(query);
+  }
+}
@@ -0,0 +1,7 @@
+export default {
+  name: "20231024_add_read_only_mode",
+  async run(runner) {
+    const query = `ALTER TABLE saved_connection ADD COLUMN readOnlyMode boolean not null default false`;
+    await runner.query(query);
+  }
+}
@@ -0,0 +1,7 @@
+export default {
+  name: "20231025_add_chart_settings_to_favorite_query",
+  async run(runner) {
+    const query = `ALTER TABLE favorite_query ADD COLUMN chartSettings text null`;
+    await runner.query(query);
+  }
+}
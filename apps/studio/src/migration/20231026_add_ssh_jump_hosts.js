@@ -0,0 +1,19 @@
+export default {
+  name: "20231026_add_ssh_jump_hosts",
+  async run(runner) {
+    const tables = ['saved_connection', 'used_connection']
+    for (let i = 0; i < tables.length; i++) {
+      const table = tables[i];
+      await runner.query(`ALTER TABLE ${table} ADD COLUMN sshJumpHosts text not null default '[]'`)
+      await runner.query(`ALTER TABLE ${table} ADD COLUMN sshConfigHost varchar null`)
+
+      // a bastion host is a single jump host that logs in like the ssh host
+      const bastions = await runner.query(`SELECT id, sshBastionHost, sshPort FROM ${table} WHERE sshBastionHost IS NOT NULL AND sshBastionHost != ''`)
+      for (let j = 0; j < bastions.length; j++) {
+        const row = bastions[j];
+        const jumpHosts = [{ host: row.sshBastionHost.trim(), port: row.sshPort, user: null, keyfile: null }]
+        await runner.query(`UPDATE ${table} SET sshJumpHosts = ?, sshBastionHost = NULL WHERE id = ?`, [JSON.stringify(jumpHosts), row.id])
+      }
+    }
+  }
+}
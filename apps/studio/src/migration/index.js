@@ -33,6 +33,11 @@ import redshiftOptions from './20220817_add_redshift_options'
 import connectionPins from './20230308_create_connection_pins'
 import fixKeymapType from './20230619_fix_keymap_type'
 import bigQueryOptions from './20230426_add_bigquery_options'
+import queryParameters from './20231019_add_parameters_to_favorite_query'
+import dangerousQueryPolicy from './20231020_add_dangerous_query_policy'
+import readOnlyMode from './20231024_add_read_only_mode'
+import chartSettings from './20231025_add_chart_settings_to_favorite_query'
+import sshJumpHosts from './20231026_add_ssh_jump_hosts'
 
 const logger = createLogger('migrations')()
 
@@ -47,7 +52,8 @@ const realMigrations = [
   addSc, sslFiles, sslReject, pinned, addSort,
   createCreds, workspaceScoping, workspace2, addTabs, scWorkspace, systemTheme,
   serverCerts, socketPath, connectionOptions, keepaliveInterval, redshiftOptions,
-  createHiddenEntities, createHiddenSchemas, connectionPins, fixKeymapType, bigQueryOptions
+  createHiddenEntities, createHiddenSchemas, connectionPins, fixKeymapType, bigQueryOptions,
+  queryParameters, dangerousQueryPolicy, readOnlyMode, chartSettings, sshJumpHosts
 ]
 
 // fixtures require the models
@@ -56,10 +56,24 @@ export default {
           }
         },
         {
-          name: "Import From CSV",
+          name: "Import From File",
           slug: 'import',
-          handler: () => {
-            this.$root.$emit(AppEvent.upgradeModal)
+          handler: ({ item }) => {
+            this.trigger(AppEvent.beginImport, { table: item })
+          }
+        },
+        {
+          name: "Compare Data",
+          slug: 'compare-data',
+          handler: ({ item }) => {
+            this.trigger(AppEvent.openDataCompare, { table: item })
+          }
+        },
+        {
+          name: "View Diagram",
+          slug: 'view-diagram',
+          handler: ({ item }) => {
+            this.trigger(AppEvent.openErd, { table: item })
           }
         },
         {
@@ -123,6 +137,28 @@ export default {
             this.$root.$emit(AppEvent.hideSchema, item.schema)
           },
         },
+        {
+          name: "Export To SQL Dump",
+          slug: 'export-dump',
+          handler: ({ item }) => {
+            const tables = item.tables.filter((t) => t.entityType === 'table')
+            this.trigger(AppEvent.beginExport, { tables })
+          },
+        },
+        {
+          name: "Compare Schema",
+          slug: 'compare-schema',
+          handler: ({ item }) => {
+            this.trigger(AppEvent.openSchemaCompare, { schema: item.schema })
+          },
+        },
+        {
+          name: "View Diagram",
+          slug: 'view-diagram',
+          handler: ({ item }) => {
+            this.trigger(AppEvent.openErd, { schema: item.schema })
+          },
+        },
         {
           name: "Drop",
           slug: 'sql-drop',
@@ -0,0 +1,58 @@
+import _ from 'lodash'
+import { mapState } from 'vuex'
+import ConnectionProvider from '@/lib/connection-provider'
+
+// Lets compare tabs use another saved connection as the target.
+// The extra connection is closed again when the tab goes away.
+export default {
+  data() {
+    return {
+      targetId: 'current',
+      targetServer: null,
+      targetConnection: null,
+    }
+  },
+  computed: {
+    ...mapState(['usedConfig', 'username']),
+    ...mapState('data/connections', { 'connections': 'items' }),
+    otherConnections() {
+      return this.connections.filter((c) => !this.usedConfig || c.id !== this.usedConfig.id)
+    },
+    targetConfig() {
+      return this.connections.find((c) => c.id === this.targetId)
+    },
+    target() {
+      return this.targetId === 'current' ? this.connection : this.targetConnection
+    },
+  },
+  methods: {
+    // same as the store's schemas getter, empty for clients without schemas
+    async schemasFor(connection): Promise<string[]> {
+      const tables = await connection.listTables()
+      return _.uniq(tables.map((t) => t.schema).filter((s) => !!s))
+    },
+    defaultSchemaFor(connection, schemas: string[]) {
+      const preferred = connection.defaultSchema ? connection.defaultSchema() : null
+      return schemas.includes(preferred) ? preferred : (schemas[0] || null)
+    },
+    disconnectTarget() {
+      this.targetServer?.disconnect()
+      this.targetServer = null
+      this.targetConnection = null
+    },
+    async connectTarget() {
+      this.disconnectTarget()
+      if (this.targetId === 'current') return
+      const config = this.targetConfig
+      const server = ConnectionProvider.for(config, this.username)
+      const connection = server.createConnection(config.defaultDatabase || undefined)
+      await connection.connect()
+      connection.connectionType = config.connectionType
+      this.targetServer = server
+      this.targetConnection = connection
+    },
+  },
+  beforeDestroy() {
+    this.disconnectTarget()
+  },
+}
@@ -0,0 +1,58 @@
+import { promises } from 'fs'
+import rawLog from 'electron-log'
+
+const log = rawLog.scope('svg_export')
+
+// Saves the svg in $refs.svg to a file. Components provide `imageSize`
+// ({ width, height } at full size) and `baseFileName`.
+export const SvgExportMixin = {
+  methods: {
+    svgMarkup(): string {
+      const svg = this.$refs.svg.cloneNode(true)
+      // export at full size, whatever it's shown at
+      svg.setAttribute('width', this.imageSize.width)
+      svg.setAttribute('height', this.imageSize.height)
+      return new XMLSerializer().serializeToString(svg)
+    },
+    pickImageFile(extension: string): string | null {
+      return this.$native.dialog.showSaveDialogSync({
+        defaultPath: `${this.baseFileName}.${extension}`,
+        filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+      })
+    },
+    renderPng(scale = 2): Promise<Buffer> {
+      return new Promise((resolve, reject) => {
+        const image = new Image()
+        image.onload = () => {
+          const canvas = document.createElement('canvas')
+          canvas.width = this.imageSize.width * scale
+          canvas.height = this.imageSize.height * scale
+          const context = canvas.getContext('2d')
+          context.scale(scale, scale)
+          context.drawImage(image, 0, 0)
+          const base64 = canvas.toDataURL('image/png').split(',')[1]
+          resolve(Buffer.from(base64, 'base64'))
+        }
+        image.onerror = () => reject(new Error("Unable to render the image"))
+        image.src = `data:image/svg+xml;base64,${Buffer.from(this.svgMarkup()).toString('base64')}`
+      })
+    },
+    async saveImage(extension: string, contents: () => Promise<string | Buffer>) {
+      const filePath = this.pickImageFile(extension)
+      if (!filePath) return
+      try {
+        await promises.writeFile(filePath, await contents())
+        this.$noty.success(`Saved ${filePath}`)
+      } catch (ex) {
+        log.error(ex)
+        this.$noty.error(`Unable to save: ${ex.message}`)
+      }
+    },
+    async exportSvg() {
+      await this.saveImage('svg', async () => this.svgMarkup())
+    },
+    async exportPng() {
+      await this.saveImage('png', () => this.renderPng())
+    },
+  }
+}
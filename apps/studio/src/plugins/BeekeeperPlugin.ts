@@ -50,7 +50,7 @@ export const BeekeeperPlugin = {
   buildConnectionString(config: IConnection): string {
     if (config.socketPathEnabled) return config.socketPath;
 
-    if (config.connectionType === 'sqlite') {
+    if (['sqlite', 'duckdb'].includes(config.connectionType)) {
       return config.defaultDatabase || "./unknown.db"
     } else {
       let result = `${config.username || 'user'}@${config.host}:${config.port}`
@@ -59,9 +59,12 @@ export const BeekeeperPlugin = {
         result += `/${config.defaultDatabase}`
       }
 
-      if (config.sshHost) {
-        result += ` via ${config.sshUsername}@${config.sshHost}`
-        if (config.sshBastionHost) result += ` jump(${config.sshBastionHost})`
+      const sshHost = config.sshConfigHost || config.sshHost
+      if (sshHost) {
+        result += config.sshConfigHost ? ` via ${sshHost}` : ` via ${config.sshUsername}@${sshHost}`
+        const jumpHosts = (config.sshJumpHosts || []).map((hop) => hop.host)
+        if (config.sshBastionHost) jumpHosts.unshift(config.sshBastionHost)
+        if (jumpHosts.length) result += ` jump(${jumpHosts.join(' > ')})`
       }
       return result
     }
@@ -70,7 +73,7 @@ export const BeekeeperPlugin = {
     if (config.socketPathEnabled) return config.socketPath;
 
     let connectionString = `${config.host}:${config.port}`;
-    if (config.connectionType === 'sqlite') {
+    if (['sqlite', 'duckdb'].includes(config.connectionType)) {
       return path.basename(config.defaultDatabase || "./unknown.db")
     } else if (config.connectionType === 'cockroachdb' && config.options?.cluster) {
       connectionString = `${config.options.cluster}/${config.defaultDatabase || 'cloud'}`
@@ -8,8 +8,9 @@ import { UsedConnection } from '../common/appdb/models/used_connection'
 import { SavedConnection } from '../common/appdb/models/saved_connection'
 import ConnectionProvider from '../lib/connection-provider'
 import ExportStoreModule from './modules/exports/ExportStoreModule'
+import ImportStoreModule from './modules/imports/ImportStoreModule'
 import SettingStoreModule from './modules/settings/SettingStoreModule'
-import { DBConnection } from '../lib/db/client'
+import { DBConnection, ReconnectStatus } from '../lib/db/client'
 import { Routine, TableOrView } from "../lib/db/models"
 import { IDbConnectionPublicServer } from '../lib/db/server'
 import { CoreTab, EntityFilter } from './models'
@@ -42,6 +43,7 @@ export interface State {
   usedConfigs: UsedConnection[],
   server: Nullable<IDbConnectionPublicServer>,
   connection: Nullable<DBConnection>,
+  reconnectStatus: Nullable<ReconnectStatus>,
   database: Nullable<string>,
   tables: TableOrView[],
   routines: Routine[],
@@ -65,6 +67,7 @@ Vue.use(Vuex)
 const store = new Vuex.Store<State>({
   modules: {
     exports: ExportStoreModule,
+    imports: ImportStoreModule,
     settings: SettingStoreModule,
     pins: PinModule,
     tabs: TabModule,
@@ -77,6 +80,7 @@ const store = new Vuex.Store<State>({
     usedConfigs: [],
     server: null,
     connection: null,
+    reconnectStatus: null,
     database: null,
     tables: [],
     routines: [],
@@ -233,6 +237,7 @@ const store = new Vuex.Store<State>({
     clearConnection(state) {
       state.usedConfig = null
       state.connection = null
+      state.reconnectStatus = null
       state.server = null
       state.database = null
       state.tables = []
@@ -249,6 +254,9 @@ const store = new Vuex.Store<State>({
       state.connection = connection
       state.database = database
     },
+    reconnectStatus(state, status: Nullable<ReconnectStatus>) {
+      state.reconnectStatus = status
+    },
     unloadTables(state) {
       state.tables = []
       state.tablesInitialLoaded = false
@@ -363,6 +371,7 @@ const store = new Vuex.Store<State>({
         const connection = server.createConnection(config.defaultDatabase || undefined)
         await connection.connect()
         connection.connectionType = config.connectionType;
+        connection.onReconnect((status) => context.commit('reconnectStatus', status))
 
         context.commit('newConnection', {config: config, server, connection})
         context.dispatch('recordUsedConfig', config)
@@ -404,6 +413,7 @@ const store = new Vuex.Store<State>({
         if (!connection) {
           connection = server.createConnection(newDatabase)
           await connection.connect()
+          connection.onReconnect((status) => context.commit('reconnectStatus', status))
         }
         context.commit('updateConnection', {connection, database: newDatabase})
         await context.dispatch('updateTables')
@@ -8,7 +8,9 @@ const log = rawLog.scope('TabModule')
 
 interface State {
   tabs: OpenTab[],
-  active?: OpenTab
+  active?: OpenTab,
+  // ids of query tabs with a manual transaction open
+  transactions: number[]
 }
 
 
@@ -16,7 +18,8 @@ export const TabModule: Module<State, RootState> = {
   namespaced: true,
   state: () => ({
     tabs: [],
-    active: undefined
+    active: undefined,
+    transactions: []
   }),
   getters: {
     sortedTabs(state) {
@@ -36,6 +39,9 @@ export const TabModule: Module<State, RootState> = {
           table
         }
       })
+    },
+    hasOpenTransactions(state) {
+      return state.transactions.length > 0
     }
   },
   mutations: {
@@ -53,6 +59,16 @@ export const TabModule: Module<State, RootState> = {
     },
     setActive(state, tab?: OpenTab) {
       state.active = tab
+    },
+    openTransaction(state, tabId: number) {
+      state.transactions = _.union(state.transactions, [tabId])
+    },
+    closeTransaction(state, tabId: number) {
+      state.transactions = _.without(state.transactions, tabId)
+    },
+    // a reconnect rolls back every transaction
+    clearTransactions(state) {
+      state.transactions = []
     }
   },
   actions: {
@@ -1,10 +1,14 @@
 import _ from 'lodash'
 import { Module } from 'vuex'
 import { Export } from '../../../lib/export/export'
+import { SqlDump } from '../../../lib/export/dump'
 import { ExportStatus } from '../../../lib/export/models'
 
+// paused exports still hold a cursor and an open file, so they count as running
+const activeStatuses = [ExportStatus.Exporting, ExportStatus.Paused]
+
 interface State {
-  exports: Export[]
+  exports: Array<Export | SqlDump>
 }
 
 const ExportStoreModule: Module<State, any> = {
@@ -13,19 +17,19 @@ const ExportStoreModule: Module<State, any> = {
     exports: [],
   }),
   mutations: {
-    addExport(state, newExport: Export): void {
+    addExport(state, newExport: Export | SqlDump): void {
       state.exports.push(newExport)
     },
     removeExport(state, id: string): void {
       state.exports = _.reject(state.exports, { 'id': id })
     },
     removeInactive(state): void {
-      state.exports = _.filter(state.exports, { 'status': ExportStatus.Exporting })
+      state.exports = state.exports.filter((e) => activeStatuses.includes(e.status))
     }
   },
   getters: {
-    runningExports(state): Export[] {
-      return _.filter(state.exports, { 'status': ExportStatus.Exporting })
+    runningExports(state): Array<Export | SqlDump> {
+      return state.exports.filter((e) => activeStatuses.includes(e.status))
     },
     hasRunningExports(_state, getters): boolean {
       return getters.runningExports.length > 0
@@ -0,0 +1,37 @@
+import _ from 'lodash'
+import { Module } from 'vuex'
+import { Import } from '../../../lib/import/import'
+import { ImportStatus } from '../../../lib/import/models'
+
+interface State {
+  imports: Import[]
+}
+
+const ImportStoreModule: Module<State, any> = {
+  namespaced: true,
+  state: () => ({
+    imports: [],
+  }),
+  mutations: {
+    addImport(state, newImport: Import): void {
+      state.imports.push(newImport)
+    },
+    removeImport(state, id: string): void {
+      state.imports = _.reject(state.imports, { 'id': id })
+    },
+    removeInactive(state): void {
+      state.imports = _.filter(state.imports, { 'status': ImportStatus.Importing })
+    }
+  },
+  getters: {
+    runningImports(state): Import[] {
+      return _.filter(state.imports, { 'status': ImportStatus.Importing })
+    },
+    hasRunningImports(_state, getters): boolean {
+      return getters.runningImports.length > 0
+    }
+  }
+}
+
+
+export default ImportStoreModule
@@ -0,0 +1,70 @@
+import { DBTestUtil } from "../../../lib/db";
+import { DataCompare } from '../../../../src/lib/compare/data'
+import { DataCompareStatus } from '../../../../src/lib/compare/models'
+import tmp from 'tmp'
+
+describe("Data Compare", () => {
+  let dbfile;
+  let util
+
+  beforeAll(async () => {
+    dbfile = tmp.fileSync()
+
+    const config = {
+      client: 'sqlite',
+    }
+    util = new DBTestUtil(config, dbfile.name, { dialect: 'sqlite' })
+    util.extraTables = 2
+    await util.setupdb()
+    for (const name of ['compare_source', 'compare_target']) {
+      await util.knex.schema.createTable(name, (t) => {
+        t.integer("id").primary()
+        t.string("name")
+        t.decimal("price")
+      })
+    }
+    await util.knex("compare_source").insert([
+      { id: 1, name: 'same', price: 1.5 },
+      { id: 2, name: 'changed', price: 2 },
+      { id: 3, name: 'missing', price: 3 },
+    ])
+    await util.knex("compare_target").insert([
+      { id: 1, name: 'same', price: 1.5 },
+      { id: 2, name: 'different', price: 2 },
+      { id: 4, name: 'extra', price: 4 },
+    ])
+  })
+
+  function comparer(options = {}) {
+    return new DataCompare(
+      util.connection, { name: 'compare_source', entityType: 'table' },
+      util.connection, { name: 'compare_target', entityType: 'table' },
+      { chunkSize: 2, maxDifferences: 0, ...options }
+    )
+  }
+
+  it("should find inserted, deleted and changed rows", async () => {
+    const compare = comparer()
+    const result = await compare.compare()
+    expect(compare.status).toEqual(DataCompareStatus.Completed)
+    expect(result.countSame).toEqual(1)
+    expect(result.inserted.map((r) => r.id)).toEqual([3])
+    expect(result.deleted.map((r) => r.id)).toEqual([4])
+    expect(result.changed).toEqual([{
+      primaryKeys: [{ column: 'id', value: 2 }],
+      changes: [{ column: 'name', source: 'changed', target: 'different' }]
+    }])
+  })
+
+  it("should build a script that syncs the target", async () => {
+    const compare = comparer()
+    await compare.compare()
+    const sql = compare.syncSql()
+    await util.connection.executeQuery(sql)
+
+    const again = comparer()
+    const result = await again.compare()
+    expect(result.countSame).toEqual(3)
+    expect(again.countDifferences).toEqual(0)
+  })
+})
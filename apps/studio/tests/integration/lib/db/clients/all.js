@@ -28,6 +28,10 @@ export function runCommonTests(getUtil) {
     await getUtil().queryTests()
   })
 
+  test("bound query tests", async () => {
+    await getUtil().boundQueryTests()
+  })
+
   test("get insert query tests", async () => {
     await getUtil().getInsertQueryTests()
   })
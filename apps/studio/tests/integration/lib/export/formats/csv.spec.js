@@ -1,7 +1,9 @@
 import { DBTestUtil } from "../../../../lib/db";
 import { CsvExporter } from '../../../../../src/lib/export/formats/csv'
+import { ExportStatus } from '../../../../../src/lib/export/models'
 import tmp from 'tmp'
 import fs from 'fs'
+import zlib from 'zlib'
 
 describe("CSV Exporter", () => {
   let dbfile;
@@ -44,4 +46,69 @@ describe("CSV Exporter", () => {
     const result = fs.readFileSync(filename, { encoding: 'utf-8'})
     expect(result).toEqual('name\nfoo\nbar\n"ba\nz"\n')
   })
+
+  it("should gzip the export as it is written", async () => {
+    const filename = tmp.tmpNameSync()
+    const exporter = new CsvExporter(
+      `${filename}.csv`,
+      util.connection,
+      { name: 'toexport'},
+      '',
+      '',
+      [],
+      { deleteOnAbort: true, chunkSize: 1, compression: 'gzip' },
+      { header: true, delimiter: ','}
+    )
+    await exporter.exportToFile()
+    expect(exporter.status).toEqual(ExportStatus.Completed)
+    expect(exporter.filePath).toEqual(`${filename}.csv.gz`)
+    const compressed = fs.readFileSync(exporter.filePath)
+    expect(exporter.fileSize).toEqual(compressed.length)
+    expect(exporter.countExported).toEqual(3)
+    expect(zlib.gunzipSync(compressed).toString('utf-8')).toEqual('name\nfoo\nbar\n"ba\nz"\n')
+  })
+
+  function pausingExporter(filename) {
+    const exporter = new CsvExporter(
+      filename,
+      util.connection,
+      { name: 'toexport'},
+      '',
+      '',
+      [],
+      { deleteOnAbort: true, chunkSize: 1},
+      { header: true, delimiter: ','}
+    )
+    const pauseOnce = () => {
+      exporter.offProgress(pauseOnce)
+      exporter.pause()
+    }
+    exporter.onProgress(pauseOnce)
+    return exporter
+  }
+
+  it("should pick up a paused export where it stopped", async () => {
+    const filename = tmp.tmpNameSync()
+    const exporter = pausingExporter(filename)
+    await exporter.exportToFile()
+    expect(exporter.status).toEqual(ExportStatus.Paused)
+    expect(exporter.countExported).toEqual(1)
+
+    await exporter.resume()
+    expect(exporter.status).toEqual(ExportStatus.Completed)
+    const result = fs.readFileSync(filename, { encoding: 'utf-8'})
+    expect(result).toEqual('name\nfoo\nbar\n"ba\nz"\n')
+  })
+
+  it("should restart from the last exported row if the cursor is gone", async () => {
+    const filename = tmp.tmpNameSync()
+    const exporter = pausingExporter(filename)
+    await exporter.exportToFile()
+    exporter.cursor.read = () => Promise.reject(new Error("connection lost"))
+
+    await exporter.resume()
+    expect(exporter.status).toEqual(ExportStatus.Completed)
+    const result = fs.readFileSync(filename, { encoding: 'utf-8'})
+    expect(result).toEqual('name\nfoo\nbar\n"ba\nz"\n')
+  })
 })
@@ -0,0 +1,84 @@
+import { DBTestUtil } from "../../../../lib/db";
+import { CsvImporter } from '../../../../../src/lib/import/formats/csv'
+import { ImportStatus } from '../../../../../src/lib/import/models'
+import tmp from 'tmp'
+import fs from 'fs'
+
+describe("CSV Importer", () => {
+  let dbfile;
+  let util
+
+  beforeAll(async () => {
+    dbfile = tmp.fileSync()
+
+    const config = {
+      client: 'sqlite',
+    }
+    util = new DBTestUtil(config, dbfile.name, { dialect: 'sqlite' })
+    util.extraTables = 1
+    await util.setupdb()
+    await util.knex.schema.createTable("toimport", (t) => {
+      t.integer("id").notNullable().unique()
+      t.string("name")
+    })
+  })
+
+  beforeEach(async () => {
+    await util.knex("toimport").truncate()
+  })
+
+  function importer(content, options = {}, inputOptions = {}) {
+    const filename = tmp.tmpNameSync({ postfix: '.csv' })
+    fs.writeFileSync(filename, content)
+    return new CsvImporter(
+      filename,
+      util.connection,
+      { name: 'toimport' },
+      null,
+      { batchSize: 2, onError: 'skip', truncateTable: false, ...options },
+      { header: true, delimiter: ',', ...inputOptions }
+    )
+  }
+
+  it("should import a simple csv file", async () => {
+    const i = importer('ID,name,ignored\n1,foo,x\n2,"ba\nr",y\n3,,z\n')
+    await i.importFromFile()
+    expect(i.status).toEqual(ImportStatus.Completed)
+    expect(i.countImported).toEqual(3)
+    const rows = await util.knex("toimport").orderBy("id")
+    expect(rows).toEqual([
+      { id: 1, name: 'foo' },
+      { id: 2, name: 'ba\nr' },
+      { id: 3, name: null },
+    ])
+  })
+
+  it("should skip rows that fail to insert", async () => {
+    const i = importer('id,name\n1,foo\n1,dupe\n2,bar\n')
+    await i.importFromFile()
+    expect(i.status).toEqual(ImportStatus.Completed)
+    expect(i.countImported).toEqual(2)
+    expect(i.countSkipped).toEqual(1)
+    expect(i.rowErrors.map((e) => e.row)).toEqual([2])
+  })
+
+  it("should stop on the first failing row when asked", async () => {
+    const i = importer('id,name\n1,foo\n1,dupe\n2,bar\n', { onError: 'abort', batchSize: 1 })
+    await i.importFromFile()
+    expect(i.status).toEqual(ImportStatus.Error)
+    expect(await util.knex("toimport").count("* as count")).toEqual([{ count: 1 }])
+  })
+
+  it("should report the failing row when stopping", async () => {
+    const i = importer('id,name\n1,foo\n2,bar\n2,dupe\n3,baz\n', { onError: 'abort' })
+    await i.importFromFile()
+    expect(i.status).toEqual(ImportStatus.Error)
+    expect(i.error.message).toMatch(/^Row 3: /)
+    expect(await util.knex("toimport").count("* as count")).toEqual([{ count: 2 }])
+  })
+
+  it("should name columns positionally without a header", async () => {
+    const i = importer('1;foo\n', {}, { header: false, delimiter: ';' })
+    expect(await i.readColumns()).toEqual(['col_1', 'col_2'])
+  })
+})
@@ -379,8 +379,8 @@ export class DBTestUtil {
     interface MiniColumn {
       columnName: string
       dataType: string,
-      nullable: boolean,
-      defaultValue: string,
+      nullable?: boolean,
+      defaultValue?: string,
     }
     const rawResult: MiniColumn[] = schema.map((c) =>
       _.pick(c, 'nullable', 'defaultValue', 'columnName', 'dataType')
@@ -520,6 +520,21 @@ export class DBTestUtil {
 
   }
 
+  async boundQueryTests() {
+    const jobCount = async () => Number((await this.knex('jobs').count('* as total'))[0].total)
+    const before = await jobCount()
+    const q = this.connection.query(
+      "select job_name from jobs where job_name in (:names) and id = :id; select job_name from jobs where job_name = :name",
+      { ':names': ['Programmer', "Surgeon's Assistant"], ':id': this.jobId, ':name': "Programmer'; drop table jobs; --" }
+    )
+    const result = await q.execute()
+    expect(result).toHaveLength(2)
+    expect(result[0].rows).toHaveLength(1)
+    expect(result[1].rows).toHaveLength(0)
+    // the injection attempt was only ever a value
+    expect(await jobCount()).toBe(before)
+  }
+
   async getInsertQueryTests() {
     const row = { job_name: "Programmer", hourly_rate: 41 }
     const tableInsert = { table: 'jobs', schema: this.defaultSchema, data: [row] }
@@ -0,0 +1,66 @@
+import { defaultChartSettings, layoutChart, niceTicks, numericColumns } from '@/lib/chart/layout'
+
+const fields = [
+  { id: 'c0', name: 'month' },
+  { id: 'c1', name: 'orders' },
+  { id: 'c2', name: 'revenue' },
+]
+const rows = [
+  { c0: 'Jan', c1: 10, c2: '150.50' },
+  { c0: 'Feb', c1: 20, c2: '-30' },
+  { c0: 'Mar', c1: null, c2: '90' },
+]
+
+describe('numericColumns', () => {
+  it("Should find columns of numbers, even numeric strings", () => {
+    expect(numericColumns(fields, rows)).toEqual(['orders', 'revenue'])
+  })
+})
+
+describe('defaultChartSettings', () => {
+  it("Should use a label column for x and a number column for y", () => {
+    expect(defaultChartSettings(fields, rows)).toEqual({ type: 'bar', x: 'month', y: ['orders'] })
+  })
+})
+
+describe('niceTicks', () => {
+  it("Should cover the range with round steps", () => {
+    expect(niceTicks(0, 93)).toEqual([0, 20, 40, 60, 80, 100])
+    expect(niceTicks(-30, 150.5)).toEqual([-50, 0, 50, 100, 150, 200])
+    expect(niceTicks(0.1, 0.3)).toEqual([0.1, 0.15, 0.2, 0.25, 0.3])
+  })
+})
+
+describe('layoutChart', () => {
+  it("Should draw nothing without columns to plot", () => {
+    const layout = layoutChart({ type: 'bar', x: 'month', y: [] }, fields, rows)
+    expect(layout.series).toEqual([])
+    expect(layout.slices).toEqual([])
+  })
+
+  it("Should grow bars from zero, up or down", () => {
+    const layout = layoutChart({ type: 'bar', x: 'month', y: ['revenue'] }, fields, rows)
+    const zero = layout.yTicks.find((t) => t.label === '0').position
+    const [jan, feb] = layout.series[0].bars
+    expect(jan.y + jan.height).toBeCloseTo(zero)
+    expect(feb.y).toBeCloseTo(zero)
+    expect(layout.xTicks.map((t) => t.label)).toEqual(['Jan', 'Feb', 'Mar'])
+  })
+
+  it("Should skip missing values", () => {
+    const layout = layoutChart({ type: 'line', x: 'month', y: ['orders'] }, fields, rows)
+    expect(layout.series[0].points.length).toBe(2)
+    expect(layout.series[0].path).toMatch(/^M [\d.]+ [\d.]+ L [\d.]+ [\d.]+$/)
+  })
+
+  it("Should use a number axis for number x values", () => {
+    const layout = layoutChart({ type: 'scatter', x: 'orders', y: ['revenue'] }, fields, rows)
+    expect(layout.xTicks.map((t) => t.label)).toEqual(['10', '12', '14', '16', '18', '20'])
+    expect(layout.series[0].points.map((p) => p.x)).toEqual([layout.plot.left, layout.plot.right])
+  })
+
+  it("Should make a slice for each positive value", () => {
+    const layout = layoutChart({ type: 'pie', x: 'month', y: ['revenue'] }, fields, rows)
+    expect(layout.slices.map((s) => s.label)).toEqual(['Jan: 150.5', 'Mar: 90'])
+  })
+})
@@ -0,0 +1,159 @@
+import { diffSchemas, schemaDiffSql } from '@/lib/compare/schema'
+import { PostgresqlChangeBuilder } from '@shared/lib/sql/change_builder/PostgresqlChangeBuilder'
+
+const column = (columnName, dataType = 'integer', extra = {}) => ({
+  columnName, dataType, nullable: true, defaultValue: null, ordinalPosition: 1, tableName: 't', ...extra
+})
+const table = (name, columns, extra = {}) => ({
+  name, schema: 'public', columns, indexes: [], relations: [], triggers: [], ...extra
+})
+const index = (name, columns, unique = false) => ({
+  id: name, name, table: 't', schema: 'public', unique, primary: false,
+  columns: columns.map((c) => ({ name: c, order: 'ASC' }))
+})
+
+describe('diffSchemas', () => {
+  it("Should report added, removed and changed tables", () => {
+    const source = [
+      table('users', [column('id'), column('email', 'varchar(255)')]),
+      table('orders', [column('id')]),
+    ]
+    const target = [
+      table('users', [column('id'), column('email', 'varchar(100)'), column('legacy')]),
+      table('old_stuff', [column('id')]),
+    ]
+    const result = diffSchemas(source, target)
+    expect(result.map((t) => [t.name, t.kind])).toEqual([
+      ['old_stuff', 'removed'],
+      ['orders', 'added'],
+      ['users', 'changed'],
+    ])
+    const users = result.find((t) => t.name === 'users')
+    expect(users.columns.map((c) => [c.name, c.kind])).toEqual([['email', 'changed'], ['legacy', 'removed']])
+    expect(users.columns[0].changes).toEqual([{ columnName: 'email', changeType: 'dataType', newValue: 'varchar(255)' }])
+  })
+
+  it("Should leave out tables that match", () => {
+    const source = [table('users', [column('id', 'INTEGER'), column('name', 'text', { defaultValue: '' })])]
+    const target = [table('users', [column('id', 'integer'), column('name', 'text')])]
+    expect(diffSchemas(source, target)).toEqual([])
+  })
+
+  it("Should compare indexes by name and ignore primary keys", () => {
+    const source = [table('users', [column('id')], { indexes: [index('users_email', ['email'], true)] })]
+    const target = [table('users', [column('id')], {
+      indexes: [index('users_email', ['email']), { ...index('users_pkey', ['id']), primary: true }]
+    })]
+    const [users] = diffSchemas(source, target)
+    expect(users.indexes.map((i) => [i.name, i.kind])).toEqual([['users_email', 'changed']])
+  })
+})
+
+describe('schemaDiffSql', () => {
+  const connection = {
+    connectionType: 'postgresql',
+    alterTableSql: async (spec) => `ALTER ${spec.table} adds:${spec.adds.length} drops:${spec.drops.length} changes:${spec.alterations.length}`,
+    alterIndexSql: (spec) => `INDEX ${spec.table} add:${spec.additions.length} drop:${spec.drops.length}`,
+    alterRelationSql: (spec) => `RELATION ${spec.table} add:${spec.additions.length} drop:${spec.drops.length}`,
+  }
+
+  it("Should drop foreign keys first and add them last", async () => {
+    const key = {
+      constraintName: 'orders_user_id', fromTable: 'orders', fromSchema: 'public', fromColumn: 'user_id',
+      toTable: 'users', toSchema: 'public', toColumn: 'id', onDelete: 'CASCADE'
+    }
+    const source = [
+      table('orders', [column('id'), column('user_id')], { relations: [key] }),
+      table('users', [column('id')]),
+    ]
+    const target = [
+      table('orders', [column('id'), column('user_id')], { relations: [{ ...key, onDelete: 'NO ACTION' }] }),
+    ]
+    const diff = { sourceSchema: 'public', targetSchema: 'public', tables: diffSchemas(source, target) }
+    const lines = (await schemaDiffSql(diff, connection)).split('\n')
+    expect(lines[0]).toEqual('RELATION orders add:0 drop:1;')
+    expect(lines[1]).toMatch(/^create table "public"."users"/)
+    expect(lines[lines.length - 1]).toEqual('RELATION orders add:1 drop:0;')
+  })
+
+  it("Should alter changed columns through the target connection", async () => {
+    const source = [table('users', [column('id'), column('email', 'text', { nullable: false })])]
+    const target = [table('users', [column('id'), column('name')])]
+    const diff = { targetSchema: 'public', tables: diffSchemas(source, target) }
+    expect(await schemaDiffSql(diff, connection)).toEqual('ALTER users adds:1 drops:1 changes:0;')
+  })
+
+  it("Should drop a changed index before creating it again", async () => {
+    // the same statements the postgres client builds, creates first
+    const alterIndexSql = ({ table, schema, additions, drops }) => {
+      const builder = new PostgresqlChangeBuilder(table, schema)
+      return [builder.createIndexes(additions), builder.dropIndexes(drops)].filter((f) => !!f).join(';')
+    }
+    const source = [table('users', [column('id')], { indexes: [index('users_email', ['email'], true)] })]
+    const target = [table('users', [column('id')], { indexes: [index('users_email', ['email'])] })]
+    const diff = { targetSchema: 'public', tables: diffSchemas(source, target) }
+    const lines = (await schemaDiffSql(diff, { ...connection, alterIndexSql })).split('\n')
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatch(/^DROP INDEX .*"users_email"/)
+    expect(lines[1]).toMatch(/^CREATE UNIQUE INDEX "users_email"/)
+  })
+
+  it("Should recreate changed triggers from the source definition", async () => {
+    const trigger = (action, definition) => ({
+      name: 'audit', timing: 'AFTER', manipulation: 'INSERT', action, condition: null, table: 'users', schema: 'public', definition
+    })
+    const source = [table('users', [column('id')], {
+      triggers: [trigger('EXECUTE FUNCTION audit_v2()', 'CREATE TRIGGER audit AFTER INSERT ON public.users FOR EACH STATEMENT EXECUTE FUNCTION audit_v2()')]
+    })]
+    const target = [table('users', [column('id')], { triggers: [trigger('EXECUTE FUNCTION audit()')] })]
+    const diff = { targetSchema: 'public', tables: diffSchemas(source, target) }
+    expect((await schemaDiffSql(diff, connection)).split('\n')).toEqual([
+      'DROP TRIGGER "audit" ON "public"."users";',
+      'CREATE TRIGGER audit AFTER INSERT ON public.users FOR EACH STATEMENT EXECUTE FUNCTION audit_v2();',
+    ])
+  })
+
+  it("Should point source trigger definitions at the target schema", async () => {
+    const trigger = {
+      name: 'audit', timing: 'AFTER', manipulation: 'INSERT', action: 'EXECUTE FUNCTION audit()', condition: null, table: 'users', schema: 'staging',
+      definition: 'CREATE TRIGGER audit AFTER INSERT ON staging.users FOR EACH ROW EXECUTE FUNCTION staging.audit()'
+    }
+    const source = [table('users', [column('id')], { schema: 'staging', triggers: [trigger] })]
+    const target = [table('users', [column('id')])]
+    const diff = { sourceSchema: 'staging', targetSchema: 'public', tables: diffSchemas(source, target) }
+    expect(await schemaDiffSql(diff, connection))
+      .toEqual('CREATE TRIGGER audit AFTER INSERT ON "public".users FOR EACH ROW EXECUTE FUNCTION "public".audit();')
+  })
+
+  it("Should replace a changed multi column foreign key as one constraint", async () => {
+    const alterRelationSql = ({ table, schema, additions, drops }) => {
+      const builder = new PostgresqlChangeBuilder(table, schema)
+      return [builder.dropRelations(drops), builder.createRelations(additions)].filter((f) => !!f).join(';')
+    }
+    const key = (fromColumn, toColumn, onDelete) => ({
+      constraintName: 'lines_order', fromTable: 'lines', fromSchema: 'public', fromColumn,
+      toTable: 'orders', toSchema: 'public', toColumn, onDelete
+    })
+    const source = [table('lines', [column('order_id'), column('shop_id')], {
+      relations: [key('order_id', 'id', 'CASCADE'), key('shop_id', 'shop_id', 'CASCADE')]
+    })]
+    const target = [table('lines', [column('order_id'), column('shop_id')], {
+      relations: [key('order_id', 'id', 'NO ACTION'), key('shop_id', 'shop_id', 'NO ACTION')]
+    })]
+    const diff = { targetSchema: 'public', tables: diffSchemas(source, target) }
+    expect(diff.tables[0].relations).toHaveLength(1)
+    const sql = (await schemaDiffSql(diff, { ...connection, alterRelationSql })).replace(/\s+/g, ' ')
+    expect(sql.match(/DROP CONSTRAINT/g)).toHaveLength(1)
+    expect(sql.match(/ADD CONSTRAINT/g)).toHaveLength(1)
+    expect(sql).toContain('FOREIGN KEY ("order_id", "shop_id") REFERENCES "public"."orders" ("id", "shop_id")')
+  })
+
+  it("Should compare sqlite triggers by their definition", () => {
+    const trigger = (definition) => ({ name: 'stamp', table: 'users', definition })
+    const source = [table('users', [column('id')], { triggers: [trigger('CREATE TRIGGER stamp AFTER INSERT ON users BEGIN SELECT 1; END')] })]
+    const same = [table('users', [column('id')], { triggers: [trigger('CREATE TRIGGER stamp  AFTER INSERT ON users\nBEGIN SELECT 1; END')] })]
+    const changed = [table('users', [column('id')], { triggers: [trigger('CREATE TRIGGER stamp AFTER UPDATE ON users BEGIN SELECT 1; END')] })]
+    expect(diffSchemas(source, same)).toEqual([])
+    expect(diffSchemas(source, changed)[0].triggers.map((t) => t.kind)).toEqual(['changed'])
+  })
+})
@@ -0,0 +1,62 @@
+import { testOnly } from "../../../../../src/lib/db/clients/duckdb"
+
+
+describe("DuckDB UNIT tests (no connection required)", () => {
+  it("Should build one alter table statement per alteration", () => {
+    const input = {
+      table: 'foo',
+      schema: 'main',
+      alterations: [
+        {
+          columnName: 'a',
+          changeType: 'columnName',
+          newValue: 'b'
+        },
+        {
+          columnName: 'c',
+          changeType: 'nullable',
+          newValue: false
+        }
+      ]
+    }
+
+    const result = testOnly.alterTableSql(input)
+    const expected = 'ALTER TABLE "main"."foo" ALTER COLUMN "c" SET NOT NULL;ALTER TABLE "main"."foo" RENAME COLUMN "a" TO "b";'
+    expect(result).toBe(expected)
+  })
+
+  it("Should build select top queries with bound params", () => {
+    const filters = [
+      { field: 'name', type: '=', value: 'bananas' },
+      { field: 'id', type: 'in', value: ['1', '2'] }
+    ]
+    const { query, countQuery, params } = testOnly.buildSelectTopQueries('foo', 10, 5, [{ field: 'id', dir: 'desc' }], filters, 'main')
+    expect(query).toContain('FROM "main"."foo"')
+    expect(query).toContain('WHERE "name" = ? AND "id" IN (?,?)')
+    expect(query).toContain('ORDER BY "id" DESC')
+    expect(query).toContain('LIMIT 5')
+    expect(query).toContain('OFFSET 10')
+    expect(countQuery).toContain('SELECT count(*) AS total')
+    expect(params).toStrictEqual(['bananas', '1', '2'])
+  })
+
+  it("Should parse index expressions", () => {
+    expect(testOnly.parseIndexExpressions('[a, "b c"]')).toStrictEqual(['a', 'b c'])
+    expect(testOnly.parseIndexExpressions(null)).toStrictEqual([])
+  })
+
+  it("Should read foreign keys from the constraint text", () => {
+    const row = {
+      constraint_text: 'FOREIGN KEY (a, b) REFERENCES "other"."bar"(x, "y z") ON DELETE CASCADE',
+      constraint_column_names: ['a', 'b']
+    }
+    const keys = testOnly.parseForeignKey(row, 'foo', 'main')
+    expect(keys.map((k) => [k.fromColumn, k.toSchema, k.toTable, k.toColumn])).toStrictEqual([
+      ['a', 'other', 'bar', 'x'],
+      ['b', 'other', 'bar', 'y z'],
+    ])
+    expect(keys[0].onDelete).toBe('CASCADE')
+    expect(keys[0].onUpdate).toBe('NO ACTION')
+    expect(keys[0].constraintName).toBeUndefined()
+  })
+})
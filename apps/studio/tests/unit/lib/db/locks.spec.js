@@ -0,0 +1,46 @@
+import { blockingTree, blockingRows } from '@/lib/db/locks'
+
+const session = (id, blockedBy = []) => ({
+  id, user: 'app', state: 'active', duration: 1, query: `query ${id}`, lock: null, blockedBy
+})
+
+const summary = (sessions) => blockingRows(blockingTree(sessions))
+  .map((row) => [row.session.id, row.depth, row.root, row.blocking])
+
+describe("blockingTree", () => {
+  it("should put the root blocker at the top", () => {
+    expect(summary([session(3, [2]), session(2, [1]), session(1), session(4, [1])])).toEqual([
+      [1, 0, true, 3],
+      [2, 1, false, 1],
+      [3, 2, false, 0],
+      [4, 1, false, 0],
+    ])
+  })
+
+  it("should list the biggest blocker first", () => {
+    const rows = summary([session(1), session(2), session(3, [2]), session(4, [2]), session(5, [1])])
+    expect(rows.filter((r) => r[2]).map((r) => r[0])).toEqual([2, 1])
+  })
+
+  it("should show a session under each of its blockers", () => {
+    expect(summary([session(1), session(2), session(3, [1, 2])]).map((r) => r[0])).toEqual([1, 3, 2, 3])
+  })
+
+  it("should include blockers that weren't listed", () => {
+    const rows = blockingRows(blockingTree([session('b', ['a'])]))
+    expect(rows[0].session.id).toBe('a')
+    expect(rows[0].root).toBe(true)
+    expect(rows[0].session.query).toBeNull()
+  })
+
+  it("should stop at deadlocks", () => {
+    expect(summary([session(1, [2]), session(2, [1])])).toEqual([
+      [1, 0, false, 1],
+      [2, 1, false, 0],
+    ])
+  })
+
+  it("should leave sessions that aren't blocking anyone out", () => {
+    expect(blockingTree([session(1), session(2)])).toEqual([])
+  })
+})
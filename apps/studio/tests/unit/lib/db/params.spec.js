@@ -0,0 +1,92 @@
+import { bindParams, bindStatements, coerceParam, paramError } from '@/lib/db/params'
+
+describe("Query parameters", () => {
+  describe("bindParams", () => {
+    it("should rewrite named placeholders in the driver's style", () => {
+      const query = "select * from users where id = :id and name = :name"
+      const params = { ':id': 5, ':name': "O'Brien" }
+      expect(bindParams(query, params, 'numbered')).toEqual({
+        query: "select * from users where id = $1 and name = $2",
+        params: [5, "O'Brien"]
+      })
+      expect(bindParams(query, params, 'positional').query)
+        .toBe("select * from users where id = ? and name = ?")
+      expect(bindParams(query, params, 'named').query)
+        .toBe("select * from users where id = @p1 and name = @p2")
+    })
+
+    it("should accept keys without their prefix", () => {
+      expect(bindParams("select :id", { id: 1 }, 'numbered').params).toEqual([1])
+    })
+
+    it("should bind every use of a repeated placeholder", () => {
+      expect(bindParams("select :a, :b, :a", { a: 1, b: 2 }, 'positional')).toEqual({
+        query: "select ?, ?, ?",
+        params: [1, 2, 1]
+      })
+    })
+
+    it("should leave strings, comments, casts and quoting alone", () => {
+      const query = [
+        "select ':id', \":id\", `:id` -- :id",
+        "/* :id */ from t where x::text = :id and y = $$ :id $$ and @@version > 1"
+      ].join("\n")
+      const result = bindParams(query, { ':id': 1 }, 'numbered')
+      expect(result.params).toEqual([1])
+      expect(result.query).toBe(query.replace("x::text = :id", "x::text = $1"))
+    })
+
+    it("should expand lists", () => {
+      expect(bindParams("where id in (:ids)", { ':ids': [1, 2, 3] }, 'numbered')).toEqual({
+        query: "where id in ($1, $2, $3)",
+        params: [1, 2, 3]
+      })
+      expect(bindParams("where id in (:ids)", { ':ids': [] }, 'numbered')).toEqual({
+        query: "where id in (NULL)",
+        params: []
+      })
+    })
+
+    it("should fill ? and $n from an array", () => {
+      expect(bindParams("select ?, ?", ['a', 'b'], 'numbered').query).toBe("select $1, $2")
+      expect(bindParams("select $2, $1", ['a', 'b'], 'positional')).toEqual({
+        query: "select ?, ?",
+        params: ['b', 'a']
+      })
+    })
+
+    it("should leave unknown placeholders for the database to complain about", () => {
+      expect(bindParams("select :missing", { ':id': 1 }, 'numbered').query).toBe("select :missing")
+    })
+  })
+
+  describe("bindStatements", () => {
+    it("should number each statement from one and carry ? values over", () => {
+      const result = bindStatements(["select :a", "select :b, ?"], { ':a': 1, ':b': 2 }, 'numbered')
+      expect(result).toEqual([
+        { query: "select $1", params: [1] },
+        { query: "select $1, ?", params: [2] },
+      ])
+      const positional = bindStatements(["select ?", "select ?"], [1, 2], 'positional')
+      expect(positional.map((s) => s.params)).toEqual([[1], [2]])
+    })
+  })
+
+  describe("coerceParam", () => {
+    it("should convert typed input", () => {
+      expect(coerceParam({ type: 'string', value: ' 42 ' })).toBe(' 42 ')
+      expect(coerceParam({ type: 'number', value: ' 42.5 ' })).toBe(42.5)
+      expect(coerceParam({ type: 'null', value: 'anything' })).toBeNull()
+      expect(coerceParam({ type: 'date', value: '2023-01-31T10:15' })).toBe('2023-01-31 10:15')
+      expect(coerceParam({ type: 'list', value: "1, 'two', three," })).toEqual([1, 'two', 'three'])
+    })
+
+    it("should reject input that doesn't fit the type", () => {
+      expect(paramError({ type: 'number', value: 'abc' })).toBe('Not a number')
+      expect(paramError({ type: 'date', value: '31/01/2023' })).toMatch(/YYYY-MM-DD/)
+      expect(paramError({ type: 'list', value: '' })).toMatch(/commas/)
+      expect(paramError(undefined)).toBe('A value is required')
+      expect(() => coerceParam({ type: 'number', value: '' })).toThrow()
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { isConnectionLost, reconnectDelay, healthCheckQuery, withTimeout } from '@/lib/db/reconnect'
+
+const errorWith = (props) => Object.assign(new Error(props.message || 'oops'), props)
+
+describe("isConnectionLost", () => {
+  it("should spot socket errors", () => {
+    expect(isConnectionLost(errorWith({ code: 'ECONNRESET' }))).toBe(true)
+    expect(isConnectionLost(errorWith({ code: 'ETIMEDOUT' }))).toBe(true)
+  })
+
+  it("should spot driver errors", () => {
+    expect(isConnectionLost(errorWith({ code: 'PROTOCOL_CONNECTION_LOST' }))).toBe(true)
+    expect(isConnectionLost(errorWith({ code: '57P01' }))).toBe(true)
+    expect(isConnectionLost(errorWith({ originalError: { code: 'ESOCKET' } }))).toBe(true)
+  })
+
+  it("should spot errors that only say so in the message", () => {
+    expect(isConnectionLost(new Error('Connection terminated unexpectedly'))).toBe(true)
+    expect(isConnectionLost(new Error('Client has encountered a connection error and is not queryable'))).toBe(true)
+    expect(isConnectionLost(new Error("Requests can only be made in the LoggedIn state, not the Final state. Connection is closed."))).toBe(true)
+  })
+
+  it("should leave query errors alone", () => {
+    expect(isConnectionLost(errorWith({ code: '42P01', message: 'relation "foo" does not exist' }))).toBe(false)
+    expect(isConnectionLost(errorWith({ code: 'ER_PARSE_ERROR' }))).toBe(false)
+    expect(isConnectionLost(null)).toBe(false)
+  })
+})
+
+describe("reconnectDelay", () => {
+  it("should double each attempt up to 30 seconds", () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000])
+  })
+})
+
+describe("healthCheckQuery", () => {
+  it("should only ping network databases", () => {
+    expect(healthCheckQuery('postgresql')).toBe('SELECT 1')
+    expect(healthCheckQuery('sqlite')).toBeNull()
+    expect(healthCheckQuery('bigquery')).toBeNull()
+  })
+})
+
+describe("withTimeout", () => {
+  it("should pass the result through", async () => {
+    expect(await withTimeout(Promise.resolve(42), 100, 'too slow')).toBe(42)
+  })
+
+  it("should give up on a promise that never settles", async () => {
+    const never = new Promise(() => {
+      // never settles
+    })
+    const error = await withTimeout(never, 10, 'too slow').catch((e) => e)
+    expect(error.message).toBe('too slow')
+  })
+})
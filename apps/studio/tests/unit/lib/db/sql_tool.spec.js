@@ -1,4 +1,4 @@
-import { splitQueries, removeQueryQuotes, extractParams } from "../../../../src/lib/db/sql_tools";
+import { splitQueries, removeQueryQuotes, extractParams, findDangerousStatements, isReadOnlyQuery, statementAtLine, triggerCreateScripts } from "../../../../src/lib/db/sql_tools";
 
 const testCases = {
   "select* from foo; select * from bar": 2,
@@ -58,3 +58,110 @@ describe("Query Unquoter", () => {
   })
 })
 
+describe("Dangerous statements", () => {
+  const reasons = (query) => findDangerousStatements(query, 'psql').map((s) => s.reason)
+
+  it("should flag DELETE and UPDATE without a WHERE", () => {
+    expect(reasons("delete from users")).toEqual(['DELETE without WHERE deletes every row'])
+    expect(reasons("update users set name = 'where'")).toEqual(['UPDATE without WHERE updates every row'])
+    expect(reasons("update users set name = (select name from people where id = 1)"))
+      .toEqual(['UPDATE without WHERE updates every row'])
+  })
+
+  it("should allow DELETE and UPDATE with a WHERE", () => {
+    expect(reasons("delete from users where id = 1")).toEqual([])
+    expect(reasons("update users set active = false -- oops\n where id = 1")).toEqual([])
+  })
+
+  it("should flag DROP, TRUNCATE and ALTER", () => {
+    expect(reasons("select 1; drop table users; truncate orders; alter table users add column age int"))
+      .toEqual(['DROP TABLE', 'TRUNCATE', 'ALTER TABLE'])
+  })
+
+  it("should keep the statement text", () => {
+    const [statement] = findDangerousStatements("select 1;\n  delete from users;", 'psql')
+    expect(statement.text).toMatch(/^delete from users/)
+  })
+})
+
+describe("Read only queries", () => {
+  it("should allow statements that only read", () => {
+    expect(isReadOnlyQuery("select * from users; select 1", 'mssql')).toBe(true)
+    expect(isReadOnlyQuery("with u as (select * from users) select * from u", 'psql')).toBe(true)
+  })
+
+  it("should reject statements that write", () => {
+    expect(isReadOnlyQuery("select 1; delete from users where id = 1", 'mssql')).toBe(false)
+    expect(isReadOnlyQuery("insert into users(name) values ('select')", 'psql')).toBe(false)
+    expect(isReadOnlyQuery("select * into backup from users", 'mssql')).toBe(false)
+  })
+
+  it("should reject statements it doesn't recognise", () => {
+    expect(isReadOnlyQuery("exec sp_rename 'users', 'people'", 'mssql')).toBe(false)
+  })
+
+  it("should reject statements that make the session writable again", () => {
+    expect(isReadOnlyQuery("SET SESSION CHARACTERISTICS AS TRANSACTION READ WRITE; DELETE FROM users", 'psql')).toBe(false)
+    expect(isReadOnlyQuery("BEGIN READ WRITE", 'psql')).toBe(false)
+    expect(isReadOnlyQuery("SET SESSION TRANSACTION READ WRITE", 'mysql')).toBe(false)
+    expect(isReadOnlyQuery("select set_config('default_transaction_read_only', 'off', false)", 'psql')).toBe(false)
+  })
+
+  it("should reject selects that write", () => {
+    expect(isReadOnlyQuery("with d as (delete from users returning *) select * from d", 'psql')).toBe(false)
+    expect(isReadOnlyQuery("select * from users for update", 'mysql')).toBe(false)
+    expect(isReadOnlyQuery("select 'delete' as word", 'psql')).toBe(true)
+  })
+
+  it("should allow reads that don't start with SELECT", () => {
+    expect(isReadOnlyQuery("PRAGMA table_info(users)", 'sqlite')).toBe(true)
+    expect(isReadOnlyQuery("FROM users", 'psql')).toBe(true)
+    expect(isReadOnlyQuery("SUMMARIZE users", 'psql')).toBe(true)
+    expect(isReadOnlyQuery("VALUES (1), (2)", 'psql')).toBe(true)
+    expect(isReadOnlyQuery("select update, [delete] from audit", 'mssql')).toBe(true)
+    expect(isReadOnlyQuery("PRAGMA foreign_keys = off", 'sqlite')).toBe(false)
+  })
+
+  it("should check the statement EXPLAIN ANALYZE runs", () => {
+    expect(isReadOnlyQuery("EXPLAIN ANALYZE DELETE FROM users", 'psql')).toBe(false)
+    expect(isReadOnlyQuery("explain (analyze, buffers) update users set name = 'a'", 'psql')).toBe(false)
+    expect(isReadOnlyQuery("EXPLAIN ANALYZE SELECT * FROM users", 'psql')).toBe(true)
+    expect(isReadOnlyQuery("EXPLAIN DELETE FROM users", 'psql')).toBe(true)
+  })
+})
+
+describe("Statement at line", () => {
+  const text = "select 1;\n\nprint 'a'\nprint 'b';\nselect 2"
+  const statements = [{ start: 0 }, { start: 11 }, { start: 32 }]
+
+  it("should find the statement a line belongs to", () => {
+    expect(statementAtLine(text, statements, 1)).toBe(0)
+    expect(statementAtLine(text, statements, 3)).toBe(1)
+    expect(statementAtLine(text, statements, 4)).toBe(1)
+    expect(statementAtLine(text, statements, 5)).toBe(2)
+  })
+
+  it("should use the first statement for blank lines before it", () => {
+    expect(statementAtLine("\n\nselect 1", [{ start: 2 }], 1)).toBe(0)
+  })
+})
+
+describe("Trigger create scripts", () => {
+  const trigger = (name, definition) => ({ name, timing: 'BEFORE', manipulation: 'INSERT', table: 'orders', definition })
+
+  it("should use each trigger's definition once", () => {
+    const triggers = [
+      trigger('audit', 'CREATE TRIGGER audit BEFORE INSERT OR UPDATE ON public.orders FOR EACH ROW EXECUTE FUNCTION audit()'),
+      { ...trigger('audit', 'CREATE TRIGGER audit BEFORE INSERT OR UPDATE ON public.orders FOR EACH ROW EXECUTE FUNCTION audit()'), manipulation: 'UPDATE' },
+      trigger('stamp', ' CREATE TRIGGER stamp BEFORE INSERT ON public.orders FOR EACH STATEMENT EXECUTE FUNCTION stamp() '),
+    ]
+    expect(triggerCreateScripts(triggers)).toEqual([
+      'CREATE TRIGGER audit BEFORE INSERT OR UPDATE ON public.orders FOR EACH ROW EXECUTE FUNCTION audit()',
+      'CREATE TRIGGER stamp BEFORE INSERT ON public.orders FOR EACH STATEMENT EXECUTE FUNCTION stamp()',
+    ])
+  })
+
+  it("should skip triggers without a definition", () => {
+    expect(triggerCreateScripts([trigger('audit', null)])).toEqual([])
+  })
+})
@@ -0,0 +1,94 @@
+import os from 'os'
+import path from 'path'
+import { parseSshConfig, resolveSshConfigHost, resolveJumpHosts, sshConfigAliases } from '@/lib/db/ssh_config'
+
+const config = parseSshConfig(`
+# company hosts
+Host bastion
+  HostName bastion.example.com
+  User jumper
+  IdentityFile ~/.ssh/bastion_key
+
+Host inner
+  HostName=10.0.1.5
+  Port 2222
+  ProxyJump bastion
+
+Host db-*
+  HostName %h.internal
+  ProxyJump inner,ops@edge:2200
+  User deploy
+
+Host db-legacy
+  Port 2200
+
+Match host something
+  User ignored
+
+Host * !db-secret
+  IdentityFile "~/.ssh/id_ed25519"
+  User default
+`)
+
+describe("parseSshConfig", () => {
+  it("should read hosts and their options", () => {
+    expect(config[0].patterns).toEqual(['bastion'])
+    expect(config[0].options).toEqual([
+      ['hostname', 'bastion.example.com'],
+      ['user', 'jumper'],
+      ['identityfile', '~/.ssh/bastion_key'],
+    ])
+  })
+
+  it("should list the aliases that can be picked", () => {
+    expect(sshConfigAliases(config)).toEqual(['bastion', 'inner', 'db-legacy'])
+  })
+})
+
+describe("resolveSshConfigHost", () => {
+  it("should use the first value found for each option", () => {
+    const host = resolveSshConfigHost('bastion', config)
+    expect(host.host).toBe('bastion.example.com')
+    expect(host.user).toBe('jumper')
+    expect(host.port).toBeNull()
+    expect(host.identityFiles).toEqual([
+      path.join(os.homedir(), '.ssh', 'bastion_key'),
+      path.join(os.homedir(), '.ssh', 'id_ed25519'),
+    ])
+  })
+
+  it("should match wildcards and expand %h to the alias", () => {
+    const host = resolveSshConfigHost('db-legacy', config)
+    expect(host.host).toBe('db-legacy.internal')
+    expect(host.port).toBe(2200)
+    expect(host.user).toBe('deploy')
+    expect(host.proxyJump).toEqual(['inner', 'ops@edge:2200'])
+  })
+
+  it("should skip hosts ruled out by a negated pattern", () => {
+    const host = resolveSshConfigHost('db-secret', config)
+    expect(host.identityFiles).toEqual([])
+  })
+
+  it("should connect straight to an unknown host", () => {
+    const host = resolveSshConfigHost('example.org', parseSshConfig(''))
+    expect(host.host).toBe('example.org')
+    expect(host.proxyJump).toEqual([])
+  })
+})
+
+describe("resolveJumpHosts", () => {
+  it("should follow the jump hosts of each hop, in order", () => {
+    const hops = resolveJumpHosts(resolveSshConfigHost('db-legacy', config).proxyJump, config)
+    expect(hops.map((h) => [h.user, h.host, h.port])).toEqual([
+      ['jumper', 'bastion.example.com', null],
+      ['default', '10.0.1.5', 2222],
+      ['ops', 'edge', 2200],
+    ])
+  })
+
+  it("should stop when hosts jump through each other", () => {
+    const loop = parseSshConfig("Host a\n  ProxyJump b\nHost b\n  ProxyJump a\n")
+    expect(() => resolveJumpHosts(['a'], loop)).toThrow('Too many nested ProxyJump hosts')
+  })
+})
@@ -0,0 +1,95 @@
+import { BeeCursor } from '@/lib/db/models'
+import { ResultStream, countQuery } from '@/lib/db/stream'
+
+class ArrayCursor extends BeeCursor {
+  constructor(rows, chunkSize) {
+    super(chunkSize)
+    this.rows = rows
+    this.position = 0
+    this.reads = 0
+    this.closed = false
+  }
+
+  async start() {
+    this.columnNames = ['id', 'name']
+  }
+
+  async read() {
+    this.reads++
+    const chunk = this.rows.slice(this.position, this.position + this.chunkSize)
+    this.position += chunk.length
+    return chunk
+  }
+
+  async cancel() {
+    this.closed = true
+  }
+}
+
+const makeRows = (count) => Array.from({ length: count }, (_v, i) => [i, `row ${i}`])
+
+describe("ResultStream", () => {
+  it("should read the first page when it starts", async () => {
+    const cursor = new ArrayCursor(makeRows(25), 10)
+    const stream = new ResultStream(cursor, 100)
+    await stream.start()
+    expect(stream.rows.length).toBe(10)
+    expect(stream.fields).toEqual([{ id: 'c0', name: 'id' }, { id: 'c1', name: 'name' }])
+    expect(stream.rows[3]).toEqual({ c0: 3, c1: 'row 3' })
+    expect(stream.done).toBe(false)
+  })
+
+  it("should close the cursor after a short page", async () => {
+    const cursor = new ArrayCursor(makeRows(15), 10)
+    const stream = new ResultStream(cursor, 100)
+    await stream.start()
+    const rows = await stream.fetch()
+    expect(rows.length).toBe(5)
+    expect(stream.done).toBe(true)
+    expect(cursor.closed).toBe(true)
+    expect(await stream.fetch()).toEqual([])
+  })
+
+  it("should only read a page once when asked twice", async () => {
+    const cursor = new ArrayCursor(makeRows(50), 10)
+    const stream = new ResultStream(cursor, 100)
+    await stream.start()
+    await Promise.all([stream.fetch(), stream.fetch()])
+    expect(cursor.reads).toBe(2)
+    expect(stream.rows.length).toBe(20)
+  })
+
+  it("should pause at the row limit until asked for more", async () => {
+    const cursor = new ArrayCursor(makeRows(100), 10)
+    const stream = new ResultStream(cursor, 20)
+    await stream.start()
+    await stream.fetch()
+    expect(stream.paused).toBe(true)
+    expect(await stream.fetch()).toEqual([])
+    expect(stream.rows.length).toBe(20)
+
+    await stream.fetchMore()
+    expect(stream.rows.length).toBe(40)
+    expect(stream.paused).toBe(true)
+
+    await stream.fetchAll()
+    expect(stream.rows.length).toBe(100)
+    expect(stream.done).toBe(true)
+    expect(stream.paused).toBe(false)
+  })
+
+  it("should name columns by position when the cursor doesn't know them", async () => {
+    const cursor = new ArrayCursor(makeRows(2), 10)
+    // starts without setting columnNames
+    cursor.start = () => Promise.resolve()
+    const stream = new ResultStream(cursor, 100)
+    await stream.start()
+    expect(stream.fields.map((f) => f.name)).toEqual(['Column 1', 'Column 2'])
+  })
+})
+
+describe("countQuery", () => {
+  it("should wrap the query in a count", () => {
+    expect(countQuery("select * from users;  ")).toBe("SELECT COUNT(*) AS total FROM (\nselect * from users\n) AS total_rows")
+  })
+})
@@ -6,6 +6,9 @@ import {
   findTableOrViewByWord,
   getTextNearCursor,
   splitWords,
+  findTableAliases,
+  findAliasedTable,
+  makeJoinHints,
 } from "../../../src/lib/editor";
 import {
   dbHint,
@@ -274,4 +277,84 @@ describe("lib/editor", () => {
       ]);
     });
   });
+
+  describe("aliases and joins", () => {
+    const shopHint = makeDBHint(
+      [
+        { schema: "public", name: "users" },
+        { schema: "public", name: "orders" },
+        { schema: "public", name: "order_items" },
+        { schema: "audit", name: "events" },
+      ],
+      PostgresData,
+      "public"
+    );
+    const aliasesOf = (query) =>
+      findTableAliases(shopHint, query).map((a) => [a.alias, a.table.name]);
+
+    it("should find tables and their aliases", () => {
+      expect(
+        aliasesOf(
+          "SELECT * FROM users u JOIN orders AS o ON o.user_id = u.id LEFT JOIN audit.events WHERE u."
+        )
+      ).toEqual([
+        ["u", "users"],
+        ["o", "orders"],
+        ["events", "events"],
+      ]);
+      expect(aliasesOf("select * from users, orders o where")).toEqual([
+        ["users", "users"],
+        ["o", "orders"],
+      ]);
+      expect(aliasesOf("update orders set total = 1")).toEqual([
+        ["orders", "orders"],
+      ]);
+    });
+
+    it("should ignore strings, comments and unknown tables", () => {
+      expect(
+        aliasesOf("select 'from users x' -- from orders y\n from missing m, \"users\" \"U\"")
+      ).toEqual([["U", "users"]]);
+    });
+
+    it("should find the table behind an alias", () => {
+      const query = "select * from users u join orders o on o.user_id = u.id";
+      expect(findAliasedTable(shopHint, query, "O")).toMatchObject({
+        name: "orders",
+      });
+      expect(findAliasedTable(shopHint, query, "x")).toBeUndefined();
+    });
+
+    it("should suggest joins from foreign keys in both directions", () => {
+      const keys = [
+        {
+          fromTable: "orders", fromSchema: "public", fromColumn: "user_id",
+          toTable: "users", toSchema: "public", toColumn: "id",
+          constraintName: "orders_user_id_fkey",
+        },
+        {
+          fromTable: "order_items", fromSchema: "public", fromColumn: "order_id",
+          toTable: "orders", toSchema: "public", toColumn: "id",
+          constraintName: "order_items_order_id_fkey",
+        },
+      ];
+      const aliases = findTableAliases(shopHint, "select * from orders o join ");
+      expect(makeJoinHints(shopHint, aliases, keys).map((h) => h.text)).toEqual([
+        "users u ON u.id = o.user_id",
+        "order_items oi ON oi.order_id = o.id",
+      ]);
+    });
+
+    it("should group keys with several columns and pick unused aliases", () => {
+      const keys = ["tenant_id", "user_id"].map((column) => ({
+        fromTable: "orders", fromSchema: "public", fromColumn: column,
+        toTable: "users", toSchema: "public", toColumn: column.replace("user_", ""),
+        constraintName: "orders_user_fkey",
+      }));
+      const aliases = findTableAliases(shopHint, "select * from orders u join ");
+      expect(makeJoinHints(shopHint, aliases, keys).map((h) => h.text)).toEqual([
+        "users u2 ON u2.tenant_id = u.tenant_id AND u2.id = u.user_id",
+      ]);
+    });
+  });
 });
@@ -0,0 +1,64 @@
+import { layoutDiagram, neighbourhood } from '@/lib/erd/layout'
+
+const table = (name, columns = ['id']) => ({
+  name,
+  columns: columns.map((c) => ({ name: c, dataType: 'integer', primary: c === 'id', foreign: c !== 'id' }))
+})
+const edge = (from, fromColumn, to) => ({ from, fromColumn, to, toColumn: 'id' })
+
+// customers <- orders <- order_items -> products, plus an unrelated settings table
+const tables = [
+  table('customers'),
+  table('orders', ['id', 'customer_id']),
+  table('order_items', ['id', 'order_id', 'product_id']),
+  table('products'),
+  table('settings'),
+]
+const edges = [
+  edge('orders', 'customer_id', 'customers'),
+  edge('order_items', 'order_id', 'orders'),
+  edge('order_items', 'product_id', 'products'),
+]
+
+describe('neighbourhood', () => {
+  it("Should follow keys in both directions up to the hop limit", () => {
+    const names = (hops) => neighbourhood(tables, edges, 'orders', hops).map((t) => t.name)
+    expect(names(0)).toEqual(['orders'])
+    expect(names(1)).toEqual(['customers', 'orders', 'order_items'])
+    expect(names(2)).toEqual(['customers', 'orders', 'order_items', 'products'])
+  })
+})
+
+describe('layoutDiagram', () => {
+  const layout = layoutDiagram(tables, edges)
+  const node = (name) => layout.nodes.find((n) => n.table.name === name)
+
+  it("Should put referenced tables left of the tables using them", () => {
+    expect(node('customers').x < node('orders').x).toBe(true)
+    expect(node('orders').x < node('order_items').x).toBe(true)
+    expect(node('products').x < node('order_items').x).toBe(true)
+  })
+
+  it("Should put tables without keys underneath", () => {
+    const connected = ['customers', 'orders', 'order_items', 'products'].map(node)
+    const bottom = Math.max(...connected.map((n) => n.y + n.height))
+    expect(node('settings').y > bottom).toBe(true)
+  })
+
+  it("Should route every edge and fit everything in the canvas", () => {
+    expect(layout.routes).toHaveLength(3)
+    layout.nodes.forEach((n) => {
+      expect(n.x + n.width <= layout.width).toBe(true)
+      expect(n.y + n.height <= layout.height).toBe(true)
+    })
+  })
+
+  it("Should cope with cycles and self references", () => {
+    const cyclic = layoutDiagram(
+      [table('a', ['id', 'b_id', 'parent_id']), table('b', ['id', 'a_id'])],
+      [edge('a', 'b_id', 'b'), edge('b', 'a_id', 'a'), edge('a', 'parent_id', 'a')]
+    )
+    expect(cyclic.nodes).toHaveLength(2)
+    expect(cyclic.routes).toHaveLength(3)
+  })
+})
@@ -0,0 +1,73 @@
+import { parseCockroachPlan } from '@/lib/explain/cockroach'
+
+const analyzed = [
+  'planning time: 412µs',
+  'execution time: 2ms',
+  'distribution: local',
+  'vectorized: true',
+  'rows read from KV: 1,000 (78 KiB)',
+  '',
+  '• sort',
+  '│ nodes: n1',
+  '│ actual row count: 3',
+  '│ estimated row count: 10',
+  '│ order: +name',
+  '│',
+  '└── • filter',
+  '    │ actual row count: 3',
+  '    │ estimated row count: 10',
+  '    │ filter: active',
+  '    │',
+  '    └── • scan',
+  '          actual row count: 1,000',
+  '          estimated row count: 1,000 (100% of the table; stats collected 2 minutes ago)',
+  '          table: users@users_pkey',
+  '          spans: FULL SCAN',
+]
+
+describe("Cockroach plans", () => {
+  it("should read an analyzed plan", () => {
+    const plan = parseCockroachPlan(analyzed, true)
+    expect(plan.analyzed).toBe(true)
+    expect(plan.planningTime).toBeCloseTo(0.412)
+    expect(plan.executionTime).toBe(2)
+
+    const { root } = plan
+    expect(root.title).toBe('sort')
+    expect(root.rows).toBe(10)
+    expect(root.actualRows).toBe(3)
+    expect(root.properties['order']).toBe('+name')
+    expect(root.properties['estimated row count']).toBeUndefined()
+
+    const [filter] = root.children
+    expect(filter.title).toBe('filter')
+    expect(filter.properties['filter']).toBe('active')
+
+    const [scan] = filter.children
+    expect(scan.title).toBe('scan')
+    expect(scan.detail).toBe('on users using users_pkey')
+    expect(scan.rows).toBe(1000)
+    expect(scan.actualRows).toBe(1000)
+    expect(scan.warnings).toEqual(['Reads the whole table'])
+    expect(scan.children).toEqual([])
+  })
+
+  it("should keep siblings under the same parent", () => {
+    const plan = parseCockroachPlan([
+      '• hash join',
+      '│ equality: (id) = (user_id)',
+      '│',
+      '├── • scan',
+      '│     table: users@users_pkey',
+      '│',
+      '└── • scan',
+      '      table: orders@orders_pkey',
+    ], false)
+    expect(plan.analyzed).toBe(false)
+    expect(plan.root.children.map((c) => c.detail)).toEqual(['on users using users_pkey', 'on orders using orders_pkey'])
+  })
+
+  it("should complain when there's no plan", () => {
+    expect(() => parseCockroachPlan(['distribution: local'], false)).toThrow("The database didn't return a plan")
+  })
+})
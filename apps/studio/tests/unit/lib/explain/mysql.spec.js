@@ -0,0 +1,68 @@
+import { parseMysqlPlan } from '@/lib/explain/mysql'
+
+const explained = {
+  "query_block": {
+    "select_id": 1,
+    "cost_info": { "query_cost": "1250.40" },
+    "ordering_operation": {
+      "using_filesort": true,
+      "nested_loop": [
+        {
+          "table": {
+            "table_name": "orders",
+            "access_type": "ALL",
+            "rows_examined_per_scan": 10000,
+            "rows_produced_per_join": 1000,
+            "filtered": "10.00",
+            "cost_info": { "read_cost": "900.00", "eval_cost": "100.00", "prefix_cost": "1000.00" },
+            "used_columns": ["id", "user_id"],
+            "attached_condition": "(`orders`.`total` > 100)"
+          }
+        },
+        {
+          "table": {
+            "table_name": "users",
+            "access_type": "eq_ref",
+            "key": "PRIMARY",
+            "rows_examined_per_scan": 1,
+            "rows_produced_per_join": 1000,
+            "cost_info": { "read_cost": "150.00", "eval_cost": "100.00" }
+          }
+        }
+      ]
+    }
+  }
+}
+
+describe("MySQL plans", () => {
+  it("should read a JSON plan", () => {
+    const plan = parseMysqlPlan(JSON.stringify(explained))
+    const { root } = plan
+    expect(plan.analyzed).toBe(false)
+    expect(root.title).toBe('Query Block #1')
+    expect(root.cost).toBe(1250.4)
+
+    const order = root.children[0]
+    expect(order.title).toBe('Order')
+    expect(order.warnings).toEqual(['Sorted with a filesort'])
+
+    const loop = order.children[0]
+    expect(loop.title).toBe('Nested Loop')
+    expect(loop.cost).toBe(1250)
+
+    const [orders, users] = loop.children
+    expect(orders.title).toBe('Full Table Scan')
+    expect(orders.detail).toBe('on orders')
+    expect(orders.cost).toBe(1000)
+    expect(orders.rows).toBe(1000)
+    expect(orders.properties['used_columns']).toBe('id, user_id')
+    expect(orders.warnings).toEqual(['Reads all 10000 rows'])
+    expect(users.title).toBe('Unique Key Lookup')
+    expect(users.detail).toBe('on users using PRIMARY')
+    expect(users.warnings).toEqual([])
+  })
+
+  it("should complain when there's no plan", () => {
+    expect(() => parseMysqlPlan('{}')).toThrow()
+  })
+})
@@ -0,0 +1,47 @@
+import { explainableQuery, planStats } from '@/lib/explain/plan'
+
+function node(title, values = {}, children = []) {
+  return { title, properties: {}, warnings: [], children, ...values }
+}
+
+describe("Query plan stats", () => {
+  it("should strip trailing semicolons", () => {
+    expect(explainableQuery("  select 1;  \n")).toBe("select 1")
+    expect(explainableQuery("select ';'; ;")).toBe("select ';'")
+  })
+
+  it("should work out each node's own share of the cost", () => {
+    const scan = node('Seq Scan', { cost: 80 })
+    const index = node('Index Scan', { cost: 10 })
+    const root = node('Hash Join', { cost: 100 }, [scan, index])
+    const stats = planStats({ root, analyzed: false, raw: '' })
+
+    expect(stats.get(root).selfCost).toBe(10)
+    expect(stats.get(scan).share).toBe(0.8)
+    expect(stats.get(scan).hot).toBe(true)
+    expect(stats.get(index).hot).toBe(false)
+    expect(stats.get(root).hot).toBe(false)
+  })
+
+  it("should use time and loops when the plan was analyzed", () => {
+    const inner = node('Index Scan', { cost: 90, actualTime: 2, loops: 40 })
+    const root = node('Nested Loop', { cost: 100, actualTime: 100, loops: 1 }, [inner])
+    const stats = planStats({ root, analyzed: true, raw: '' })
+
+    expect(stats.get(inner).selfTime).toBe(80)
+    expect(stats.get(root).selfTime).toBe(20)
+    expect(stats.get(inner).share).toBe(0.8)
+    expect(stats.get(root).hot).toBe(false)
+  })
+
+  it("should flag bad row estimates and warnings", () => {
+    const misestimated = node('Seq Scan', { cost: 1, rows: 1, actualRows: 5000 })
+    const warned = node('Sort', { cost: 1, warnings: ['Sort spilled to disk'] })
+    const root = node('Append', { cost: 100 }, [misestimated, warned])
+    const stats = planStats({ root, analyzed: false, raw: '' })
+
+    expect(stats.get(misestimated).misestimate).toBe(2500.5)
+    expect(stats.get(misestimated).hot).toBe(true)
+    expect(stats.get(warned).hot).toBe(true)
+  })
+})
@@ -0,0 +1,67 @@
+import { parsePostgresPlan } from '@/lib/explain/postgresql'
+
+const analyzed = [{
+  "Plan": {
+    "Node Type": "Sort",
+    "Parallel Aware": false,
+    "Total Cost": 120.5,
+    "Plan Rows": 10,
+    "Actual Total Time": 14.2,
+    "Actual Rows": 3,
+    "Actual Loops": 1,
+    "Sort Key": ["u.name"],
+    "Sort Method": "external merge",
+    "Plans": [{
+      "Node Type": "Seq Scan",
+      "Parent Relationship": "Outer",
+      "Relation Name": "users",
+      "Schema": "public",
+      "Alias": "u",
+      "Total Cost": 100,
+      "Plan Rows": 10,
+      "Actual Total Time": 12.1,
+      "Actual Rows": 3,
+      "Actual Loops": 1,
+      "Filter": "(active = true)",
+      "Rows Removed by Filter": 50000
+    }]
+  },
+  "Planning Time": 0.2,
+  "Execution Time": 14.5
+}]
+
+describe("Postgres plans", () => {
+  it("should read an analyzed plan", () => {
+    const plan = parsePostgresPlan(JSON.stringify(analyzed), true)
+    expect(plan.analyzed).toBe(true)
+    expect(plan.planningTime).toBe(0.2)
+    expect(plan.executionTime).toBe(14.5)
+
+    const { root } = plan
+    expect(root.title).toBe('Sort')
+    expect(root.cost).toBe(120.5)
+    expect(root.properties).toEqual({ 'Sort Key': 'u.name', 'Sort Method': 'external merge' })
+    expect(root.warnings).toEqual(['Sort spilled to disk'])
+
+    const scan = root.children[0]
+    expect(scan.title).toBe('Seq Scan')
+    expect(scan.detail).toBe('on public.users u')
+    expect(scan.rows).toBe(10)
+    expect(scan.actualRows).toBe(3)
+    expect(scan.actualTime).toBe(12.1)
+    expect(scan.loops).toBe(1)
+    expect(scan.properties['Filter']).toBe('(active = true)')
+    expect(scan.warnings).toEqual(['Filter threw away 50000 rows'])
+  })
+
+  it("should read a plain plan", () => {
+    const plan = parsePostgresPlan([{ "Plan": { "Node Type": "Result", "Total Cost": 0.01, "Plan Rows": 1 } }], false)
+    expect(plan.analyzed).toBe(false)
+    expect(plan.root.actualRows).toBe(undefined)
+    expect(plan.root.children).toEqual([])
+  })
+
+  it("should complain when there's no plan", () => {
+    expect(() => parsePostgresPlan('[]', false)).toThrow()
+  })
+})
@@ -0,0 +1,33 @@
+import { parseSqlitePlan } from '@/lib/explain/sqlite'
+
+describe("SQLite plans", () => {
+  it("should nest rows under their parent", () => {
+    const { root } = parseSqlitePlan([
+      { id: 3, parent: 0, detail: 'SCAN users' },
+      { id: 5, parent: 0, detail: 'SEARCH orders USING INDEX orders_user (user_id=?)' },
+      { id: 9, parent: 0, detail: 'CORRELATED SCALAR SUBQUERY 1' },
+      { id: 12, parent: 9, detail: 'SEARCH items USING AUTOMATIC COVERING INDEX (order_id=?)' },
+      { id: 20, parent: 0, detail: 'USE TEMP B-TREE FOR ORDER BY' },
+    ])
+    expect(root.title).toBe('Query Plan')
+    expect(root.children.map((c) => c.title)).toEqual([
+      'SCAN users',
+      'SEARCH orders USING INDEX orders_user (user_id=?)',
+      'CORRELATED SCALAR SUBQUERY 1',
+      'USE TEMP B-TREE FOR ORDER BY',
+    ])
+    expect(root.children[0].warnings).toEqual(['Reads the whole table'])
+    expect(root.children[1].warnings).toEqual([])
+    expect(root.children[2].children[0].warnings).toEqual(['Builds an automatic index, consider adding one'])
+    expect(root.children[3].warnings).toEqual(['Builds a temporary index'])
+  })
+
+  it("should handle older versions without ids", () => {
+    const { root } = parseSqlitePlan([
+      { detail: 'SCAN TABLE users' },
+      { detail: 'SEARCH TABLE orders USING INDEX orders_user (user_id=?)' },
+    ])
+    expect(root.children).toHaveLength(2)
+    expect(root.children[0].warnings).toEqual(['Reads the whole table'])
+  })
+})
@@ -0,0 +1,71 @@
+import { parseSqlServerPlan } from '@/lib/explain/sqlserver'
+
+const showplan = (statements) => `<?xml version="1.0" encoding="utf-16"?>
+<ShowPlanXML xmlns="http://schemas.microsoft.com/sqlserver/2004/07/showplan" Version="1.539">
+  <BatchSequence><Batch><Statements>${statements}</Statements></Batch></BatchSequence>
+</ShowPlanXML>`
+
+const select = `
+<StmtSimple StatementText="SELECT * FROM orders o JOIN users u ON u.id = o.user_id WHERE o.total &gt; 100" StatementType="SELECT" StatementSubTreeCost="0.25" StatementEstRows="42">
+  <QueryPlan>
+    <MissingIndexes>
+      <MissingIndexGroup Impact="87.5">
+        <MissingIndex Database="[shop]" Schema="[dbo]" Table="[orders]" />
+      </MissingIndexGroup>
+    </MissingIndexes>
+    <RelOp PhysicalOp="Nested Loops" LogicalOp="Inner Join" EstimateRows="42" EstimatedTotalSubtreeCost="0.25" EstimateIO="0" EstimateCPU="0.0002">
+      <NestedLoops Optimized="0">
+        <RelOp PhysicalOp="Clustered Index Scan" LogicalOp="Clustered Index Scan" EstimateRows="42" EstimatedTotalSubtreeCost="0.2" EstimateIO="0.18">
+          <Warnings><NoJoinPredicate /></Warnings>
+          <IndexScan Ordered="0">
+            <Object Database="[shop]" Schema="[dbo]" Table="[orders]" Index="[PK_orders]" />
+            <Predicate>
+              <ScalarOperator ScalarString="[shop].[dbo].[orders].[total]&gt;(100)" />
+            </Predicate>
+          </IndexScan>
+        </RelOp>
+        <RelOp PhysicalOp="Clustered Index Seek" LogicalOp="Clustered Index Seek" EstimateRows="1" EstimatedTotalSubtreeCost="0.003">
+          <IndexScan Ordered="1">
+            <Object Database="[shop]" Schema="[dbo]" Table="[users]" Index="[PK_users]" />
+          </IndexScan>
+        </RelOp>
+      </NestedLoops>
+    </RelOp>
+  </QueryPlan>
+</StmtSimple>`
+
+describe("SQL Server plans", () => {
+  it("should read a showplan", () => {
+    const plan = parseSqlServerPlan(showplan(select))
+    const { root } = plan
+    expect(plan.analyzed).toBe(false)
+    expect(root.title).toBe('SELECT')
+    expect(root.cost).toBe(0.25)
+    expect(root.rows).toBe(42)
+    expect(root.warnings).toEqual(['Missing index, estimated 87.5% better'])
+
+    const [join] = root.children
+    expect(join.title).toBe('Nested Loops')
+    expect(join.properties['LogicalOp']).toBe('Inner Join')
+    expect(join.children.map((c) => c.title)).toEqual(['Clustered Index Scan', 'Clustered Index Seek'])
+
+    const [scan, seek] = join.children
+    expect(scan.detail).toBe('on dbo.orders using PK_orders')
+    expect(scan.properties['LogicalOp']).toBeUndefined()
+    expect(scan.properties['Predicate']).toBe('[shop].[dbo].[orders].[total]>(100)')
+    expect(scan.warnings).toEqual(['No Join Predicate'])
+    expect(seek.detail).toBe('on dbo.users using PK_users')
+    expect(seek.children).toEqual([])
+  })
+
+  it("should put several statements under a batch", () => {
+    const { root } = parseSqlServerPlan(showplan(select + select))
+    expect(root.title).toBe('Batch')
+    expect(root.children).toHaveLength(2)
+    expect(root.cost).toBe(0.5)
+  })
+
+  it("should complain when there's no plan", () => {
+    expect(() => parseSqlServerPlan(showplan(''))).toThrow("The database didn't return a plan")
+  })
+})
@@ -0,0 +1,63 @@
+import { sortByDependencies, triggerBlock } from '@/lib/export/dump'
+
+const table = (name, schema = 'public') => ({ name, schema, entityType: 'table' })
+const key = (fromTable, toTable, schema = 'public') => ({
+  fromTable, fromSchema: schema, fromColumn: 'id',
+  toTable, toSchema: schema, toColumn: 'id'
+})
+
+describe('sortByDependencies', () => {
+  it("Should put referenced tables first", () => {
+    const tables = [table('orders'), table('users'), table('line_items'), table('products')]
+    const keys = [
+      key('orders', 'users'),
+      key('line_items', 'orders'),
+      key('line_items', 'products'),
+    ]
+    const result = sortByDependencies(tables, keys).map((t) => t.name)
+    expect(result).toEqual(['users', 'products', 'orders', 'line_items'])
+  })
+
+  it("Should ignore self references and tables outside the dump", () => {
+    const tables = [table('employees'), table('teams')]
+    const keys = [
+      key('employees', 'employees'),
+      key('employees', 'teams'),
+      key('teams', 'companies'),
+    ]
+    const result = sortByDependencies(tables, keys).map((t) => t.name)
+    expect(result).toEqual(['teams', 'employees'])
+  })
+
+  it("Should keep tables in a cycle at the end in their original order", () => {
+    const tables = [table('a'), table('b'), table('c')]
+    const keys = [key('a', 'b'), key('b', 'a')]
+    const result = sortByDependencies(tables, keys).map((t) => t.name)
+    expect(result).toEqual(['c', 'a', 'b'])
+  })
+
+  it("Should use the referencing schema when the referenced one is missing", () => {
+    const tables = [table('child', 'main'), table('parent', 'main')]
+    const keys = [{ ...key('child', 'parent', 'main'), toSchema: undefined }]
+    const result = sortByDependencies(tables, keys).map((t) => t.name)
+    expect(result).toEqual(['parent', 'child'])
+  })
+})
+
+describe('triggerBlock', () => {
+  const body = 'CREATE TRIGGER stamp BEFORE INSERT ON `users` FOR EACH ROW BEGIN SET NEW.a = 1; SET NEW.b = 2; END'
+
+  it("Should change the delimiter around mysql triggers", () => {
+    expect(triggerBlock(body, 'mysql')).toBe(`DELIMITER ;;\n${body};;\nDELIMITER ;`)
+  })
+
+  it("Should put sql server triggers in a batch of their own", () => {
+    expect(triggerBlock('CREATE TRIGGER [dbo].[stamp] ON [dbo].[users] AFTER INSERT AS SELECT 1;', 'sqlserver'))
+      .toBe('GO\nCREATE TRIGGER [dbo].[stamp] ON [dbo].[users] AFTER INSERT AS SELECT 1\nGO')
+  })
+
+  it("Should end other triggers with a single ;", () => {
+    expect(triggerBlock('CREATE TRIGGER audit AFTER INSERT ON public.users FOR EACH ROW EXECUTE FUNCTION audit();', 'postgresql'))
+      .toBe('CREATE TRIGGER audit AFTER INSERT ON public.users FOR EACH ROW EXECUTE FUNCTION audit();')
+  })
+})
@@ -0,0 +1,17 @@
+import { HtmlExporter } from '@/lib/export/formats/html'
+
+describe('html exporter', () => {
+  const exporter = new HtmlExporter("./tmp/html.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { title: true, styled: false })
+
+  it("Should escape cell contents", () => {
+    expect(exporter.formatRow(['<b>', 'a & b'])).toBe('      <tr><td>&lt;b&gt;</td><td>a &amp; b</td></tr>')
+  })
+
+  it("Should mark nulls", () => {
+    expect(exporter.formatRow([null])).toBe('      <tr><td class="null">NULL</td></tr>')
+  })
+
+  it("Should close the document", () => {
+    expect(exporter.getFooter()).toBe('    </tbody>\n  </table>\n</body>\n</html>\n')
+  })
+})
@@ -0,0 +1,17 @@
+import { MarkdownExporter } from '@/lib/export/formats/markdown'
+
+describe('markdown exporter', () => {
+  const exporter = new MarkdownExporter("./tmp/md.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { title: true })
+
+  it("Should format a row as a table row", () => {
+    expect(exporter.formatRow(['a', 1, null])).toBe('| a | 1 |  |')
+  })
+
+  it("Should escape pipes and newlines", () => {
+    expect(exporter.formatRow(['a|b', 'c\nd'])).toBe('| a\\|b | c<br>d |')
+  })
+
+  it("Should only write the title without columns", async () => {
+    expect(await exporter.getHeader([])).toBe('# table\n\n')
+  })
+})
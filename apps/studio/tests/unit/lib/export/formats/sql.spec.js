@@ -1,4 +1,5 @@
 import { SqlExporter } from '@/lib/export/formats/sql'
+import { ExportStatus } from '@/lib/export/models'
 
 
 describe('sql exporter', () => {
@@ -22,4 +23,84 @@ describe('sql exporter', () => {
     const result = exporter.formatRow(input)
     expect(result).toBe(`insert into "table" ("col_1") values ('a''\nb')`)
   })
+
+  describe("with batches", () => {
+    const batched = new SqlExporter("./tmp/sql.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { batchSize: 2 })
+
+    it("Should combine rows into multi-row inserts", () => {
+      const result = batched.formatChunk([['a', 'b'], ['c', 'd'], ['e', 'f']])
+      expect(result).toEqual([`insert into "table" ("col_1", "col_2") values ('a', 'b'), ('c', 'd')`])
+    })
+
+    it("Should write the left over rows in the footer", () => {
+      expect(batched.getFooter()).toBe(`insert into "table" ("col_1", "col_2") values ('e', 'f');\n`)
+      expect(batched.getFooter()).toBe('')
+    })
+
+    it("Should carry rows over from one chunk to the next", async () => {
+      const exporter = new SqlExporter("./tmp/sql.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { batchSize: 2 })
+      const chunks = [[['a'], ['b'], ['c']], [['d'], ['e']], []]
+      const written = []
+      exporter.cursor = { read: () => Promise.resolve(chunks.shift()), close: () => Promise.resolve() }
+      exporter.writer = { write: (text) => Promise.resolve(written.push(text)) }
+      exporter.status = ExportStatus.Exporting
+      await exporter.exportData()
+      written.push(exporter.getFooter())
+      expect(written.join('')).toBe([
+        `insert into "table" ("col_1") values ('a'), ('b');`,
+        `insert into "table" ("col_1") values ('c'), ('d');`,
+        `insert into "table" ("col_1") values ('e');`,
+        '',
+      ].join('\n'))
+    })
+  })
+
+  describe("with upserts", () => {
+    const connection = (connectionType) => ({
+      connectionType,
+      getPrimaryKeys: () => Promise.resolve([{ columnName: 'col_1', position: 1 }])
+    })
+
+    it("Should generate ON CONFLICT for postgres", async () => {
+      const upserter = new SqlExporter("./tmp/sql.export", connection('postgresql'), { name: 'table'}, '', '', [], {}, { upsert: 'upsert' })
+      await upserter.getHeader()
+      expect(upserter.formatRow(['a', 'b'])).toBe(
+        `insert into "table" ("col_1", "col_2") values ('a', 'b') on conflict ("col_1") do update set "col_1" = excluded."col_1", "col_2" = excluded."col_2"`
+      )
+    })
+
+    it("Should generate ON DUPLICATE KEY UPDATE for mysql", async () => {
+      const upserter = new SqlExporter("./tmp/sql.export", connection('mysql'), { name: 'table'}, '', '', [], {}, { upsert: 'upsert' })
+      await upserter.getHeader()
+      expect(upserter.formatRow(['a', 'b'])).toBe(
+        "insert into `table` (`col_1`, `col_2`) values ('a', 'b') on duplicate key update `col_1` = values(`col_1`), `col_2` = values(`col_2`)"
+      )
+    })
+
+    it("Should generate MERGE for sql server", async () => {
+      const upserter = new SqlExporter("./tmp/sql.export", connection('sqlserver'), { name: 'table'}, '', '', [], {}, { upsert: 'upsert' })
+      await upserter.getHeader()
+      expect(upserter.formatRow(['a', 'b'])).toBe(
+        "MERGE INTO [table] AS target USING (VALUES ('a', 'b')) AS source ([col_1], [col_2]) " +
+        "ON target.[col_1] = source.[col_1] WHEN MATCHED THEN UPDATE SET target.[col_2] = source.[col_2] " +
+        "WHEN NOT MATCHED THEN INSERT ([col_1], [col_2]) VALUES (source.[col_1], source.[col_2])"
+      )
+    })
+  })
+
+  it("Should wrap the file in a transaction", async () => {
+    const wrapped = new SqlExporter("./tmp/sql.export", {connectionType: 'mysql'}, { name: 'table'}, '', '', [], {}, { transaction: true })
+    expect(await wrapped.getHeader()).toBe('START TRANSACTION;\n')
+    expect(wrapped.getFooter()).toBe('COMMIT;\n')
+  })
+
+  it("Should write inserts for the target database", () => {
+    const translated = new SqlExporter("./tmp/sql.export", {connectionType: 'postgresql'}, { name: 'table', schema: 'public' }, '', '', [], {}, { schema: true, targetDialect: 'mysql' })
+    expect(translated.formatRow(['a'])).toBe("insert into `public`.`table` (`col_1`) values ('a')")
+  })
+
+  it("Should not use schemas when targeting sqlite", () => {
+    const translated = new SqlExporter("./tmp/sql.export", {connectionType: 'postgresql'}, { name: 'table', schema: 'public' }, '', '', [], {}, { schema: true, targetDialect: 'sqlite' })
+    expect(translated.formatRow(['a'])).toBe("insert into `table` (`col_1`) values ('a')")
+  })
 });
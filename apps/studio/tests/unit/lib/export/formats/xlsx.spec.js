@@ -0,0 +1,29 @@
+import { XlsxExporter } from '@/lib/export/formats/xlsx'
+
+describe('xlsx exporter', () => {
+  const exporter = new XlsxExporter("./tmp/xlsx.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { header: true, sheetName: '' })
+
+  it("Should write typed cells", () => {
+    expect(exporter.formatRow([1.5, true, 'a<b', null])).toBe(
+      '<row><c><v>1.5</v></c><c t="b"><v>1</v></c>' +
+      '<c t="inlineStr"><is><t xml:space="preserve">a&lt;b</t></is></c><c/></row>'
+    )
+  })
+
+  it("Should write dates as excel serial numbers", () => {
+    expect(exporter.formatCell('1970-01-02T00:00:00.000Z', 'timestamp with time zone')).toBe('<c s="1"><v>25570</v></c>')
+  })
+
+  it("Should keep the time of dates without a timezone as it is", () => {
+    // how pg and mysql hand us timestamps, 10:00 must stay 10:00 whatever the local timezone
+    expect(exporter.formatCell('1970-01-02 10:00:00', 'timestamp')).toBe('<c s="1"><v>25570.416666666668</v></c>')
+    expect(exporter.formatCell('1970-01-02', 'date')).toBe('<c s="1"><v>25570</v></c>')
+    expect(exporter.formatCell('not a date', 'date')).toBe('<c t="inlineStr"><is><t xml:space="preserve">not a date</t></is></c>')
+  })
+
+  it("Should clean up sheet names", () => {
+    const named = new XlsxExporter("./tmp/xlsx.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { header: true, sheetName: 'a/b:c' })
+    expect(named.sheetName).toBe('a_b_c')
+    expect(exporter.sheetName).toBe('table')
+  })
+})
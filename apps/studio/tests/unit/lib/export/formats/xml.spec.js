@@ -0,0 +1,21 @@
+import { XmlExporter, xmlElementName } from '@/lib/export/formats/xml'
+
+describe('xml exporter', () => {
+  const exporter = new XmlExporter("./tmp/xml.export", {connectionType: 'postgresql'}, { name: 'table'}, '', '', [], {}, { rootElement: 'people', rowElement: 'person' })
+
+  it("Should write each column as an element", () => {
+    expect(exporter.formatRow(['a & b', null])).toBe(
+      '  <person>\n    <col_1>a &amp; b</col_1>\n    <col_2 xsi:nil="true"/>\n  </person>'
+    )
+  })
+
+  it("Should use the root element", () => {
+    expect(exporter.getFooter()).toBe('</people>\n')
+  })
+
+  it("Should make column names into valid element names", () => {
+    expect(xmlElementName('first name')).toBe('first_name')
+    expect(xmlElementName('1st')).toBe('_1st')
+    expect(xmlElementName('xmlthing')).toBe('_xmlthing')
+  })
+})
@@ -0,0 +1,93 @@
+import { PostgresqlRoleBuilder } from '@shared/lib/sql/role_builder/PostgresqlRoleBuilder'
+import { MysqlRoleBuilder } from '@shared/lib/sql/role_builder/MysqlRoleBuilder'
+import { SqlServerRoleBuilder } from '@shared/lib/sql/role_builder/SqlServerRoleBuilder'
+
+describe("Postgres role codegen", () => {
+  const builder = new PostgresqlRoleBuilder()
+
+  it("should create a role with its options", () => {
+    expect(builder.createRole({ name: 'app', login: true, superuser: false, password: "it's secret" }))
+      .toBe(`CREATE ROLE "app" WITH LOGIN NOSUPERUSER PASSWORD 'it''s secret';`)
+  })
+
+  it("should only alter what changed", () => {
+    const role = { name: 'app', login: true }
+    expect(builder.alterRole({ role, changes: {} })).toBeNull()
+    expect(builder.alterRole({ role, changes: { name: 'api', createDb: true } })).toBe([
+      'ALTER ROLE "app" RENAME TO "api";',
+      'ALTER ROLE "api" WITH CREATEDB;',
+    ].join('\n'))
+  })
+
+  it("should grant on tables and schemas", () => {
+    const result = builder.grant([
+      { role: 'app', schema: 'public', table: 'users', privileges: ['SELECT', 'UPDATE'] },
+      { role: 'app', schema: 'public', privileges: ['USAGE'], withGrantOption: true },
+      { role: 'app', schema: 'other', privileges: [] },
+    ])
+    expect(result).toBe([
+      'GRANT SELECT, UPDATE ON TABLE "public"."users" TO "app";',
+      'GRANT USAGE ON SCHEMA "public" TO "app" WITH GRANT OPTION;',
+    ].join('\n'))
+  })
+
+  it("should revoke", () => {
+    expect(builder.revoke([{ role: 'app', schema: 'public', table: 'users', privileges: ['DELETE'] }]))
+      .toBe('REVOKE DELETE ON TABLE "public"."users" FROM "app";')
+  })
+
+  it("should refuse privileges it doesn't know", () => {
+    expect(() => builder.grant([{ role: 'app', schema: 'public', privileges: ['SELECT; DROP TABLE users'] }]))
+      .toThrow('Unknown privilege')
+  })
+})
+
+describe("MySQL role codegen", () => {
+  const builder = new MysqlRoleBuilder()
+
+  it("should create a user for a host", () => {
+    expect(builder.createRole({ name: 'app', host: 'localhost', password: 'a\\b' }))
+      .toBe(`CREATE USER 'app'@'localhost' IDENTIFIED BY 'a\\\\b';`)
+    expect(builder.createRole({ name: 'app' })).toBe(`CREATE USER 'app'@'%';`)
+  })
+
+  it("should rename and set the password", () => {
+    const role = { name: 'app', host: '%' }
+    expect(builder.alterRole({ role, changes: { host: '10.0.0.%', password: 'new' } })).toBe([
+      `RENAME USER 'app'@'%' TO 'app'@'10.0.0.%';`,
+      `ALTER USER 'app'@'10.0.0.%' IDENTIFIED BY 'new';`,
+    ].join('\n'))
+  })
+
+  it("should grant on a whole database", () => {
+    expect(builder.grant([{ role: 'app', host: '%', schema: 'shop', privileges: ['SELECT'] }]))
+      .toBe("GRANT SELECT ON `shop`.* TO 'app'@'%';")
+  })
+})
+
+describe("SQL Server role codegen", () => {
+  const builder = new SqlServerRoleBuilder()
+
+  it("should create a login and user, or a role", () => {
+    expect(builder.createRole({ name: 'app', login: true, password: 'pw' })).toBe([
+      "CREATE LOGIN [app] WITH PASSWORD = 'pw';",
+      "CREATE USER [app] FOR LOGIN [app];",
+    ].join('\n'))
+    expect(builder.createRole({ name: 'readers' })).toBe('CREATE ROLE [readers];')
+  })
+
+  it("should not turn a role into a login", () => {
+    expect(() => builder.alterRole({ role: { name: 'readers' }, changes: { login: true } }))
+      .toThrow("can't turn a role into a login")
+  })
+
+  it("should grant on schemas and objects", () => {
+    expect(builder.grant([
+      { role: 'readers', schema: 'dbo', privileges: ['SELECT'] },
+      { role: 'readers', schema: 'dbo', table: 'orders', privileges: ['UPDATE'] },
+    ])).toBe([
+      'GRANT SELECT ON SCHEMA::[dbo] TO [readers];',
+      'GRANT UPDATE ON OBJECT::[dbo].[orders] TO [readers];',
+    ].join('\n'))
+  })
+})
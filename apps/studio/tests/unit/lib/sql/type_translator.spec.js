@@ -0,0 +1,40 @@
+import { parseDataType, translateDataType } from '@shared/lib/sql/TypeTranslator'
+
+describe("TypeTranslator", () => {
+  it("should parse lengths and precision", () => {
+    expect(parseDataType('character varying(255)')).toEqual({ type: 'varchar', args: [255] })
+    expect(parseDataType('NUMERIC(10, 2)')).toEqual({ type: 'decimal', args: [10, 2] })
+    expect(parseDataType('varchar(max)')).toEqual({ type: 'varchar', args: [] })
+    expect(parseDataType('geometry')).toBeNull()
+  })
+
+  it("should translate postgres types to other databases", () => {
+    const inputs = [
+      ['boolean', 'mysql', 'tinyint(1)'],
+      ['boolean', 'sqlserver', 'bit'],
+      ['timestamp with time zone', 'sqlserver', 'datetimeoffset'],
+      ['timestamp without time zone', 'mysql', 'datetime'],
+      ['jsonb', 'sqlite', 'text'],
+      ['uuid', 'mysql', 'char(36)'],
+      ['bytea', 'sqlite', 'blob'],
+      ['character varying(20)', 'sqlserver', 'nvarchar(20)'],
+      ['text', 'mysql', 'longtext'],
+      ['numeric(10,2)', 'mysql', 'decimal(10,2)'],
+    ]
+    inputs.forEach(([type, target, expected]) => {
+      expect(translateDataType(type, target)).toBe(expected)
+    })
+  })
+
+  it("should translate mysql types to postgres", () => {
+    expect(translateDataType('tinyint(1)', 'postgresql')).toBe('boolean')
+    expect(translateDataType('int unsigned', 'postgresql')).toBe('integer')
+    expect(translateDataType('datetime', 'postgresql')).toBe('timestamp')
+    expect(translateDataType('longblob', 'postgresql')).toBe('bytea')
+  })
+
+  it("should fall back to text for unknown types", () => {
+    expect(translateDataType('geometry', 'postgresql')).toBe('text')
+    expect(translateDataType('interval', 'sqlserver')).toBe('nvarchar(max)')
+  })
+})
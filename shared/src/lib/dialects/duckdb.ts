@@ -0,0 +1,47 @@
+import {
+  ColumnType,
+  defaultConstraintActions,
+  defaultEscapeString,
+  friendlyNormalizedIdentifier,
+  defaultWrapLiteral,
+  DialectData,
+} from "./models";
+
+const types = [
+  'boolean', 'tinyint', 'smallint', 'integer', 'bigint', 'hugeint', 'utinyint', 'usmallint', 'uinteger', 'ubigint', 'float', 'real', 'double', 'decimal', 'numeric', 'varchar', 'text', 'blob', 'bit', 'uuid', 'json', 'date', 'time', 'timestamp', 'timestamptz', 'timestamp with time zone', 'interval'
+]
+
+const supportsLength = [
+  'varchar'
+]
+
+const defaultLength = (t: string) => t.startsWith('var') ? 255 : 8
+
+const UNWRAPPER = /^"(.*)"$/
+
+export const DuckDBData: DialectData = {
+  columnTypes: types.map((t) => new ColumnType(t, supportsLength.includes(t), defaultLength(t))),
+  constraintActions: [...defaultConstraintActions, 'RESTRICT'],
+  wrapIdentifier: (id: string) => id ? `"${id.replaceAll(/"/g, '""')}"` : null,
+  friendlyNormalizedIdentifier: (s) => friendlyNormalizedIdentifier(s, '"'),
+  escapeString: defaultEscapeString,
+  wrapLiteral: defaultWrapLiteral,
+  unwrapIdentifier(value: string) {
+    const matched = value.match(UNWRAPPER);
+    return matched ? matched[1] : value;
+  },
+  disabledFeatures: {
+    comments: true,
+    alter: {
+      multiStatement: true,
+      addConstraint: true,
+      dropConstraint: true,
+    },
+    informationSchema: {
+      extra: true
+    },
+  },
+  notices: {
+    infoRelations: "Note: DuckDB only supports foreign keys declared when the table is created"
+  }
+}
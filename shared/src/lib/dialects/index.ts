@@ -1,5 +1,6 @@
 import { RedshiftData } from "@shared/lib/dialects/redshift";
 import { BigQueryData } from "./bigquery";
+import { DuckDBData } from "./duckdb";
 import { Dialect, DialectData } from "./models";
 import { MysqlData } from "./mysql";
 import { PostgresData } from "./postgresql";
@@ -20,6 +21,8 @@ export function getDialectData(dialect: Dialect): DialectData  {
       return RedshiftData
     case 'bigquery':
       return BigQueryData
+    case 'duckdb':
+      return DuckDBData
     default:
       return SqliteData
   }
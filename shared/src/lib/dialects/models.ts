@@ -1,6 +1,6 @@
 import _ from 'lodash'
 
-const communityDialects = ['postgresql', 'sqlite', 'sqlserver', 'mysql', 'redshift', 'bigquery']
+const communityDialects = ['postgresql', 'sqlite', 'sqlserver', 'mysql', 'redshift', 'bigquery', 'duckdb']
 const ultimateDialects = []
 
 export const Dialects = [...communityDialects, ...ultimateDialects] as const
@@ -35,6 +35,7 @@ export const DialectTitles: {[K in Dialect]: string} = {
   redshift: "Amazon Redshift",
   sqlite: "SQLite",
   bigquery: "BigQuery",
+  duckdb: "DuckDB",
   ...UltimateDialectTitles
 
 }
@@ -45,6 +46,7 @@ export type KnexDialect = typeof KnexDialects[number]
 export function KnexDialect(d: Dialect): KnexDialect {
   if (d === 'sqlserver') return 'mssql'
   if (d === 'sqlite') return 'sqlite3'
+  if (d === 'duckdb') return 'postgres'
   if (d === 'oracle') return 'oracledb'
   return d as KnexDialect
 }
@@ -56,6 +58,7 @@ export function FormatterDialect(d: Dialect): FormatterDialect {
   if (d === 'sqlite') return 'sqlite'
   if (d === 'oracle') return 'plsql'
   if (d === 'postgresql') return 'postgresql'
+  if (d === 'duckdb') return 'postgresql'
   if (d === 'redshift') return 'redshift'
   return 'mysql' // we want this as the default
 }
@@ -112,6 +115,12 @@ export interface DialectData {
     createIndex?: boolean
     comments?: boolean
   },
+  // what the role editor can change, dialects without it can't manage roles
+  roles?: {
+    options: RoleOption[]
+    schemaPrivileges: string[]
+    tablePrivileges: string[]
+  },
   notices?: {
     infoSchema?: string
     infoIndexes?: string
@@ -227,11 +236,42 @@ export interface IndexAlterations {
 
 
 
+export type RoleOption = 'login' | 'superuser' | 'createDb' | 'createRole'
+
+export interface RoleSpec {
+  name: string
+  // mysql users belong to a host
+  host?: string
+  password?: string
+  login?: boolean
+  superuser?: boolean
+  createDb?: boolean
+  createRole?: boolean
+}
+
+export interface AlterRoleSpec {
+  // the role as it is now
+  role: RoleSpec
+  // only what's changing, a new name included
+  changes: Partial<RoleSpec>
+}
+
+export interface GrantSpec {
+  role: string
+  host?: string
+  privileges: string[]
+  schema: string
+  // left out for privileges on the whole schema
+  table?: string
+  withGrantOption?: boolean
+}
+
 export interface CreateRelationSpec {
   toTable: string;
   toSchema?: string;
-  toColumn: string;
-  fromColumn: string;
+  // several for a multi column key, in matching order
+  toColumn: string | string[];
+  fromColumn: string | string[];
   constraintName?: string;
   onUpdate?: string;
   onDelete?: string;
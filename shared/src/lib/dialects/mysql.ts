@@ -43,6 +43,12 @@ export const MysqlData: DialectData = {
       multiStatement: true
     }
   },
+  // a schema is a database in mysql
+  roles: {
+    options: [],
+    schemaPrivileges: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP', 'ALTER', 'INDEX', 'REFERENCES', 'CREATE VIEW', 'SHOW VIEW', 'TRIGGER', 'EXECUTE'],
+    tablePrivileges: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP', 'ALTER', 'INDEX', 'REFERENCES', 'SHOW VIEW', 'TRIGGER'],
+  },
   notices: {
     infoIndexes: 'Only ascending indexes are supported in MySQL before version 8.0.'
   }
@@ -45,6 +45,11 @@ export const PostgresData: DialectData = {
       extra: true
     }
   },
+  roles: {
+    options: ['login', 'superuser', 'createDb', 'createRole'],
+    schemaPrivileges: ['USAGE', 'CREATE'],
+    tablePrivileges: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER'],
+  },
   charsets
 }
 
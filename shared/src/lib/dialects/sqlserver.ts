@@ -48,6 +48,11 @@ export const SqlServerData: DialectData = {
     informationSchema: {
       extra: true
     }
-  }
-
+  },
+  // a role with a login is a database user
+  roles: {
+    options: ['login'],
+    schemaPrivileges: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'EXECUTE', 'REFERENCES', 'ALTER', 'CONTROL', 'VIEW DEFINITION'],
+    tablePrivileges: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'REFERENCES', 'ALTER', 'CONTROL', 'VIEW DEFINITION'],
+  },
 }
\ No newline at end of file
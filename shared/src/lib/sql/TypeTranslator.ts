@@ -0,0 +1,139 @@
+import { Dialect } from '../dialects/models'
+
+// The dialect-neutral kinds of column we know how to move between databases
+type GenericType = 'boolean' | 'smallint' | 'integer' | 'bigint' | 'decimal' | 'float' | 'double'
+  | 'char' | 'varchar' | 'text' | 'date' | 'time' | 'datetime' | 'timestamptz'
+  | 'json' | 'uuid' | 'binary'
+
+interface ParsedType {
+  type: GenericType
+  // length, or precision and scale
+  args: number[]
+}
+
+// checked in order, first match wins
+const matchers: [RegExp, GenericType][] = [
+  [/^(bool|boolean|bit)$/, 'boolean'],
+  [/^tinyint\(1\)$/, 'boolean'],
+  [/^(tinyint|smallint|int2|smallserial|utinyint|usmallint)\b/, 'smallint'],
+  [/^(bigint|int8|bigserial|hugeint|ubigint)\b/, 'bigint'],
+  [/^(int|integer|int4|mediumint|serial|uinteger)\b/, 'integer'],
+  [/^(decimal|numeric|number|money|smallmoney)\b/, 'decimal'],
+  [/^(real|float4)\b/, 'float'],
+  [/^(double|float8|float)\b/, 'double'],
+  [/^(n?char|character|bpchar)\b(?! varying)/, 'char'],
+  [/^(n?varchar|character varying|varchar2|string)\b/, 'varchar'],
+  [/^(n?text|tinytext|mediumtext|longtext|clob|citext)\b/, 'text'],
+  [/^(datetimeoffset|timestamptz|timestamp with time zone)\b/, 'timestamptz'],
+  [/^(datetime|datetime2|smalldatetime|timestamp)\b/, 'datetime'],
+  [/^date$/, 'date'],
+  [/^(time|timetz)\b/, 'time'],
+  [/^(json|jsonb)$/, 'json'],
+  [/^(uuid|uniqueidentifier)$/, 'uuid'],
+  [/^(blob|tinyblob|mediumblob|longblob|bytea|binary|varbinary|image)\b/, 'binary'],
+]
+
+const targets: Partial<Record<Dialect, Record<GenericType, (args: number[]) => string>>> = {
+  postgresql: {
+    boolean: () => 'boolean',
+    smallint: () => 'smallint',
+    integer: () => 'integer',
+    bigint: () => 'bigint',
+    decimal: (a) => a.length ? `numeric(${a.join(',')})` : 'numeric',
+    float: () => 'real',
+    double: () => 'double precision',
+    char: (a) => `char(${a[0] || 1})`,
+    varchar: (a) => a[0] ? `varchar(${a[0]})` : 'varchar',
+    text: () => 'text',
+    date: () => 'date',
+    time: () => 'time',
+    datetime: () => 'timestamp',
+    timestamptz: () => 'timestamptz',
+    json: () => 'jsonb',
+    uuid: () => 'uuid',
+    binary: () => 'bytea',
+  },
+  mysql: {
+    boolean: () => 'tinyint(1)',
+    smallint: () => 'smallint',
+    integer: () => 'int',
+    bigint: () => 'bigint',
+    decimal: (a) => a.length ? `decimal(${a.join(',')})` : 'decimal(65,30)',
+    float: () => 'float',
+    double: () => 'double',
+    char: (a) => `char(${a[0] || 1})`,
+    // mysql needs a length, and row size limits make huge varchars a bad idea
+    varchar: (a) => a[0] && a[0] <= 16383 ? `varchar(${a[0]})` : 'text',
+    text: () => 'longtext',
+    date: () => 'date',
+    time: () => 'time',
+    datetime: () => 'datetime',
+    timestamptz: () => 'datetime',
+    json: () => 'json',
+    uuid: () => 'char(36)',
+    binary: () => 'longblob',
+  },
+  sqlite: {
+    boolean: () => 'boolean',
+    smallint: () => 'integer',
+    integer: () => 'integer',
+    bigint: () => 'integer',
+    decimal: () => 'numeric',
+    float: () => 'real',
+    double: () => 'real',
+    char: () => 'text',
+    varchar: () => 'text',
+    text: () => 'text',
+    date: () => 'date',
+    time: () => 'time',
+    datetime: () => 'datetime',
+    timestamptz: () => 'datetime',
+    json: () => 'text',
+    uuid: () => 'text',
+    binary: () => 'blob',
+  },
+  sqlserver: {
+    boolean: () => 'bit',
+    smallint: () => 'smallint',
+    integer: () => 'int',
+    bigint: () => 'bigint',
+    decimal: (a) => a.length ? `decimal(${a.join(',')})` : 'decimal(38,10)',
+    float: () => 'real',
+    double: () => 'float',
+    char: (a) => `nchar(${a[0] || 1})`,
+    varchar: (a) => a[0] && a[0] <= 4000 ? `nvarchar(${a[0]})` : 'nvarchar(max)',
+    text: () => 'nvarchar(max)',
+    date: () => 'date',
+    time: () => 'time',
+    datetime: () => 'datetime2',
+    timestamptz: () => 'datetimeoffset',
+    json: () => 'nvarchar(max)',
+    uuid: () => 'uniqueidentifier',
+    binary: () => 'varbinary(max)',
+  },
+}
+
+// the dialects we can translate column types into
+export const TranslatableDialects = Object.keys(targets) as Dialect[]
+
+export function parseDataType(dataType: string): ParsedType | null {
+  const normalized = dataType.trim().toLowerCase()
+  const match = matchers.find(([regex]) => regex.test(normalized))
+  if (!match) return null
+  const args = (normalized.match(/\(([^)]*)\)/)?.[1] || '')
+    .split(',')
+    .map((a) => Number(a.trim()))
+    .filter((a) => !isNaN(a) && a > 0)
+  return { type: match[1], args }
+}
+
+/**
+ * Maps a column type from one database onto the closest type of another.
+ * Types we don't recognise fall back to the target's text type.
+ */
+export function translateDataType(dataType: string, target: Dialect): string {
+  const mapping = targets[target]
+  if (!mapping) return dataType
+  const parsed = parseDataType(dataType)
+  return parsed ? mapping[parsed.type](parsed.args) : mapping.text([])
+}
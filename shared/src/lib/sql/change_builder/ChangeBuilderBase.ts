@@ -224,8 +224,8 @@ export abstract class ChangeBuilderBase {
     const fromTable = this.tableName
     const fkName = spec.constraintName ? this.wrapIdentifier(spec.constraintName) : ''
     const toTable = this.buildTableName(spec.toTable, spec.toSchema)
-    const fromColumn = this.wrapIdentifier(spec.fromColumn)
-    const toColumn = this.wrapIdentifier(spec.toColumn)
+    const fromColumn = _.castArray(spec.fromColumn).map((c) => this.wrapIdentifier(c)).join(', ')
+    const toColumn = _.castArray(spec.toColumn).map((c) => this.wrapIdentifier(c)).join(', ')
     const onUpdate = spec.onUpdate ? `ON UPDATE ${this.wrapLiteral(spec.onUpdate)}` : ''
     const onDelete = spec.onDelete ? `ON DELETE ${this.wrapLiteral(spec.onDelete)}` : ''
 
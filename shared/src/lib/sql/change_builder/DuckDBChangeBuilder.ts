@@ -0,0 +1,20 @@
+import { ChangeBuilderBase } from "@shared/lib/sql/change_builder/ChangeBuilderBase";
+import { DuckDBData as D } from "@shared/lib/dialects/duckdb";
+import { Dialect, DropIndexSpec } from "@shared/lib/dialects/models";
+
+
+export class DuckDBChangeBuilder extends ChangeBuilderBase {
+  dialect: Dialect = 'duckdb'
+  wrapIdentifier = D.wrapIdentifier
+  wrapLiteral = D.wrapLiteral
+  escapeString = D.escapeString
+
+  // DuckDB only drops one index per statement
+  dropIndexes(drops: DropIndexSpec[]): string | null {
+    if (!drops?.length) return null
+    return drops.map((drop) => {
+      const name = this.schema ? this.join(this.schema, drop.name) : this.wrapIdentifier(drop.name)
+      return `DROP INDEX ${name}`
+    }).join(";")
+  }
+}
@@ -0,0 +1,38 @@
+import { AlterRoleSpec, Dialect, GrantSpec, RoleSpec } from "@shared/lib/dialects/models";
+import { MysqlData } from "@shared/lib/dialects/mysql";
+import { RoleBuilderBase } from "./RoleBuilderBase";
+
+export class MysqlRoleBuilder extends RoleBuilderBase {
+  dialect: Dialect = 'mysql'
+  wrapIdentifier = MysqlData.wrapIdentifier
+
+  // mysql strings treat backslashes as escapes too
+  escapeString = (value: string, quote?: boolean): string =>
+    MysqlData.escapeString(value?.replace(/\\/g, '\\\\'), quote)
+
+  // 'name'@'host', without a host the user can connect from anywhere
+  roleName(role: { name: string, host?: string }): string {
+    return `${this.escapeString(role.name, true)}@${this.escapeString(role.host || '%', true)}`
+  }
+
+  createRole(spec: RoleSpec): string {
+    const password = spec.password ? ` IDENTIFIED BY ${this.escapeString(spec.password, true)}` : ''
+    return `CREATE USER ${this.roleName(spec)}${password};`
+  }
+
+  alterRole({ role, changes }: AlterRoleSpec): string | null {
+    const statements = []
+    const renamed = { name: changes.name || role.name, host: changes.host || role.host }
+    if (renamed.name !== role.name || (renamed.host || '%') !== (role.host || '%')) {
+      statements.push(`RENAME USER ${this.roleName(role)} TO ${this.roleName(renamed)};`)
+    }
+    if (changes.password) {
+      statements.push(`ALTER USER ${this.roleName(renamed)} IDENTIFIED BY ${this.escapeString(changes.password, true)};`)
+    }
+    return statements.length ? statements.join('\n') : null
+  }
+
+  grantTarget(grant: GrantSpec): string {
+    return `${this.wrapIdentifier(grant.schema)}.${grant.table ? this.wrapIdentifier(grant.table) : '*'}`
+  }
+}
@@ -0,0 +1,49 @@
+import { AlterRoleSpec, Dialect, GrantSpec, RoleSpec } from "@shared/lib/dialects/models";
+import { PostgresData } from "@shared/lib/dialects/postgresql";
+import { RoleBuilderBase } from "./RoleBuilderBase";
+
+// option, keyword when on, keyword when off
+const Options: [keyof RoleSpec, string, string][] = [
+  ['login', 'LOGIN', 'NOLOGIN'],
+  ['superuser', 'SUPERUSER', 'NOSUPERUSER'],
+  ['createDb', 'CREATEDB', 'NOCREATEDB'],
+  ['createRole', 'CREATEROLE', 'NOCREATEROLE'],
+]
+
+export class PostgresqlRoleBuilder extends RoleBuilderBase {
+  dialect: Dialect = 'postgresql'
+  wrapIdentifier = PostgresData.wrapIdentifier
+  escapeString = PostgresData.escapeString
+
+  roleOptions(spec: Partial<RoleSpec>): string[] {
+    const options = Options.filter(([key]) => spec[key] !== undefined)
+      .map(([key, on, off]) => spec[key] ? on : off)
+    if (spec.password) options.push(`PASSWORD ${this.escapeString(spec.password, true)}`)
+    return options
+  }
+
+  createRole(spec: RoleSpec): string {
+    const options = this.roleOptions(spec)
+    return `CREATE ROLE ${this.roleName(spec)}${options.length ? ` WITH ${options.join(' ')}` : ''};`
+  }
+
+  alterRole({ role, changes }: AlterRoleSpec): string | null {
+    const statements = []
+    let name = role.name
+    if (changes.name && changes.name !== role.name) {
+      statements.push(`ALTER ROLE ${this.roleName(role)} RENAME TO ${this.wrapIdentifier(changes.name)};`)
+      name = changes.name
+    }
+    const options = this.roleOptions(changes)
+    if (options.length) {
+      statements.push(`ALTER ROLE ${this.wrapIdentifier(name)} WITH ${options.join(' ')};`)
+    }
+    return statements.length ? statements.join('\n') : null
+  }
+
+  grantTarget(grant: GrantSpec): string {
+    return grant.table ?
+      `TABLE ${this.wrapIdentifier(grant.schema)}.${this.wrapIdentifier(grant.table)}` :
+      `SCHEMA ${this.wrapIdentifier(grant.schema)}`
+  }
+}
@@ -0,0 +1,47 @@
+import { getDialectData } from "@shared/lib/dialects";
+import { AlterRoleSpec, Dialect, GrantSpec, RoleSpec } from "@shared/lib/dialects/models";
+
+export abstract class RoleBuilderBase {
+  abstract dialect: Dialect
+  abstract wrapIdentifier: (value: string) => string
+  abstract escapeString: (value: string, quote?: boolean) => string
+
+  abstract createRole(spec: RoleSpec): string
+  abstract alterRole(spec: AlterRoleSpec): string | null
+  // what comes after ON in a GRANT
+  abstract grantTarget(grant: GrantSpec): string
+
+  roleName(role: { name: string, host?: string }): string {
+    return this.wrapIdentifier(role.name)
+  }
+
+  grantee(grant: GrantSpec): string {
+    return this.roleName({ name: grant.role, host: grant.host })
+  }
+
+  // privileges go into the sql as they are, so only known ones are allowed
+  privilegeList(grant: GrantSpec): string {
+    const roles = getDialectData(this.dialect).roles
+    const known = grant.table ? roles.tablePrivileges : roles.schemaPrivileges
+    const unknown = grant.privileges.filter((p) => !known.includes(p))
+    if (unknown.length) {
+      throw new Error(`Unknown privilege ${unknown.join(', ')}`)
+    }
+    return grant.privileges.join(', ')
+  }
+
+  grant(grants: GrantSpec[]): string | null {
+    const statements = grants.filter((g) => g.privileges.length).map((g) => {
+      const option = g.withGrantOption ? ' WITH GRANT OPTION' : ''
+      return `GRANT ${this.privilegeList(g)} ON ${this.grantTarget(g)} TO ${this.grantee(g)}${option};`
+    })
+    return statements.length ? statements.join('\n') : null
+  }
+
+  revoke(grants: GrantSpec[]): string | null {
+    const statements = grants.filter((g) => g.privileges.length).map((g) =>
+      `REVOKE ${this.privilegeList(g)} ON ${this.grantTarget(g)} FROM ${this.grantee(g)};`
+    )
+    return statements.length ? statements.join('\n') : null
+  }
+}
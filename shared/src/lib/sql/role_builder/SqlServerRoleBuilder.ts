@@ -0,0 +1,50 @@
+import { AlterRoleSpec, Dialect, GrantSpec, RoleSpec } from "@shared/lib/dialects/models";
+import { SqlServerData } from "@shared/lib/dialects/sqlserver";
+import { RoleBuilderBase } from "./RoleBuilderBase";
+
+// A role that can log in is a server login with a database user of the same
+// name, anything else is a database role.
+export class SqlServerRoleBuilder extends RoleBuilderBase {
+  dialect: Dialect = 'sqlserver'
+  wrapIdentifier = SqlServerData.wrapIdentifier
+  escapeString = SqlServerData.escapeString
+
+  createRole(spec: RoleSpec): string {
+    const name = this.roleName(spec)
+    if (!spec.login) return `CREATE ROLE ${name};`
+    if (!spec.password) throw new Error('A login needs a password')
+    return [
+      `CREATE LOGIN ${name} WITH PASSWORD = ${this.escapeString(spec.password, true)};`,
+      `CREATE USER ${name} FOR LOGIN ${name};`,
+    ].join('\n')
+  }
+
+  alterRole({ role, changes }: AlterRoleSpec): string | null {
+    if (changes.login !== undefined && !!changes.login !== !!role.login) {
+      throw new Error("SQL Server can't turn a role into a login or back, create a new one instead")
+    }
+    const statements = []
+    let name = this.roleName(role)
+    if (changes.name && changes.name !== role.name) {
+      const newName = this.wrapIdentifier(changes.name)
+      if (role.login) {
+        statements.push(`ALTER LOGIN ${name} WITH NAME = ${newName};`)
+        statements.push(`ALTER USER ${name} WITH NAME = ${newName};`)
+      } else {
+        statements.push(`ALTER ROLE ${name} WITH NAME = ${newName};`)
+      }
+      name = newName
+    }
+    if (changes.password) {
+      if (!role.login) throw new Error("Roles can't log in, so they don't have a password")
+      statements.push(`ALTER LOGIN ${name} WITH PASSWORD = ${this.escapeString(changes.password, true)};`)
+    }
+    return statements.length ? statements.join('\n') : null
+  }
+
+  grantTarget(grant: GrantSpec): string {
+    return grant.table ?
+      `OBJECT::${this.wrapIdentifier(grant.schema)}.${this.wrapIdentifier(grant.table)}` :
+      `SCHEMA::${this.wrapIdentifier(grant.schema)}`
+  }
+}